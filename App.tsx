@@ -1,48 +1,311 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import VideoUploader from './components/VideoUploader';
 import SubtitleOverlay from './components/SubtitleOverlay';
-import { generateSubtitles } from './services/transcriptionService';
-import { SubtitleSegment, ProcessingStatus } from './types';
+import ProviderPicker from './components/ProviderPicker';
+import SegmentationSettings from './components/SegmentationSettings';
+import StylePanel from './components/StylePanel';
+import Timeline from './components/Timeline';
+import RecentProjects from './components/RecentProjects';
+import ReframePanel from './components/ReframePanel';
+import LintPanel from './components/LintPanel';
+import GlossaryPanel from './components/GlossaryPanel';
+import ProfanityPanel from './components/ProfanityPanel';
+import TranslationPanel from './components/TranslationPanel';
+import SpeakersPanel from './components/SpeakersPanel';
+import FindReplacePanel from './components/FindReplacePanel';
+import ReframedVideo from './components/ReframedVideo';
+import ExportSettingsPanel from './components/ExportSettings';
+import OverlayExportPanel from './components/OverlayExportPanel';
+import { useEditHistory } from './hooks/useEditHistory';
+import { EDITOR_SHORTCUTS, useEditorShortcuts } from './hooks/useEditorShortcuts';
+import { DEFAULT_PROVIDER_ID, getTranscriptionProvider, listTranscriptionProviders } from './services/transcriptionProviders';
+import { DEFAULT_TRANSLATION_SETTINGS, listTranslators } from './services/translationService';
+import { createProjectId, loadProject, saveProject, saveProjectVideo } from './services/projectStore';
+import { DEFAULT_EXPORT_SETTINGS, ExportOptions, ExportProgress, ExportSettings, exportVideo, isWebCodecsExportSupported } from './services/videoExporter';
+import { OverlaySettings, exportCaptionOverlay } from './services/overlayExporter';
+import { SubtitleSegment, ProcessingStatus, SegmentationOptions, SubtitleStyle, TranscriptionSettings, EditorDocument, EditDescription, Project, ReframeSettings, Glossary, ProfanitySettings, TranslationSettings, SpeakerStyles } from './types';
+import { downloadBlob, formatTime, readMediaDuration } from './utils/fileUtils';
+import { SubtitleFormat, SUBTITLE_MIME_TYPES, serializeSubtitles, toTranslationTrack } from './utils/subtitleSerializers';
+import { parseSubtitleFile } from './utils/subtitleParsers';
+import { DEFAULT_SEGMENTATION_OPTIONS, resegmentSubtitles } from './utils/segmenter';
+import { getLanguageName } from './utils/languages';
+import { DEFAULT_AUDIO_PREPROCESSING } from './utils/audioUtils';
+import { DEFAULT_SUBTITLE_STYLE, renderCaptionFrame } from './utils/captionRenderer';
+import { ensureFontLoaded } from './utils/fontLoader';
+import { updateSegmentText } from './utils/wordTimings';
+import { TimeRange, Waveform, computeWaveform } from './utils/waveform';
+import { clipSubtitlesToRange, findAdjacentSegment, findSegmentAt, resizeSegment } from './utils/segmentEditing';
+import { PROJECT_BUNDLE_EXTENSION, createProjectBundle, parseProjectBundle } from './utils/projectBundle';
+import { DEFAULT_REFRAME_SETTINGS, drawReframedFrame, getAspectRatio, getReframedSize, sanitizeReframe } from './utils/reframe';
+import { EMPTY_GLOSSARY, applyGlossary, buildGlossaryPrompt, sanitizeGlossary } from './utils/glossary';
+import { detectSpeakers, listSpeakers, sanitizeSpeakers } from './utils/speakers';
+import { DEFAULT_PROFANITY_SETTINGS, LiveCensor, createLiveCensor, findProfanity, getCensoredRanges, maskProfanity, sanitizeProfanity } from './utils/profanity';
+import { LINT_FIX_LABELS, LintFix, LintIssue, fixAllSubtitles, fixSubtitles, lintSubtitles } from './utils/subtitleLint';
+
+// The preview has no frame rate to go by, so frame stepping assumes the common 30fps
+const FRAME_SECONDS = 1 / 30;
+const MAX_SHUTTLE_RATE = 4;
+const SHUTTLE_BACK_SECONDS = 2;
+const AUTOSAVE_DELAY_MS = 1000;
 
 const App: React.FC = () => {
   const [videoSrc, setVideoSrc] = useState<string | null>(null);
-  const [subtitles, setSubtitles] = useState<SubtitleSegment[]>([]);
+  const [videoFile, setVideoFile] = useState<File | null>(null);
+  const [waveform, setWaveform] = useState<Waveform | null>(null);
   const [status, setStatus] = useState<ProcessingStatus>(ProcessingStatus.IDLE);
   const [loadingMessage, setLoadingMessage] = useState<string>("");
+  const [loadingProgress, setLoadingProgress] = useState<number | undefined>(undefined);
   const [currentTime, setCurrentTime] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
   const [duration, setDuration] = useState(0);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
-  
-  const [fontSize, setFontSize] = useState<number>(30); 
+
+  const { document: editorDocument, commit, replace, reset, undo, redo, undoLabel, redoLabel } =
+    useEditHistory<EditorDocument>({ subtitles: [], style: DEFAULT_SUBTITLE_STYLE, reframe: DEFAULT_REFRAME_SETTINGS, speakers: {} });
+  const { subtitles, style: subtitleStyle, reframe, speakers } = editorDocument;
+  const [transcriptionSettings, setTranscriptionSettings] = useState<TranscriptionSettings>({
+    providerId: DEFAULT_PROVIDER_ID,
+    task: 'transcribe',
+    audio: DEFAULT_AUDIO_PREPROCESSING,
+  });
+  const [detectedLanguage, setDetectedLanguage] = useState<string | undefined>(undefined);
+  const [segmentation, setSegmentation] = useState<SegmentationOptions>(DEFAULT_SEGMENTATION_OPTIONS);
+  const [glossary, setGlossary] = useState<Glossary>(EMPTY_GLOSSARY);
+  const [profanity, setProfanity] = useState<ProfanitySettings>(DEFAULT_PROFANITY_SETTINGS);
+  const [translationSettings, setTranslationSettings] = useState<TranslationSettings>(DEFAULT_TRANSLATION_SETTINGS);
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+  const [exportRange, setExportRange] = useState<TimeRange | null>(null); // In/out markers; null exports the whole video
+  const [exportJob, setExportJob] = useState<{ progress: number; etaSeconds?: number } | null>(null);
+  const [exportNotice, setExportNotice] = useState<string | null>(null); // Something the last export left out, shown until dismissed
 
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const isRenderingRef = useRef(false);
+  const transcriptionAbortRef = useRef<AbortController | null>(null);
+  const exportAbortRef = useRef<AbortController | null>(null);
+  const projectCreatedAtRef = useRef(0);
+  const projectNameRef = useRef('');
+  const savedVideoRef = useRef<string | null>(null); // Project id whose video is already in storage
+
+  // Loaded or transcribed captions start a fresh history; user edits go through editSubtitles so they can be undone
+  // Speaker colours belong to the old captions; names carried in by a file get default colours
+  const loadSubtitles = useCallback((next: SubtitleSegment[]) => reset(doc => ({ ...doc, subtitles: next, speakers: {} })), [reset]);
+  const streamSubtitles = useCallback((next: SubtitleSegment[]) => replace(doc => ({ ...doc, subtitles: next })), [replace]);
+  const editSubtitles = (update: (subtitles: SubtitleSegment[]) => SubtitleSegment[], edit: EditDescription) =>
+    commit(doc => ({ ...doc, subtitles: update(doc.subtitles) }), edit);
+  const setSubtitleStyle = (style: SubtitleStyle) =>
+    commit(doc => ({ ...doc, style }), { label: 'Change caption style', mergeKey: 'style' });
+  const setReframe = (next: ReframeSettings, edit: EditDescription) => commit(doc => ({ ...doc, reframe: next }), edit);
+  // Speaker labels live on the segments and their styles in a table, so both change in one undo step
+  const setSpeakerDocument = (next: { subtitles: SubtitleSegment[]; speakers: SpeakerStyles }, edit: EditDescription) =>
+    commit(doc => ({ ...doc, ...next }), edit);
+
+  const speakerNames = useMemo(() => listSpeakers(subtitles, speakers), [subtitles, speakers]);
+
+  // Re-checked on every change, so fresh transcriptions and edits are validated alike
+  const lintIssues = useMemo(() => lintSubtitles(subtitles), [subtitles]);
+  const lintIssuesByIndex = useMemo(() => {
+    const byIndex = new Map<number, LintIssue[]>();
+    lintIssues.forEach(issue => byIndex.set(issue.index, [...(byIndex.get(issue.index) ?? []), issue]));
+    return byIndex;
+  }, [lintIssues]);
+
+  // Masking is applied on the way out (preview, export, caption files); the edited text keeps the real words
+  const profanityHits = useMemo(() => findProfanity(subtitles, profanity), [subtitles, profanity]);
+  const displaySubtitles = useMemo(() => maskProfanity(subtitles, profanityHits, profanity), [subtitles, profanityHits, profanity]);
 
-  const handleFileSelect = async (file: File) => {
+  const handleLintFix = (fix: LintFix | 'all') =>
+    editSubtitles(
+      current => (fix === 'all' ? fixAllSubtitles(current) : fixSubtitles(current, fix)),
+      { label: fix === 'all' ? 'Fix all caption issues' : LINT_FIX_LABELS[fix] }
+    );
+
+  const handleFileSelect = async (file: File, captionFile?: File) => {
     try {
       const url = URL.createObjectURL(file);
       setVideoSrc(url);
+      setVideoFile(file);
+      setWaveform(null);
+      setExportRange(null);
       setErrorMessage(null);
-      setSubtitles([]);
+      loadSubtitles([]);
+      setDetectedLanguage(undefined);
+      setProjectId(createProjectId());
+      projectCreatedAtRef.current = Date.now();
+      projectNameRef.current = file.name.replace(/\.[^.]+$/, '');
       
       setStatus(ProcessingStatus.UPLOADING);
       setLoadingMessage("Runnadd AI: Preparing video...");
-      await new Promise(r => setTimeout(r, 500));
+
+      // Existing captions skip transcription entirely
+      if (captionFile) {
+        setLoadingMessage(`Runnadd AI: Reading ${captionFile.name}...`);
+        loadSubtitles(await parseSubtitleFile(captionFile));
+        setStatus(ProcessingStatus.READY);
+        return;
+      }
+
+      const mediaDuration = await readMediaDuration(file);
       
       setStatus(ProcessingStatus.ANALYZING);
-      const generatedSubs = await generateSubtitles(file, (msg) => setLoadingMessage(`Runnadd AI: ${msg}`));
-      setSubtitles(generatedSubs);
+      setLoadingProgress(undefined);
+      transcriptionAbortRef.current?.abort();
+      const abortController = new AbortController();
+      transcriptionAbortRef.current = abortController;
+
+      const provider = getTranscriptionProvider(transcriptionSettings.providerId);
+      const result = await provider.transcribe(file, {
+        model: transcriptionSettings.model,
+        language: transcriptionSettings.language,
+        task: transcriptionSettings.task,
+        audio: transcriptionSettings.audio,
+        signal: abortController.signal,
+        segmentation,
+        duration: mediaDuration,
+        prompt: provider.capabilities.prompting ? buildGlossaryPrompt(glossary) : undefined,
+        onProgress: ({ message, progress }) => {
+          setLoadingMessage(`Runnadd AI: ${message}`);
+          setLoadingProgress(progress);
+        },
+        onPartial: streamSubtitles,
+      });
+      // Known names and mishearings are fixed before the user sees the final captions
+      loadSubtitles(applyGlossary(result.segments, glossary).subtitles);
+      setDetectedLanguage(result.language);
       setStatus(ProcessingStatus.READY);
 
     } catch (e: any) {
+      // A cancelled run was superseded or reset by the user, so there is nothing to report
+      if (e?.name === 'AbortError') return;
       console.error(e);
       setStatus(ProcessingStatus.ERROR);
       setErrorMessage(e.message || "Runnadd AI encountered an error during analysis.");
     }
   };
 
+  // Captions with no video behind them: enough to edit them and export caption files or the transparent overlay
+  const handleCaptionsOnly = async (captionFile: File, timeline?: number) => {
+    try {
+      transcriptionAbortRef.current?.abort();
+      setVideoSrc(null);
+      setVideoFile(null);
+      setWaveform(null);
+      setExportRange(null);
+      setErrorMessage(null);
+      setDetectedLanguage(undefined);
+      // Projects are stored with their video, so there is nothing to autosave
+      setProjectId(null);
+      setStatus(ProcessingStatus.UPLOADING);
+      setLoadingMessage(`Runnadd AI: Reading ${captionFile.name}...`);
+      const parsed = await parseSubtitleFile(captionFile);
+      loadSubtitles(parsed);
+      setCurrentTime(0);
+      setDuration(timeline ?? Math.max(0, ...parsed.map(s => s.endTime)));
+      setStatus(ProcessingStatus.READY);
+    } catch (e: any) {
+      console.error(e);
+      setStatus(ProcessingStatus.ERROR);
+      setErrorMessage(e.message || "Runnadd AI could not read the captions.");
+    }
+  };
+
+  const restoreProject = (project: Project, video: Blob) => {
+    transcriptionAbortRef.current?.abort();
+    const file = new File([video], project.videoName, { type: project.videoType });
+    setVideoSrc(URL.createObjectURL(file));
+    setVideoFile(file);
+    setWaveform(null);
+    setExportRange(null);
+    setErrorMessage(null);
+    // Projects saved before reframing existed have no settings for it
+    // Styles saved before newer fields existed take their defaults
+    reset(() => ({ subtitles: project.subtitles, style: { ...DEFAULT_SUBTITLE_STYLE, ...project.style }, reframe: sanitizeReframe(project.reframe), speakers: sanitizeSpeakers(project.speakers) }));
+    setTranscriptionSettings(project.transcription);
+    setSegmentation(project.segmentation);
+    setGlossary(sanitizeGlossary(project.glossary));
+    setProfanity(sanitizeProfanity(project.profanity));
+    setTranslationSettings({ ...DEFAULT_TRANSLATION_SETTINGS, ...project.translation });
+    setDetectedLanguage(project.language);
+    setProjectId(project.id);
+    projectCreatedAtRef.current = project.createdAt;
+    projectNameRef.current = project.name;
+    savedVideoRef.current = project.id;
+    // Saved captions are ready to edit; nothing is transcribed again
+    setStatus(ProcessingStatus.READY);
+  };
+
+  const handleProjectError = (e: unknown) => {
+    console.error(e);
+    setStatus(ProcessingStatus.ERROR);
+    setErrorMessage((e as Error).message || "Runnadd AI could not open the project.");
+  };
+
+  const handleOpenProject = async (id: string) => {
+    try {
+      const { project, video } = await loadProject(id);
+      restoreProject(project, video);
+    } catch (e) {
+      handleProjectError(e);
+    }
+  };
+
+  const handleImportProject = async (file: File) => {
+    try {
+      const { project, video } = await parseProjectBundle(file, createProjectId());
+      await saveProjectVideo(project.id, video);
+      await saveProject(project);
+      restoreProject(project, video);
+    } catch (e) {
+      handleProjectError(e);
+    }
+  };
+
+  const downloadProjectBundle = (project: Project, video: Blob) => {
+    downloadBlob(createProjectBundle(project, video), `${project.name.replace(/[^\w-]+/g, '_')}${PROJECT_BUNDLE_EXTENSION}`);
+  };
+
+  const handleExportStoredProject = async (id: string) => {
+    try {
+      const { project, video } = await loadProject(id);
+      downloadProjectBundle(project, video);
+    } catch (e) {
+      handleProjectError(e);
+    }
+  };
+
+  const buildProject = (id: string, file: File): Project => ({
+    id,
+    name: projectNameRef.current,
+    createdAt: projectCreatedAtRef.current,
+    updatedAt: Date.now(),
+    videoName: file.name,
+    videoType: file.type,
+    videoSize: file.size,
+    duration: duration || undefined,
+    language: detectedLanguage,
+    subtitles,
+    style: subtitleStyle,
+    reframe,
+    speakers,
+    transcription: transcriptionSettings,
+    segmentation,
+    glossary,
+    profanity,
+    translation: translationSettings,
+  });
+
+  const handleCancelTranscription = () => {
+    transcriptionAbortRef.current?.abort();
+    transcriptionAbortRef.current = null;
+    setVideoSrc(null);
+    setVideoFile(null);
+    setProjectId(null);
+    loadSubtitles([]);
+    setLoadingProgress(undefined);
+    setStatus(ProcessingStatus.IDLE);
+  };
+
   const handleTimeUpdate = () => {
     if (videoRef.current && !isRenderingRef.current) {
       setCurrentTime(videoRef.current.currentTime);
@@ -66,10 +329,112 @@ const App: React.FC = () => {
     }
   };
 
+  const handleSeek = (time: number) => {
+    if (!videoRef.current) return;
+    videoRef.current.currentTime = time;
+    setCurrentTime(time);
+  };
+
   const handleSubtitleChange = (index: number, field: keyof SubtitleSegment, value: string | number) => {
-    const newSubtitles = [...subtitles];
-    newSubtitles[index] = { ...newSubtitles[index], [field]: value };
-    setSubtitles(newSubtitles);
+    editSubtitles(current => {
+      const newSubtitles = [...current];
+      // Text edits carry the word timings along, otherwise the renderer keeps drawing the old words
+      newSubtitles[index] = field === 'text'
+        ? updateSegmentText(newSubtitles[index], value as string)
+        : { ...newSubtitles[index], [field]: value };
+      return newSubtitles;
+    }, { label: field === 'translation' ? 'Edit translation' : 'Edit caption text', mergeKey: `${field}:${index}` });
+  };
+
+  const handleSpeakerChange = (index: number, speaker: string) => {
+    editSubtitles(current => current.map((sub, i) => {
+      if (i !== index) return sub;
+      const { speaker: _, ...rest } = sub;
+      return speaker ? { ...rest, speaker } : rest;
+    }), { label: speaker ? `Assign ${speaker}` : 'Clear speaker' });
+  };
+
+  const handleDetectSpeakers = async (count: number | 'auto') => {
+    if (!videoFile) throw new Error("Speaker detection listens to the video's audio; open the captions with their video to use it.");
+    const result = await detectSpeakers(videoFile, subtitles, count);
+    setSpeakerDocument(result, { label: 'Detect speakers' });
+  };
+
+  // L plays and speeds up, K stops, J slows down and then steps back (browsers can't play in reverse)
+  const handleShuttle = (direction: -1 | 0 | 1) => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (direction === 0) {
+      video.pause();
+      video.playbackRate = 1;
+      setIsPlaying(false);
+    } else if (direction === 1) {
+      if (video.paused) {
+        video.playbackRate = 1;
+        video.play();
+        setIsPlaying(true);
+      } else {
+        video.playbackRate = Math.min(MAX_SHUTTLE_RATE, video.playbackRate * 2);
+      }
+    } else if (!video.paused && video.playbackRate > 1) {
+      video.playbackRate /= 2;
+    } else {
+      handleSeek(Math.max(0, video.currentTime - SHUTTLE_BACK_SECONDS));
+    }
+  };
+
+  const handleStep = (seconds: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.pause();
+    setIsPlaying(false);
+    handleSeek(Math.max(0, Math.min(duration, video.currentTime + seconds)));
+  };
+
+  const handleJumpToSegment = (direction: -1 | 1) => {
+    const index = findAdjacentSegment(subtitles, videoRef.current?.currentTime ?? currentTime, direction);
+    if (index !== -1) handleSeek(subtitles[index].startTime);
+  };
+
+  // I and O act on the caption under the playhead, or else the next (I) / previous (O) one
+  const handleSetEdgeToPlayhead = (edge: 'start' | 'end') => {
+    const time = videoRef.current?.currentTime ?? currentTime;
+    let index = findSegmentAt(subtitles, time);
+    if (index === -1) {
+      index = edge === 'start'
+        ? subtitles.findIndex(s => s.startTime > time)
+        : subtitles.map(s => s.endTime < time).lastIndexOf(true);
+    }
+    if (index === -1) return;
+    editSubtitles(
+      current => resizeSegment(current, index, edge, time, duration),
+      { label: edge === 'start' ? 'Set caption start' : 'Set caption end' }
+    );
+  };
+
+  useEditorShortcuts({
+    undo,
+    redo,
+    togglePlay,
+    shuttle: handleShuttle,
+    stepFrames: frames => handleStep(frames * FRAME_SECONDS),
+    stepSeconds: handleStep,
+    jumpToSegment: handleJumpToSegment,
+    setStartToPlayhead: () => handleSetEdgeToPlayhead('start'),
+    setEndToPlayhead: () => handleSetEdgeToPlayhead('end'),
+  }, status === ProcessingStatus.READY);
+
+  const handleDownloadCaptions = (format: SubtitleFormat) => {
+    if (subtitles.length === 0) return;
+    const stamp = Date.now();
+    const content = serializeSubtitles(displaySubtitles, format, { style: subtitleStyle });
+    downloadBlob(new Blob([content], { type: SUBTITLE_MIME_TYPES[format] }), `runnadd_captions_${stamp}.${format}`);
+    // SRT and VTT hold one language each, so translations go out as a second track
+    const translated = toTranslationTrack(displaySubtitles);
+    if ((format === 'srt' || format === 'vtt') && translated.length > 0) {
+      const track = serializeSubtitles(translated, format, { style: subtitleStyle });
+      downloadBlob(new Blob([track], { type: SUBTITLE_MIME_TYPES[format] }), `runnadd_captions_${stamp}.${translationSettings.targetLanguage}.${format}`);
+    }
   };
 
   useEffect(() => {
@@ -78,43 +443,84 @@ const App: React.FC = () => {
     };
   }, [videoSrc]);
 
-  const handleExport = useCallback(async () => {
-    if (!videoRef.current || !canvasRef.current || subtitles.length === 0) return;
+  // Decode the waveform once captions are ready, so it doesn't compete with transcription for the CPU
+  useEffect(() => {
+    if (!videoFile || waveform || status !== ProcessingStatus.READY) return;
+    let cancelled = false;
+    computeWaveform(videoFile)
+      .then(result => { if (!cancelled) setWaveform(result); })
+      .catch(e => console.warn("Runnadd AI: Waveform unavailable", e));
+    return () => { cancelled = true; };
+  }, [videoFile, waveform, status]);
 
+  // Autosave: the video is written once per project, everything else shortly after each change
+  useEffect(() => {
+    if (!projectId || !videoFile || status !== ProcessingStatus.READY) return;
+    const timer = setTimeout(() => {
+      const project = buildProject(projectId, videoFile);
+      (async () => {
+        if (savedVideoRef.current !== projectId) {
+          await saveProjectVideo(projectId, videoFile);
+          savedVideoRef.current = projectId;
+        }
+        await saveProject(project);
+      })().catch(e => console.warn("Runnadd AI: Autosave failed", e));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [projectId, videoFile, status, subtitles, subtitleStyle, reframe, speakers, transcriptionSettings, segmentation, glossary, profanity, translationSettings, detectedLanguage, duration]);
+
+  // The overlay redraws when the font finishes loading
+  useEffect(() => {
+    ensureFontLoaded(subtitleStyle.fontFamily, subtitleStyle.fontWeight);
+  }, [subtitleStyle.fontFamily, subtitleStyle.fontWeight]);
+
+  // Fallback for browsers without WebCodecs: records the preview canvas while the video plays in real time.
+  // The audio is captured live from the player, with profanity muted or bleeped on its way to the recorder.
+  const recordRealtimeExport = useCallback(async (
+    range: TimeRange | null,
+    signal: AbortSignal,
+    onProgress: (progress: ExportProgress) => void,
+    audioCensor?: ExportOptions['audioCensor']
+  ): Promise<{ blob: Blob; extension: string }> => {
     const video = videoRef.current;
     const canvas = canvasRef.current;
-    const ctx = canvas.getContext('2d', { alpha: false }); // Disable alpha for better performance
-    
-    if (!ctx) return;
+    const ctx = canvas?.getContext('2d', { alpha: false }); // Disable alpha for better performance
+    if (!video || !canvas || !ctx) throw new Error("The preview player is not ready.");
 
-    setStatus(ProcessingStatus.RENDERING);
     isRenderingRef.current = true;
-    setLoadingMessage("Runnadd Engine: Rendering Ultra-HQ Frame Buffer...");
+    const start = range?.start ?? 0;
+    const end = range?.end ?? video.duration;
+    const captions = clipSubtitlesToRange(displaySubtitles, start, end);
 
     const originalTime = video.currentTime;
     const wasPlaying = !video.paused;
     const originalVolume = video.volume;
     const originalMuted = video.muted;
+    let mediaRecorder: MediaRecorder | null = null;
+    let liveCensor: LiveCensor | null = null;
+    const stopRecording = () => {
+        video.pause();
+        if (mediaRecorder && mediaRecorder.state !== 'inactive') mediaRecorder.stop();
+    };
 
     try {
         video.pause();
-        video.currentTime = 0;
+        video.currentTime = start;
         video.muted = false; 
         video.volume = 1.0;
 
-        await document.fonts.ready;
-
         await new Promise<void>((resolve) => {
             const onSeek = () => {
                 video.removeEventListener('seeked', onSeek);
                 resolve();
             };
             video.addEventListener('seeked', onSeek);
-            if (video.currentTime === 0) {
+            if (video.currentTime === start && !video.seeking) {
                 video.removeEventListener('seeked', onSeek);
                 resolve();
             }
         });
+        signal.throwIfAborted();
 
         // Preferred Codecs for high-fidelity 9:16 content
         const mimeTypes = [
@@ -134,135 +540,77 @@ const App: React.FC = () => {
                 const videoStream = streamCreator.call(video);
                 const audioTracks = videoStream.getAudioTracks();
                 if (audioTracks.length > 0) {
-                    stream.addTrack(audioTracks[0]);
+                    if (audioCensor) liveCensor = createLiveCensor(audioTracks[0], audioCensor.ranges, audioCensor.mode);
+                    stream.addTrack(liveCensor ? liveCensor.track : audioTracks[0]);
                 }
             }
         } catch (e) {
             console.warn("Runnadd AI: Audio bridge failed, falling back to silent video", e);
         }
 
-        const mediaRecorder = new MediaRecorder(stream, { 
+        const recorder = new MediaRecorder(stream, { 
             mimeType: selectedMimeType,
             // 150 Mbps ensures file size exceeds 100MB for typical social clips
             videoBitsPerSecond: 150_000_000 
         });
+        mediaRecorder = recorder;
         
         const chunks: Blob[] = [];
-        mediaRecorder.ondataavailable = (e) => {
+        recorder.ondataavailable = (e) => {
             if (e.data && e.data.size > 0) chunks.push(e.data);
         };
 
-        const recordingPromise = new Promise<void>((resolve, reject) => {
-            mediaRecorder.onstop = () => {
-                try {
-                    const blob = new Blob(chunks, { type: selectedMimeType });
-                    const url = URL.createObjectURL(blob);
-                    const a = document.createElement('a');
-                    a.href = url;
-                    const ext = selectedMimeType.includes('mp4') ? 'mp4' : 'webm';
-                    a.download = `runnadd_master_export_${Date.now()}.${ext}`;
-                    document.body.appendChild(a);
-                    a.click();
-                    document.body.removeChild(a);
-                    URL.revokeObjectURL(url);
-                    resolve();
-                } catch (err) {
-                    reject(err);
+        const recordingPromise = new Promise<{ blob: Blob; extension: string }>((resolve, reject) => {
+            recorder.onstop = () => {
+                if (signal.aborted) {
+                    reject(signal.reason);
+                    return;
                 }
+                resolve({
+                    blob: new Blob(chunks, { type: selectedMimeType }),
+                    extension: selectedMimeType.includes('mp4') ? 'mp4' : 'webm',
+                });
             };
-            mediaRecorder.onerror = (e) => reject(new Error("MediaRecorder Error"));
+            recorder.onerror = () => reject(new Error("MediaRecorder Error"));
         });
+        signal.addEventListener('abort', stopRecording);
 
-        mediaRecorder.start();
+        recorder.start();
 
-        canvas.width = video.videoWidth;
-        canvas.height = video.videoHeight;
-        const referenceWidth = 360; 
-        const scaleFactor = canvas.width / referenceWidth;
-        const renderFontSize = fontSize * scaleFactor;
+        const frame = getReframedSize(video.videoWidth, video.videoHeight, reframe);
+        canvas.width = frame.width;
+        canvas.height = frame.height;
 
         // Frame-locked render loop to prevent skips
         const renderFrame = () => {
-            if (!isRenderingRef.current) return;
-
-            // 1. Draw Master Video Frame
-            ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-
-            // 2. Draw Subtitles using Runnadd Logic
-            const currentT = video.currentTime;
-            const activeSeg = subtitles.find(s => currentT >= s.startTime && currentT <= s.endTime);
-
-            if (activeSeg) {
-                ctx.font = `900 ${renderFontSize}px Inter, sans-serif`;
-                ctx.textAlign = 'center';
-                ctx.textBaseline = 'bottom';
-                
-                const y = canvas.height * 0.8; 
-                const strokeWidth = Math.max(2, renderFontSize * 0.08);
-                ctx.lineJoin = 'round';
-                ctx.lineWidth = strokeWidth * 2.5; 
-                ctx.strokeStyle = 'black';
-                
-                const spaceWidth = renderFontSize * 0.3; 
-                const words = activeSeg.words ? activeSeg.words.map(w => w.text) : activeSeg.text.split(' ');
-                
-                let highlightedIndex = -1;
-                if (activeSeg.words) {
-                     highlightedIndex = activeSeg.words.filter(w => currentT >= w.start).length - 1;
-                } else {
-                    const progress = Math.max(0, Math.min(1, (currentT - activeSeg.startTime) / (activeSeg.endTime - activeSeg.startTime)));
-                    highlightedIndex = Math.floor(progress * words.length);
-                }
+            if (!isRenderingRef.current || signal.aborted) return;
 
-                let totalWidth = 0;
-                const wordMetrics = words.map(w => {
-                    const m = ctx.measureText(w);
-                    totalWidth += m.width;
-                    return m.width;
-                });
-                totalWidth += (words.length - 1) * spaceWidth;
-                
-                let startX = (canvas.width - totalWidth) / 2;
-                const maxWidth = canvas.width * 0.95;
-                let scale = totalWidth > maxWidth ? maxWidth / totalWidth : 1;
-
-                ctx.save();
-                if (scale < 1) {
-                    ctx.translate(canvas.width / 2, y);
-                    ctx.scale(scale, scale);
-                    ctx.translate(-canvas.width / 2, -y);
-                }
+            // 1. Draw Master Video Frame, reframed exactly as the preview shows it
+            drawReframedFrame(ctx, video, video.videoWidth, video.videoHeight, frame, reframe, video.currentTime);
 
-                let currentDrawX = startX;
-                words.forEach((word, index) => {
-                    ctx.fillStyle = index <= highlightedIndex ? '#EAB308' : 'white';
-                    ctx.strokeText(word, currentDrawX + wordMetrics[index]/2, y);
-                    ctx.fillText(word, currentDrawX + wordMetrics[index]/2, y);
-                    currentDrawX += wordMetrics[index] + spaceWidth;
-                });
-                ctx.restore();
-            }
+            // 2. Draw Subtitles through the same renderer as the preview, on the clip's own clock
+            const time = video.currentTime - start;
+            renderCaptionFrame(ctx, captions, time, subtitleStyle, frame, speakers);
+            onProgress({ renderedSeconds: Math.min(time, end - start), totalSeconds: end - start });
 
-            if (!video.ended && isRenderingRef.current) {
-                requestAnimationFrame(renderFrame);
-            } else if (video.ended) {
-                if (mediaRecorder.state !== 'inactive') mediaRecorder.stop();
+            if (video.ended || video.currentTime >= end) {
+                stopRecording();
                 isRenderingRef.current = false;
+            } else {
+                requestAnimationFrame(renderFrame);
             }
         };
 
         await video.play();
+        liveCensor?.start(video.currentTime);
         renderFrame();
 
-        await recordingPromise;
-
-    } catch (error) {
-        console.error("Export failed", error);
-        setErrorMessage("Runnadd Export Error: " + (error as Error).message);
-        setStatus(ProcessingStatus.ERROR);
+        return await recordingPromise;
     } finally {
         isRenderingRef.current = false;
-        if (status !== ProcessingStatus.ERROR) setStatus(ProcessingStatus.READY);
+        signal.removeEventListener('abort', stopRecording);
+        if (mediaRecorder && mediaRecorder.state !== 'inactive') mediaRecorder.stop();
+        liveCensor?.close();
         
         try {
             video.pause();
@@ -273,13 +621,95 @@ const App: React.FC = () => {
             else setIsPlaying(false);
         } catch(e) {}
     }
-  }, [subtitles, fontSize, status]);
+  }, [displaySubtitles, subtitleStyle, reframe, speakers]);
+
+  // Shared by the video and overlay exports: lint check, progress with ETA, fonts, cancelling and errors
+  const runExport = useCallback(async (render: (signal: AbortSignal, onProgress: (progress: ExportProgress) => void) => Promise<void>) => {
+    if (subtitles.length === 0) return;
+    const lintErrors = lintIssues.filter(issue => issue.severity === 'error');
+    if (lintErrors.length > 0 && !window.confirm(
+      `${lintErrors.length} caption error${lintErrors.length === 1 ? '' : 's'} found (first: #${lintErrors[0].index + 1} ${lintErrors[0].message}). Export anyway?`
+    )) return;
+
+    exportAbortRef.current?.abort();
+    const abortController = new AbortController();
+    exportAbortRef.current = abortController;
+    const startedAt = performance.now();
+
+    // ETA extrapolates the pace so far over what is left
+    const reportProgress = ({ renderedSeconds, totalSeconds }: ExportProgress) => {
+      const progress = totalSeconds > 0 ? Math.min(1, renderedSeconds / totalSeconds) : 0;
+      const elapsed = (performance.now() - startedAt) / 1000;
+      setExportJob({ progress, etaSeconds: progress > 0.01 ? (elapsed * (1 - progress)) / progress : undefined });
+      setLoadingMessage(`Runnadd Engine: Rendered ${formatTime(renderedSeconds)} / ${formatTime(totalSeconds)}`);
+    };
+
+    videoRef.current?.pause();
+    setStatus(ProcessingStatus.RENDERING);
+    setExportNotice(null);
+    setExportJob({ progress: 0 });
+    setLoadingMessage("Runnadd Engine: Preparing export...");
+    try {
+      await ensureFontLoaded(subtitleStyle.fontFamily, subtitleStyle.fontWeight);
+      await document.fonts.ready;
+      abortController.signal.throwIfAborted();
+      await render(abortController.signal, reportProgress);
+      setStatus(ProcessingStatus.READY);
+    } catch (error: any) {
+      if (error?.name === 'AbortError') {
+        setStatus(ProcessingStatus.READY);
+        return;
+      }
+      console.error("Export failed", error);
+      setErrorMessage("Runnadd Export Error: " + error.message);
+      setStatus(ProcessingStatus.ERROR);
+    } finally {
+      setExportJob(null);
+      if (exportAbortRef.current === abortController) exportAbortRef.current = null;
+    }
+  }, [subtitles, subtitleStyle, lintIssues]);
+
+  const handleExport = useCallback(() => {
+    if (!videoFile) return;
+    runExport(async (signal, onProgress) => {
+      const censorMode = profanity.enabled && profanity.audio !== 'none' ? profanity.audio : null;
+      const audioCensor = censorMode ? { mode: censorMode, ranges: getCensoredRanges(profanityHits) } : undefined;
+      if (isWebCodecsExportSupported()) {
+        const { blob, extension, silent } = await exportVideo(videoFile, displaySubtitles, subtitleStyle, reframe, exportSettings, {
+          range: exportRange ?? undefined,
+          signal,
+          onProgress,
+          audioCensor,
+          speakers,
+        });
+        if (silent) setExportNotice("Exported without audio: this browser could not decode or encode the source audio.");
+        downloadBlob(blob, `runnadd_master_export_${Date.now()}.${extension}`);
+      } else {
+        const { blob, extension } = await recordRealtimeExport(exportRange, signal, onProgress, audioCensor);
+        downloadBlob(blob, `runnadd_master_export_${Date.now()}.${extension}`);
+      }
+    });
+  }, [runExport, videoFile, displaySubtitles, subtitleStyle, reframe, speakers, exportSettings, exportRange, recordRealtimeExport, profanity, profanityHits]);
+
+  // Captions alone on a transparent background; the timeline is the video's when one is loaded, else the captions' own
+  const handleExportOverlay = (settings: OverlaySettings) => runExport(async (signal, onProgress) => {
+    const timeline = duration || Math.max(0, ...displaySubtitles.map(s => s.endTime));
+    const { blob, extension } = await exportCaptionOverlay(displaySubtitles, subtitleStyle, timeline, settings, {
+      range: exportRange ?? undefined,
+      signal,
+      onProgress,
+      speakers,
+    });
+    downloadBlob(blob, `runnadd_captions_overlay_${Date.now()}.${extension}`);
+  });
+
+  const handleCancelExport = () => exportAbortRef.current?.abort();
 
   return (
     <div className="min-h-screen bg-brand-dark text-white flex flex-col md:flex-row h-screen overflow-hidden">
       
       {/* Sidebar */}
-      <div className="w-full md:w-1/3 lg:w-1/4 bg-brand-surface p-4 flex flex-col gap-4 border-r border-zinc-800 z-10 overflow-hidden shadow-2xl">
+      <div className="w-full md:w-1/3 lg:w-1/4 bg-brand-surface p-4 flex flex-col gap-4 border-r border-zinc-800 z-10 overflow-y-auto shadow-2xl">
         <div className="flex items-center gap-3">
           <div className="w-10 h-10 bg-brand-accent rounded-lg flex items-center justify-center text-black">
             <i className="fa-solid fa-bolt-lightning text-xl"></i>
@@ -292,35 +722,138 @@ const App: React.FC = () => {
           </div>
         </div>
 
+        {status === ProcessingStatus.READY && detectedLanguage && (
+            <div className="bg-zinc-900/50 p-4 rounded-xl border border-zinc-800 flex justify-between items-center shrink-0">
+                <label className="text-[10px] text-zinc-400 font-black uppercase tracking-widest">Language</label>
+                <span className="text-xs font-mono text-brand-accent">{getLanguageName(detectedLanguage)}</span>
+            </div>
+        )}
+
+        {status === ProcessingStatus.READY && (
+            <LintPanel subtitles={subtitles} issues={lintIssues} onFix={handleLintFix} onSeek={handleSeek} />
+        )}
+
+        {status === ProcessingStatus.READY && (
+            <StylePanel style={subtitleStyle} onChange={setSubtitleStyle} />
+        )}
+
+        {status === ProcessingStatus.READY && (
+            <GlossaryPanel
+                glossary={glossary}
+                onChange={setGlossary}
+                onApply={() => editSubtitles(current => applyGlossary(current, glossary).subtitles, { label: 'Apply glossary' })}
+                prompting={getTranscriptionProvider(transcriptionSettings.providerId).capabilities.prompting}
+            />
+        )}
+
+        {status === ProcessingStatus.READY && (
+            <FindReplacePanel
+                subtitles={subtitles}
+                onReplace={(next, count) => editSubtitles(() => next, { label: `Replace ${count} occurrence${count === 1 ? '' : 's'}` })}
+                currentTime={currentTime}
+                onSeek={handleSeek}
+            />
+        )}
+
+        {status === ProcessingStatus.READY && (
+            <TranslationPanel
+                subtitles={subtitles}
+                sourceLanguage={detectedLanguage ?? transcriptionSettings.language}
+                translators={listTranslators()}
+                settings={translationSettings}
+                onChange={setTranslationSettings}
+                style={subtitleStyle}
+                onStyleChange={setSubtitleStyle}
+                // Captions edited while the translation ran keep their text; only unchanged ones take the result
+                onTranslated={translated => editSubtitles(
+                    current => current.map((sub, i) => translated[i]?.text === sub.text ? { ...sub, translation: translated[i].translation } : sub),
+                    { label: 'Translate captions' }
+                )}
+                onClear={() => editSubtitles(current => current.map(({ translation, ...sub }) => sub), { label: 'Clear translations' })}
+            />
+        )}
+
+        {status === ProcessingStatus.READY && (
+            <SpeakersPanel subtitles={subtitles} speakers={speakers} onChange={setSpeakerDocument} onDetect={handleDetectSpeakers} />
+        )}
+
         {status === ProcessingStatus.READY && (
-            <div className="bg-zinc-900/50 p-4 rounded-xl border border-zinc-800 space-y-3">
-                <div className="flex justify-between items-center">
-                    <label className="text-[10px] text-zinc-400 font-black uppercase tracking-widest">Font Size</label>
-                    <span className="text-xs font-mono text-brand-accent">{fontSize}px</span>
+            <ProfanityPanel settings={profanity} hits={profanityHits} onChange={setProfanity} onSeek={handleSeek} />
+        )}
+
+        {status === ProcessingStatus.READY && (
+            <ReframePanel settings={reframe} onChange={setReframe} currentTime={currentTime} onSeek={handleSeek} />
+        )}
+
+        {status === ProcessingStatus.READY && (
+            <SegmentationSettings
+                options={segmentation}
+                onChange={setSegmentation}
+                onApply={() => editSubtitles(current => resegmentSubtitles(current, segmentation), { label: 'Re-segment captions' })}
+            />
+        )}
+
+        {status === ProcessingStatus.READY && videoFile && (
+            <ExportSettingsPanel settings={exportSettings} onChange={setExportSettings} supported={isWebCodecsExportSupported()} />
+        )}
+
+        {status === ProcessingStatus.READY && (
+            <OverlayExportPanel aspect={reframe.aspect} onExport={handleExportOverlay} />
+        )}
+
+        {status === ProcessingStatus.READY && (
+            <div className="flex gap-2 shrink-0">
+                <button
+                    onClick={undo}
+                    disabled={!undoLabel}
+                    title={undoLabel ? `Undo: ${undoLabel}` : 'Nothing to undo'}
+                    className="flex-1 py-2 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-40 text-white text-[10px] font-black uppercase tracking-widest rounded-xl transition-all"
+                >
+                    <i className="fa-solid fa-rotate-left mr-2"></i>
+                    Undo
+                </button>
+                <button
+                    onClick={redo}
+                    disabled={!redoLabel}
+                    title={redoLabel ? `Redo: ${redoLabel}` : 'Nothing to redo'}
+                    className="flex-1 py-2 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-40 text-white text-[10px] font-black uppercase tracking-widest rounded-xl transition-all"
+                >
+                    <i className="fa-solid fa-rotate-right mr-2"></i>
+                    Redo
+                </button>
+                <div
+                    title={EDITOR_SHORTCUTS.map(s => `${s.keys}: ${s.action}`).join('\n')}
+                    className="px-3 py-2 bg-zinc-800 text-zinc-400 rounded-xl cursor-help"
+                >
+                    <i className="fa-solid fa-keyboard"></i>
                 </div>
-                <input 
-                    type="range" 
-                    min="16" 
-                    max="60" 
-                    value={fontSize} 
-                    onChange={(e) => setFontSize(parseInt(e.target.value))}
-                    className="w-full h-1 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-brand-accent"
-                />
             </div>
         )}
 
         {status === ProcessingStatus.IDLE || (status === ProcessingStatus.ERROR && !videoSrc) ? (
-              <div className="flex-1 flex flex-col justify-center">
-                <VideoUploader onFileSelect={handleFileSelect} />
+              <div className="flex-1 flex flex-col justify-center gap-4 overflow-y-auto">
+                <ProviderPicker
+                    providers={listTranscriptionProviders()}
+                    settings={transcriptionSettings}
+                    onChange={setTranscriptionSettings}
+                />
+                <SegmentationSettings options={segmentation} onChange={setSegmentation} />
+                <GlossaryPanel
+                    glossary={glossary}
+                    onChange={setGlossary}
+                    prompting={getTranscriptionProvider(transcriptionSettings.providerId).capabilities.prompting}
+                />
+                <VideoUploader onFileSelect={handleFileSelect} onCaptionsOnly={handleCaptionsOnly} />
+                <RecentProjects onOpen={handleOpenProject} onExport={handleExportStoredProject} onImport={handleImportProject} />
                 {status === ProcessingStatus.ERROR && errorMessage && (
-                    <div className="mt-4 p-4 bg-red-900/20 border border-red-800 text-red-200 rounded-xl text-xs font-medium">
+                    <div className="mt-4 p-4 bg-red-900/20 border border-red-800 text-red-200 rounded-xl text-xs font-medium whitespace-pre-line">
                         <i className="fa-solid fa-circle-exclamation mr-2"></i>
                         {errorMessage}
                     </div>
                 )}
               </div>
             ) : (
-              <div className="flex-1 flex flex-col gap-4 overflow-hidden">
+              <div className="flex-1 min-h-[20rem] flex flex-col gap-4 overflow-hidden">
                 {status !== ProcessingStatus.READY && (
                     <div className="bg-zinc-900 rounded-xl p-4 border border-zinc-800 shrink-0">
                         <div className="flex items-center justify-between mb-3">
@@ -333,10 +866,42 @@ const App: React.FC = () => {
                         <div className="text-sm font-medium text-zinc-300 leading-relaxed">
                             {loadingMessage}
                         </div>
+                        {status === ProcessingStatus.ANALYZING && (
+                            <div className="mt-3 flex items-center gap-3">
+                                <div className="flex-1 h-1.5 bg-zinc-800 rounded-full overflow-hidden">
+                                    <div
+                                        className={`h-full bg-brand-accent transition-all duration-300 ${loadingProgress === undefined ? 'w-1/3 animate-pulse' : ''}`}
+                                        style={loadingProgress === undefined ? undefined : { width: `${Math.round(loadingProgress * 100)}%` }}
+                                    ></div>
+                                </div>
+                                <button
+                                    onClick={handleCancelTranscription}
+                                    className="text-[10px] font-black uppercase tracking-widest text-zinc-400 hover:text-white"
+                                >
+                                    Cancel
+                                </button>
+                            </div>
+                        )}
+                        {status === ProcessingStatus.ERROR && errorMessage && (
+                            <div className="mt-3 p-3 bg-red-900/20 border border-red-800 text-red-200 rounded-xl text-xs font-medium whitespace-pre-line">
+                                <i className="fa-solid fa-circle-exclamation mr-2"></i>
+                                {errorMessage}
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {status === ProcessingStatus.READY && exportNotice && (
+                    <div className="p-3 bg-amber-900/20 border border-amber-800 text-amber-200 rounded-xl text-xs font-medium flex items-start gap-2 shrink-0">
+                        <i className="fa-solid fa-triangle-exclamation mt-0.5"></i>
+                        <span className="flex-1">{exportNotice}</span>
+                        <button onClick={() => setExportNotice(null)} className="text-amber-400 hover:text-white" title="Dismiss">
+                            <i className="fa-solid fa-xmark"></i>
+                        </button>
                     </div>
                 )}
 
-                {subtitles.length > 0 && status === ProcessingStatus.READY && (
+                {subtitles.length > 0 && (status === ProcessingStatus.READY || status === ProcessingStatus.ANALYZING) && (
                     <div className="flex-1 overflow-y-auto bg-zinc-900/30 rounded-xl border border-zinc-800 p-2 scrollbar-thin">
                         {subtitles.map((sub, idx) => (
                             <div key={idx} 
@@ -347,14 +912,38 @@ const App: React.FC = () => {
                                 
                                 <div className="flex justify-between text-[10px] font-mono text-zinc-500 mb-2">
                                     <span>{sub.startTime.toFixed(2)}s</span>
+                                    {lintIssuesByIndex.has(idx) && (
+                                        <i
+                                            title={lintIssuesByIndex.get(idx)!.map(issue => issue.message).join('\n')}
+                                            className={`fa-solid ${lintIssuesByIndex.get(idx)!.some(issue => issue.severity === 'error')
+                                                ? 'fa-circle-exclamation text-red-400'
+                                                : 'fa-triangle-exclamation text-amber-400'}`}
+                                        ></i>
+                                    )}
                                     <span className="text-zinc-700">|</span>
                                     <span>{sub.endTime.toFixed(2)}s</span>
                                 </div>
 
+                                {speakerNames.length > 0 && (
+                                    <select
+                                        value={sub.speaker ?? ''}
+                                        disabled={status !== ProcessingStatus.READY}
+                                        onChange={(e) => handleSpeakerChange(idx, e.target.value)}
+                                        className="mb-1 bg-zinc-900 rounded text-zinc-500 text-[10px] font-bold uppercase tracking-widest focus:outline-none cursor-pointer"
+                                        style={{ color: sub.speaker ? speakers[sub.speaker]?.highlightColor : undefined }}
+                                    >
+                                        <option value="">No speaker</option>
+                                        {speakerNames.map(name => <option key={name} value={name}>{name}</option>)}
+                                    </select>
+                                )}
+
                                 <textarea 
                                     className="w-full bg-transparent resize-none focus:outline-none text-zinc-300 focus:text-white font-bold leading-tight"
                                     rows={2}
                                     value={sub.text}
+                                    data-caption-field
+                                    // Partial segments are replaced as transcription continues
+                                    readOnly={status !== ProcessingStatus.READY}
                                     onChange={(e) => handleSubtitleChange(idx, 'text', e.target.value)}
                                     onClick={() => {
                                         if(videoRef.current) {
@@ -363,6 +952,17 @@ const App: React.FC = () => {
                                         }
                                     }}
                                 />
+                                {sub.translation !== undefined && (
+                                    <textarea
+                                        className="w-full bg-transparent resize-none focus:outline-none text-xs text-zinc-500 focus:text-zinc-200 leading-tight border-t border-zinc-800 pt-1"
+                                        rows={2}
+                                        value={sub.translation}
+                                        placeholder="Translation"
+                                        data-caption-field
+                                        readOnly={status !== ProcessingStatus.READY}
+                                        onChange={(e) => handleSubtitleChange(idx, 'translation', e.target.value)}
+                                    />
+                                )}
                             </div>
                         ))}
                     </div>
@@ -370,21 +970,49 @@ const App: React.FC = () => {
               </div>
             )}
 
-            {status === ProcessingStatus.READY && (
+            {status === ProcessingStatus.READY && videoFile && (
                 <button 
                     onClick={handleExport}
                     className="w-full py-4 bg-brand-accent hover:bg-yellow-400 text-black font-black uppercase tracking-widest rounded-xl transition-all flex items-center justify-center gap-3 shadow-xl shadow-yellow-500/10 shrink-0"
                 >
                     <i className="fa-solid fa-rocket"></i>
-                    Export Master HQ
+                    {exportRange ? `Export Range (${formatTime(exportRange.end - exportRange.start)})` : 'Export Master HQ'}
+                </button>
+            )}
+
+            {status === ProcessingStatus.READY && (
+                <div className="grid grid-cols-4 gap-2 shrink-0">
+                    {(['srt', 'vtt', 'ass', 'json'] as SubtitleFormat[]).map(format => (
+                        <button
+                            key={format}
+                            onClick={() => handleDownloadCaptions(format)}
+                            className="py-2 bg-zinc-800 hover:bg-zinc-700 text-white text-xs font-black uppercase tracking-widest rounded-xl transition-all flex items-center justify-center gap-2"
+                        >
+                            <i className="fa-solid fa-closed-captioning"></i>
+                            .{format}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {status === ProcessingStatus.READY && projectId && videoFile && (
+                <button
+                    onClick={() => downloadProjectBundle(buildProject(projectId, videoFile), videoFile)}
+                    className="w-full py-2 bg-zinc-800 hover:bg-zinc-700 text-white text-xs font-black uppercase tracking-widest rounded-xl transition-all shrink-0"
+                >
+                    <i className="fa-solid fa-box-archive mr-2"></i>
+                    Save Project ({PROJECT_BUNDLE_EXTENSION})
                 </button>
             )}
             
-            {status === ProcessingStatus.ERROR && videoSrc && (
+            {((status === ProcessingStatus.ERROR && videoSrc) || (status === ProcessingStatus.READY && !videoSrc)) && (
                  <button 
                     onClick={() => {
+                        transcriptionAbortRef.current?.abort();
                         setVideoSrc(null);
-                        setSubtitles([]);
+                        setVideoFile(null);
+                        setProjectId(null);
+                        loadSubtitles([]);
                         setStatus(ProcessingStatus.IDLE);
                     }}
                     className="w-full py-3 bg-zinc-800 hover:bg-zinc-700 text-white font-bold rounded-xl transition-all"
@@ -395,72 +1023,112 @@ const App: React.FC = () => {
       </div>
 
       {/* Main Preview */}
-      <div className="flex-1 bg-[#050505] flex flex-col items-center justify-center p-4 relative overflow-hidden">
+      <div className="flex-1 bg-[#050505] flex flex-col items-center justify-center p-4 gap-4 relative overflow-hidden">
         {videoSrc && (
             <div className="absolute inset-0 opacity-10 pointer-events-none blur-[100px] scale-150">
                 <video src={videoSrc} className="w-full h-full object-cover" muted />
             </div>
         )}
 
-        <div className="relative aspect-[9/16] h-full max-h-[90vh] bg-black rounded-3xl shadow-[0_0_100px_rgba(0,0,0,0.5)] overflow-hidden ring-1 ring-zinc-800/50 group">
-            {videoSrc && (
-                <>
-                    <video 
-                        ref={videoRef}
-                        src={videoSrc}
-                        className="w-full h-full object-cover"
-                        onTimeUpdate={handleTimeUpdate}
-                        onLoadedMetadata={handleLoadedMetadata}
-                        onClick={status !== ProcessingStatus.RENDERING ? togglePlay : undefined}
-                        onEnded={() => setIsPlaying(false)}
-                        playsInline
-                        crossOrigin="anonymous" 
-                    />
+        <div className="flex-1 min-h-0 w-full flex items-center justify-center">
+          <div
+              style={{ aspectRatio: getAspectRatio(reframe.aspect) }}
+              className="relative h-full max-h-[90vh] max-w-full bg-black rounded-3xl shadow-[0_0_100px_rgba(0,0,0,0.5)] overflow-hidden ring-1 ring-zinc-800/50 group">
+              {videoSrc && (
+                  <>
+                      <video 
+                          ref={videoRef}
+                          src={videoSrc}
+                          className="w-full h-full object-cover opacity-0"
+                          onTimeUpdate={handleTimeUpdate}
+                          onLoadedMetadata={handleLoadedMetadata}
+                          onClick={status !== ProcessingStatus.RENDERING ? togglePlay : undefined}
+                          onEnded={() => setIsPlaying(false)}
+                          playsInline
+                          crossOrigin="anonymous" 
+                      />
+
+                      <ReframedVideo videoRef={videoRef} settings={reframe} currentTime={currentTime} />
                     
-                    {status !== ProcessingStatus.RENDERING && (
-                         <SubtitleOverlay currentTime={currentTime} subtitles={subtitles} fontSizePx={fontSize} />
-                    )}
-
-                    <canvas ref={canvasRef} className="hidden pointer-events-none" />
-
-                    <div className={`absolute inset-0 bg-black/40 flex flex-col items-center justify-center transition-opacity duration-500 
-                        ${isPlaying || status === ProcessingStatus.RENDERING ? 'opacity-0 group-hover:opacity-100' : 'opacity-100'}
-                        ${status === ProcessingStatus.RENDERING ? 'pointer-events-none' : ''}
-                    `}>
-                        {status !== ProcessingStatus.RENDERING && (
-                            <button 
-                                onClick={togglePlay}
-                                className="w-24 h-24 rounded-full bg-white/5 border border-white/10 backdrop-blur-xl flex items-center justify-center text-white hover:bg-white/10 transition-all transform hover:scale-110 shadow-2xl"
-                            >
-                                <i className={`fa-solid ${isPlaying ? 'fa-pause' : 'fa-play'} text-4xl ml-1`}></i>
-                            </button>
-                        )}
-                        {status === ProcessingStatus.RENDERING && (
-                            <div className="flex flex-col items-center bg-black/80 p-8 rounded-3xl backdrop-blur-2xl border border-white/5">
-                                <div className="w-16 h-16 border-4 border-brand-accent border-t-transparent rounded-full animate-spin mb-6"></div>
-                                <span className="text-xl font-black italic tracking-tighter text-brand-accent mb-2">RUNNADD ENGINE ACTIVE</span>
-                                <span className="text-[10px] text-zinc-500 font-bold tracking-[0.3em] uppercase">Lossless Frame Capture</span>
-                            </div>
-                        )}
-                    </div>
+                      {status !== ProcessingStatus.RENDERING && (
+                           <SubtitleOverlay currentTime={currentTime} subtitles={displaySubtitles} style={subtitleStyle} speakers={speakers} videoRef={videoRef} />
+                      )}
 
-                    <div className="absolute bottom-0 left-0 right-0 h-1.5 bg-zinc-900">
-                        <div 
-                            className="h-full bg-brand-accent transition-all duration-300 relative shadow-[0_0_10px_#EAB308]"
-                            style={{ width: `${(currentTime / duration) * 100}%` }}
-                        >
-                        </div>
-                    </div>
-                </>
-            )}
+                      <canvas ref={canvasRef} className="hidden pointer-events-none" />
 
-            {!videoSrc && (
-                 <div className="flex flex-col items-center justify-center h-full text-zinc-800">
-                    <i className="fa-solid fa-film text-6xl mb-6 opacity-10"></i>
-                    <p className="text-xs font-black uppercase tracking-[0.4em] opacity-20">No Media Loaded</p>
-                 </div>
-            )}
+                      {status !== ProcessingStatus.RENDERING && (
+                          <div className={`absolute inset-0 bg-black/40 flex flex-col items-center justify-center transition-opacity duration-500 
+                              ${isPlaying ? 'opacity-0 group-hover:opacity-100' : 'opacity-100'}
+                          `}>
+                              <button 
+                                  onClick={togglePlay}
+                                  className="w-24 h-24 rounded-full bg-white/5 border border-white/10 backdrop-blur-xl flex items-center justify-center text-white hover:bg-white/10 transition-all transform hover:scale-110 shadow-2xl"
+                              >
+                                  <i className={`fa-solid ${isPlaying ? 'fa-pause' : 'fa-play'} text-4xl ml-1`}></i>
+                              </button>
+                          </div>
+                      )}
+
+                      <div className="absolute bottom-0 left-0 right-0 h-1.5 bg-zinc-900">
+                          <div 
+                              className="h-full bg-brand-accent transition-all duration-300 relative shadow-[0_0_10px_#EAB308]"
+                              style={{ width: `${(currentTime / duration) * 100}%` }}
+                          >
+                          </div>
+                      </div>
+                  </>
+              )}
+
+              {!videoSrc && (
+                   <div className="flex flex-col items-center justify-center h-full text-zinc-800">
+                      <i className={`fa-solid ${subtitles.length > 0 ? 'fa-closed-captioning' : 'fa-film'} text-6xl mb-6 opacity-10`}></i>
+                      <p className="text-xs font-black uppercase tracking-[0.4em] opacity-20">{subtitles.length > 0 ? 'Captions Only' : 'No Media Loaded'}</p>
+                   </div>
+              )}
+
+              {/* Outside the video block, so the overlay export shows its progress without a video too */}
+              {status === ProcessingStatus.RENDERING && (
+                  <div className="absolute inset-0 bg-black/40 flex flex-col items-center justify-center pointer-events-none">
+                      <div className="flex flex-col items-center bg-black/80 p-8 rounded-3xl backdrop-blur-2xl border border-white/5">
+                          <div className="w-16 h-16 border-4 border-brand-accent border-t-transparent rounded-full animate-spin mb-6"></div>
+                          <span className="text-xl font-black italic tracking-tighter text-brand-accent mb-2">RUNNADD ENGINE ACTIVE</span>
+                          <span className="text-[10px] text-zinc-500 font-bold tracking-[0.3em] uppercase">Lossless Frame Capture</span>
+                          {exportJob && (
+                              <div className="w-64 mt-6 space-y-2">
+                                  <div className="h-1.5 bg-zinc-800 rounded-full overflow-hidden">
+                                      <div className="h-full bg-brand-accent transition-all duration-300" style={{ width: `${exportJob.progress * 100}%` }}></div>
+                                  </div>
+                                  <div className="flex justify-between text-[10px] font-mono text-zinc-400">
+                                      <span>{Math.floor(exportJob.progress * 100)}%</span>
+                                      <span>{exportJob.etaSeconds !== undefined ? `ETA ${formatTime(exportJob.etaSeconds)}` : 'Estimating...'}</span>
+                                  </div>
+                              </div>
+                          )}
+                          <button
+                              onClick={handleCancelExport}
+                              className="mt-6 px-6 py-2 bg-zinc-800 hover:bg-red-900/60 text-white text-xs font-black uppercase tracking-widest rounded-xl transition-all pointer-events-auto"
+                          >
+                              <i className="fa-solid fa-xmark mr-2"></i>
+                              Cancel Export
+                          </button>
+                      </div>
+                  </div>
+              )}
+          </div>
         </div>
+
+        {videoSrc && status === ProcessingStatus.READY && duration > 0 && (
+            <Timeline
+                subtitles={subtitles}
+                onChange={(next, edit) => editSubtitles(() => next, edit)}
+                duration={duration}
+                currentTime={currentTime}
+                onSeek={handleSeek}
+                waveform={waveform}
+                exportRange={exportRange}
+                onExportRangeChange={setExportRange}
+            />
+        )}
       </div>
     </div>
   );
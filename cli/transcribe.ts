@@ -0,0 +1,241 @@
+import { readdir, stat, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { SegmentationOptions, SubtitleSegment, TranscriptionProvider, TranscriptionTask } from '../types';
+import { geminiProvider } from '../services/geminiService';
+import { MEDIA_FILE_EXTENSIONS, nodeWhisperProvider, openMediaFile, probeDuration } from '../services/nodeTranscription';
+import { DEFAULT_AUDIO_PREPROCESSING } from '../utils/audioUtils';
+import { DEFAULT_SEGMENTATION_OPTIONS } from '../utils/segmenter';
+import { SubtitleFormat, toJson, toSrt, toVtt } from '../utils/subtitleSerializers';
+
+// Batch transcription without a browser: npm run transcribe -- <files or folders> [options]
+
+const PROVIDERS: TranscriptionProvider[] = [nodeWhisperProvider, geminiProvider];
+const OUTPUT_FORMATS: Partial<Record<SubtitleFormat, (subtitles: SubtitleSegment[]) => string>> = {
+  srt: toSrt,
+  vtt: toVtt,
+  json: toJson,
+};
+
+const USAGE = `Usage: npm run transcribe -- <file or folder>... [options]
+
+Writes caption files next to each input. Folders are searched one level deep for ${MEDIA_FILE_EXTENSIONS.join(' ')} files.
+Audio is decoded with ffmpeg, which must be on the PATH.
+
+Options:
+  --provider <id>          ${PROVIDERS.map(p => p.id).join(' | ')} (default ${nodeWhisperProvider.id})
+  --model <id>             Provider model, e.g. ${nodeWhisperProvider.models!.map(m => m.id).join(', ')}
+  --language <code>        Spoken language (ISO 639-1), detected when omitted
+  --translate              Write English captions from foreign speech
+  --prompt <terms>         Names and jargon to spell correctly (Gemini only)
+  --format <list>          Comma-separated: ${Object.keys(OUTPUT_FORMATS).join(', ')} (default srt)
+  --max-words <n>          Words per caption (default ${DEFAULT_SEGMENTATION_OPTIONS.maxWords})
+  --max-chars <n>          Characters per caption (default ${DEFAULT_SEGMENTATION_OPTIONS.maxChars})
+  --max-duration <s>       Seconds per caption (default ${DEFAULT_SEGMENTATION_OPTIONS.maxDuration})
+  --min-duration <s>       Shortest caption, held into the next gap (default ${DEFAULT_SEGMENTATION_OPTIONS.minDuration})
+  --pause <s>              Silence that always starts a new caption (default ${DEFAULT_SEGMENTATION_OPTIONS.pauseThreshold})
+  --no-punctuation-breaks  Don't start a new caption after . ! ? …
+  --allow-orphans          Allow one-word captions when a limit forces a break
+  --high-pass <hz>         Cut rumble below this frequency (Whisper only)
+  --noise-gate <db>        Silence audio quieter than this dBFS level (Whisper only)
+  --no-normalize           Keep the original loudness (Whisper only)
+  --overwrite              Replace existing caption files
+  -h, --help               Show this help
+
+Set GEMINI_API_KEY (and optionally GEMINI_BASE_URL) to use Gemini.`;
+
+// Mistakes in the command line itself, reported with the usage hint and exit code 2
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+const readNumber = (values: Record<string, unknown>, flag: string, min = 0): number | undefined => {
+  const value = values[flag];
+  if (typeof value !== 'string') return undefined;
+  const number = Number(value);
+  if (!value.trim() || !Number.isFinite(number) || number < min) {
+    throw new UsageError(`--${flag} expects ${min === -Infinity ? 'a number' : `a number of at least ${min}`}, got "${value}".`);
+  }
+  return number;
+};
+
+const parseCommandLine = (argv: string[]) => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      provider: { type: 'string', default: nodeWhisperProvider.id },
+      model: { type: 'string' },
+      language: { type: 'string' },
+      translate: { type: 'boolean', default: false },
+      prompt: { type: 'string' },
+      format: { type: 'string', default: 'srt' },
+      'max-words': { type: 'string' },
+      'max-chars': { type: 'string' },
+      'max-duration': { type: 'string' },
+      'min-duration': { type: 'string' },
+      pause: { type: 'string' },
+      'no-punctuation-breaks': { type: 'boolean', default: false },
+      'allow-orphans': { type: 'boolean', default: false },
+      'high-pass': { type: 'string' },
+      'noise-gate': { type: 'string' },
+      'no-normalize': { type: 'boolean', default: false },
+      overwrite: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  const provider = PROVIDERS.find(p => p.id === values.provider);
+  if (!provider) throw new UsageError(`Unknown provider "${values.provider}". Pick one of: ${PROVIDERS.map(p => p.id).join(', ')}.`);
+  if (values.model && provider.models && !provider.models.some(m => m.id === values.model)) {
+    throw new UsageError(`${provider.label} has no model "${values.model}". Pick one of: ${provider.models.map(m => m.id).join(', ')}.`);
+  }
+
+  const formats = Array.from(new Set<string>(values.format.split(',').map(f => f.trim().toLowerCase()).filter(Boolean)));
+  const unknown = formats.filter(f => !(f in OUTPUT_FORMATS));
+  if (formats.length === 0 || unknown.length > 0) {
+    throw new UsageError(`Unsupported format "${unknown[0] ?? values.format}". Use ${Object.keys(OUTPUT_FORMATS).join(', ')}.`);
+  }
+
+  const segmentation: SegmentationOptions = {
+    maxWords: readNumber(values, 'max-words', 1) ?? DEFAULT_SEGMENTATION_OPTIONS.maxWords,
+    maxChars: readNumber(values, 'max-chars', 1) ?? DEFAULT_SEGMENTATION_OPTIONS.maxChars,
+    maxDuration: readNumber(values, 'max-duration') ?? DEFAULT_SEGMENTATION_OPTIONS.maxDuration,
+    minDuration: readNumber(values, 'min-duration') ?? DEFAULT_SEGMENTATION_OPTIONS.minDuration,
+    pauseThreshold: readNumber(values, 'pause') ?? DEFAULT_SEGMENTATION_OPTIONS.pauseThreshold,
+    breakOnPunctuation: !values['no-punctuation-breaks'],
+    avoidOrphans: !values['allow-orphans'],
+  };
+
+  const task: TranscriptionTask = values.translate ? 'translate' : 'transcribe';
+  if (task === 'translate' && !provider.capabilities.translation) throw new UsageError(`${provider.label} cannot translate.`);
+
+  return {
+    help: values.help,
+    inputs: positionals,
+    provider,
+    formats: formats as SubtitleFormat[],
+    overwrite: values.overwrite,
+    options: {
+      model: values.model,
+      language: values.language?.toLowerCase(),
+      task,
+      prompt: values.prompt,
+      segmentation,
+      audio: {
+        ...DEFAULT_AUDIO_PREPROCESSING,
+        normalize: !values['no-normalize'],
+        highPassHz: readNumber(values, 'high-pass', 1),
+        noiseGateDb: readNumber(values, 'noise-gate', -Infinity),
+      },
+    },
+  };
+};
+
+// Expands folders into the media files directly inside them
+const collectMediaFiles = async (inputs: string[]): Promise<string[]> => {
+  const files: string[] = [];
+  for (const input of inputs) {
+    const info = await stat(input).catch(() => null);
+    if (!info) throw new UsageError(`"${input}" does not exist.`);
+    if (!info.isDirectory()) {
+      files.push(input);
+      continue;
+    }
+    const entries = (await readdir(input, { withFileTypes: true }))
+      .filter(entry => entry.isFile() && MEDIA_FILE_EXTENSIONS.includes(path.extname(entry.name).toLowerCase()))
+      .map(entry => path.join(input, entry.name))
+      .sort();
+    if (entries.length === 0) console.warn(`${input}: no media files found`);
+    files.push(...entries);
+  }
+  return files;
+};
+
+const outputPath = (input: string, format: SubtitleFormat) =>
+  path.join(path.dirname(input), `${path.basename(input, path.extname(input))}.${format}`);
+
+const transcribeFile = async (input: string, command: ReturnType<typeof parseCommandLine>, signal: AbortSignal) => {
+  const { provider, formats, overwrite, options } = command;
+  const targets = formats.map(format => ({ format, file: outputPath(input, format) }));
+  if (!overwrite) {
+    const existing = await Promise.all(targets.map(t => stat(t.file).then(() => t.file, () => null)));
+    const taken = existing.find(Boolean);
+    if (taken) throw new Error(`${taken} already exists. Pass --overwrite to replace it.`);
+  }
+
+  const file = await openMediaFile(input);
+  let lastMessage = '';
+  const result = await provider.transcribe(file, {
+    ...options,
+    duration: await probeDuration(file),
+    signal,
+    onProgress: ({ message }) => {
+      // Model downloads report every few kilobytes; only print when the message changes
+      if (message === lastMessage) return;
+      lastMessage = message;
+      console.log(`  ${message}`);
+    },
+  });
+
+  if (result.segments.length === 0) console.warn(`  No speech found in ${input}`);
+  for (const { format, file: target } of targets) {
+    await writeFile(target, OUTPUT_FORMATS[format]!(result.segments));
+    console.log(`  Wrote ${target}`);
+  }
+  return result;
+};
+
+const main = async (): Promise<number> => {
+  const command = parseCommandLine(process.argv.slice(2));
+  if (command.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (command.inputs.length === 0) throw new UsageError('Pass at least one video, audio file or folder.');
+  const reason = command.provider.unavailableReason();
+  if (reason) throw new UsageError(reason);
+
+  const files = await collectMediaFiles(command.inputs);
+  const controller = new AbortController();
+  // Whisper can't stop mid-file, so a second Ctrl+C falls through to the default handler and quits at once
+  process.once('SIGINT', () => {
+    console.error('Cancelling... press Ctrl+C again to quit now.');
+    controller.abort();
+  });
+
+  // One file at a time: Whisper already uses every core, and Gemini rate limits parallel requests
+  let failures = 0;
+  for (const [index, input] of files.entries()) {
+    console.log(`[${index + 1}/${files.length}] ${input}`);
+    try {
+      const { segments, language } = await transcribeFile(input, command, controller.signal);
+      console.log(`  ${segments.length} captions${language ? ` (${language})` : ''}`);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        console.error('Cancelled.');
+        return 130;
+      }
+      failures++;
+      console.error(`  Failed: ${(error as Error).message || error}`);
+    }
+  }
+  if (failures > 0) console.error(`${failures} of ${files.length} file${files.length === 1 ? '' : 's'} failed.`);
+  return failures > 0 ? 1 : 0;
+};
+
+main().then(
+  code => { process.exitCode = code; },
+  error => {
+    if (error instanceof UsageError || (error as NodeJS.ErrnoException)?.code?.startsWith('ERR_PARSE_ARGS')) {
+      console.error(`${error.message}\nRun with --help for usage.`);
+      process.exitCode = 2;
+    } else {
+      console.error(error);
+      process.exitCode = 1;
+    }
+  }
+);
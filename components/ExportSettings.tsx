@@ -0,0 +1,81 @@
+import React from 'react';
+import { ExportContainer, ExportSettings as ExportSettingsValue } from '../services/videoExporter';
+
+interface ExportSettingsProps {
+  settings: ExportSettingsValue;
+  onChange: (settings: ExportSettingsValue) => void;
+  supported: boolean; // False when the browser lacks WebCodecs and export falls back to real-time capture
+}
+
+const CONTAINERS: { value: ExportContainer; label: string }[] = [
+  { value: 'mp4', label: 'MP4' },
+  { value: 'webm', label: 'WebM' },
+];
+
+const RESOLUTIONS: { value: ExportSettingsValue['maxDimension']; label: string }[] = [
+  { value: 'source', label: 'Source' },
+  { value: 1920, label: '1080p' },
+  { value: 1280, label: '720p' },
+  { value: 960, label: '540p' },
+];
+
+const FRAME_RATES: { value: ExportSettingsValue['fps']; label: string }[] = [
+  { value: 'source', label: 'Source' },
+  { value: 24, label: '24' },
+  { value: 30, label: '30' },
+  { value: 60, label: '60' },
+];
+
+const BITRATES: { value: number; label: string }[] = [
+  { value: 4_000_000, label: '4' },
+  { value: 8_000_000, label: '8' },
+  { value: 16_000_000, label: '16' },
+  { value: 40_000_000, label: '40' },
+];
+
+const OptionRow = <T,>({ label, options, value, onSelect }: {
+  label: string;
+  options: { value: T; label: string }[];
+  value: T;
+  onSelect: (value: T) => void;
+}) => (
+  <div>
+    <label className="text-[10px] text-zinc-500 font-bold uppercase tracking-widest">{label}</label>
+    <div className="grid grid-cols-4 gap-1 mt-1">
+      {options.map(option => (
+        <button
+          key={String(option.value)}
+          onClick={() => onSelect(option.value)}
+          className={`py-1 rounded-lg text-[10px] font-bold transition-all
+            ${option.value === value ? 'bg-brand-accent text-black' : 'bg-zinc-800 text-zinc-300 hover:bg-zinc-700'}`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+const ExportSettings: React.FC<ExportSettingsProps> = ({ settings, onChange, supported }) => {
+  return (
+    <details className="bg-zinc-900/50 p-4 rounded-xl border border-zinc-800 shrink-0">
+      <summary className="text-[10px] text-zinc-400 font-black uppercase tracking-widest cursor-pointer select-none">
+        Export Settings
+      </summary>
+      {supported ? (
+        <div className="space-y-3 mt-3">
+          <OptionRow label="Format" options={CONTAINERS} value={settings.container} onSelect={container => onChange({ ...settings, container })} />
+          <OptionRow label="Resolution" options={RESOLUTIONS} value={settings.maxDimension} onSelect={maxDimension => onChange({ ...settings, maxDimension })} />
+          <OptionRow label="Frame Rate" options={FRAME_RATES} value={settings.fps} onSelect={fps => onChange({ ...settings, fps })} />
+          <OptionRow label="Bitrate (Mbps)" options={BITRATES} value={settings.videoBitrate} onSelect={videoBitrate => onChange({ ...settings, videoBitrate })} />
+        </div>
+      ) : (
+        <p className="text-[10px] text-zinc-500 mt-3">
+          This browser can't encode video directly, so export records the preview in real time at the source settings.
+        </p>
+      )}
+    </details>
+  );
+};
+
+export default ExportSettings;
@@ -0,0 +1,91 @@
+import React, { useMemo, useState } from 'react';
+import { SubtitleSegment } from '../types';
+import { ReplaceOptions, findInSubtitles, replaceInSubtitles } from '../utils/glossary';
+
+interface FindReplacePanelProps {
+  subtitles: SubtitleSegment[];
+  onReplace: (subtitles: SubtitleSegment[], count: number) => void;
+  currentTime: number;
+  onSeek: (time: number) => void;
+}
+
+const inputClass = 'w-full bg-zinc-800 text-xs text-white rounded-lg p-2 focus:outline-none';
+const buttonClass = 'flex-1 py-1.5 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-40 text-white text-[10px] font-black uppercase tracking-widest rounded-lg transition-all';
+
+const OPTIONS: { key: keyof ReplaceOptions; label: string }[] = [
+  { key: 'matchCase', label: 'Match case' },
+  { key: 'wholeWord', label: 'Whole word' },
+  { key: 'regex', label: 'Regex' },
+];
+
+const FindReplacePanel: React.FC<FindReplacePanelProps> = ({ subtitles, onReplace, currentTime, onSeek }) => {
+  const [find, setFind] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [options, setOptions] = useState<ReplaceOptions>({ regex: false, matchCase: false, wholeWord: false });
+  const [message, setMessage] = useState<string | null>(null);
+
+  const search = useMemo(() => {
+    if (!find) return null;
+    try {
+      return findInSubtitles(subtitles, find, options);
+    } catch (e) {
+      return { error: (e as Error).message };
+    }
+  }, [subtitles, find, options]);
+  const matches = search && 'segments' in search ? search : null;
+
+  // Jumps to the first matching caption after the playhead, wrapping around to the start
+  const handleNext = () => {
+    if (!matches || matches.segments.length === 0) return;
+    const next = matches.segments.find(i => subtitles[i].startTime > currentTime + 0.01) ?? matches.segments[0];
+    onSeek(subtitles[next].startTime);
+  };
+
+  const handleReplaceAll = () => {
+    const result = replaceInSubtitles(subtitles, find, replacement, options);
+    if (result.count > 0) onReplace(result.subtitles, result.count);
+    setMessage(`Replaced ${result.count} occurrence${result.count === 1 ? '' : 's'}.`);
+  };
+
+  return (
+    <details className="bg-zinc-900/50 p-4 rounded-xl border border-zinc-800 shrink-0">
+      <summary className="text-[10px] text-zinc-400 font-black uppercase tracking-widest cursor-pointer select-none">
+        Find & Replace
+      </summary>
+      <div className="space-y-2 mt-3">
+        <input value={find} placeholder="Find" onChange={(e) => { setFind(e.target.value); setMessage(null); }} className={inputClass} />
+        <input value={replacement} placeholder="Replace with" onChange={(e) => setReplacement(e.target.value)} className={inputClass} />
+        <div className="flex gap-3">
+          {OPTIONS.map(({ key, label }) => (
+            <label key={key} className="flex items-center gap-1 text-[10px] text-zinc-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={options[key]}
+                onChange={(e) => setOptions({ ...options, [key]: e.target.checked })}
+                className="accent-brand-accent"
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+        {search && 'error' in search && <p className="text-[10px] text-red-400">{search.error}</p>}
+        {matches && (
+          <p className="text-[10px] text-zinc-500">
+            {matches.total} match{matches.total === 1 ? '' : 'es'} in {matches.segments.length} caption{matches.segments.length === 1 ? '' : 's'}
+          </p>
+        )}
+        {message && <p className="text-[10px] text-zinc-400">{message}</p>}
+        <div className="flex gap-2">
+          <button onClick={handleNext} disabled={!matches || matches.total === 0} className={buttonClass}>
+            <i className="fa-solid fa-magnifying-glass mr-1"></i>Next
+          </button>
+          <button onClick={handleReplaceAll} disabled={!matches || matches.total === 0} className={buttonClass}>
+            <i className="fa-solid fa-right-left mr-1"></i>Replace All
+          </button>
+        </div>
+      </div>
+    </details>
+  );
+};
+
+export default FindReplacePanel;
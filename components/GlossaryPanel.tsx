@@ -0,0 +1,102 @@
+import React, { useEffect, useState } from 'react';
+import { Glossary, GlossaryRule } from '../types';
+import { parseGlossaryTerms, validateGlossaryRule } from '../utils/glossary';
+
+interface GlossaryPanelProps {
+  glossary: Glossary;
+  onChange: (glossary: Glossary) => void;
+  onApply?: () => void; // Shown once subtitles exist; new transcriptions get the glossary automatically
+  prompting: boolean;   // Whether the selected transcriber also receives the terms as a hint
+}
+
+const NEW_RULE: GlossaryRule = { find: '', replace: '', regex: false, matchCase: false };
+
+const labelClass = 'text-[10px] text-zinc-500 font-bold uppercase tracking-widest';
+const inputClass = 'w-full bg-zinc-800 text-xs text-white rounded-lg p-2 focus:outline-none';
+
+const GlossaryPanel: React.FC<GlossaryPanelProps> = ({ glossary, onChange, onApply, prompting }) => {
+  // Edited as free text and parsed on blur, so typing a comma doesn't reflow the list mid-word
+  const [termsText, setTermsText] = useState(glossary.terms.join(', '));
+  useEffect(() => setTermsText(glossary.terms.join(', ')), [glossary.terms]);
+
+  const updateRule = (index: number, patch: Partial<GlossaryRule>) =>
+    onChange({ ...glossary, rules: glossary.rules.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)) });
+
+  return (
+    <details className="bg-zinc-900/50 p-4 rounded-xl border border-zinc-800 shrink-0">
+      <summary className="text-[10px] text-zinc-400 font-black uppercase tracking-widest cursor-pointer select-none">
+        Glossary{glossary.terms.length + glossary.rules.length > 0 ? ` · ${glossary.terms.length + glossary.rules.length}` : ''}
+      </summary>
+      <div className="space-y-3 mt-3">
+        <div>
+          <label className={labelClass}>Names & Terms</label>
+          <textarea
+            rows={2}
+            value={termsText}
+            placeholder="Runnadd, Dr. Okafor, LoRA"
+            onChange={(e) => setTermsText(e.target.value)}
+            onBlur={() => onChange({ ...glossary, terms: parseGlossaryTerms(termsText) })}
+            className={`${inputClass} mt-1 resize-none`}
+          />
+          <p className="text-[10px] text-zinc-500 mt-1">
+            {prompting
+              ? 'Sent to the transcriber as spelling hints, and enforced in the captions afterwards.'
+              : 'Their spelling is enforced in the captions after transcription.'}
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <label className={labelClass}>Corrections</label>
+          {glossary.rules.map((rule, index) => {
+            const error = rule.find ? validateGlossaryRule(rule) : null;
+            return (
+              <div key={index} className="space-y-1 p-2 rounded-lg border border-zinc-800">
+                <div className="flex items-center gap-1">
+                  <input value={rule.find} placeholder="Find" onChange={(e) => updateRule(index, { find: e.target.value })} className={inputClass} />
+                  <i className="fa-solid fa-arrow-right text-zinc-600 text-[10px]"></i>
+                  <input value={rule.replace} placeholder="Replace" onChange={(e) => updateRule(index, { replace: e.target.value })} className={inputClass} />
+                  <button
+                    onClick={() => onChange({ ...glossary, rules: glossary.rules.filter((_, i) => i !== index) })}
+                    title="Delete rule"
+                    className="text-zinc-500 hover:text-white px-1"
+                  >
+                    <i className="fa-solid fa-xmark"></i>
+                  </button>
+                </div>
+                <div className="flex gap-3">
+                  <label className="flex items-center gap-1 text-[10px] text-zinc-400 cursor-pointer">
+                    <input type="checkbox" checked={rule.regex} onChange={(e) => updateRule(index, { regex: e.target.checked })} className="accent-brand-accent" />
+                    Regex
+                  </label>
+                  <label className="flex items-center gap-1 text-[10px] text-zinc-400 cursor-pointer">
+                    <input type="checkbox" checked={rule.matchCase} onChange={(e) => updateRule(index, { matchCase: e.target.checked })} className="accent-brand-accent" />
+                    Match case
+                  </label>
+                </div>
+                {error && <p className="text-[10px] text-red-400">{error}</p>}
+              </div>
+            );
+          })}
+          <button
+            onClick={() => onChange({ ...glossary, rules: [...glossary.rules, NEW_RULE] })}
+            className="w-full py-1.5 bg-zinc-800 hover:bg-zinc-700 text-white text-[10px] font-black uppercase tracking-widest rounded-lg transition-all"
+          >
+            <i className="fa-solid fa-plus mr-1"></i>Add Correction
+          </button>
+        </div>
+
+        {onApply && (
+          <button
+            onClick={onApply}
+            className="w-full py-2 bg-zinc-800 hover:bg-zinc-700 text-white text-xs font-black uppercase tracking-widest rounded-xl transition-all"
+          >
+            <i className="fa-solid fa-spell-check mr-2"></i>
+            Apply to Captions
+          </button>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default GlossaryPanel;
@@ -0,0 +1,78 @@
+import React from 'react';
+import { SubtitleSegment } from '../types';
+import { formatTime } from '../utils/fileUtils';
+import { LINT_FIX_FOR_RULE, LINT_FIX_LABELS, LintFix, LintIssue } from '../utils/subtitleLint';
+
+interface LintPanelProps {
+  subtitles: SubtitleSegment[];
+  issues: LintIssue[];
+  onFix: (fix: LintFix | 'all') => void;
+  onSeek: (time: number) => void;
+}
+
+const MAX_LISTED = 6;
+
+const LintPanel: React.FC<LintPanelProps> = ({ subtitles, issues, onFix, onSeek }) => {
+  const errors = issues.filter(i => i.severity === 'error').length;
+  const warnings = issues.length - errors;
+  // Offer only the fixes that would change something
+  const fixes = Array.from(new Set<LintFix>(issues.map(i => LINT_FIX_FOR_RULE[i.rule])));
+
+  if (issues.length === 0) {
+    return (
+      <div className="bg-zinc-900/50 p-4 rounded-xl border border-zinc-800 flex justify-between items-center shrink-0">
+        <label className="text-[10px] text-zinc-400 font-black uppercase tracking-widest">Caption Check</label>
+        <span className="text-xs text-green-400"><i className="fa-solid fa-check mr-1"></i>No issues</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-zinc-900/50 p-4 rounded-xl border border-zinc-800 space-y-2 shrink-0">
+      <div className="flex justify-between items-center">
+        <label className="text-[10px] text-zinc-400 font-black uppercase tracking-widest">Caption Check</label>
+        <span className="text-[10px] font-mono">
+          {errors > 0 && <span className="text-red-400">{errors} error{errors === 1 ? '' : 's'}</span>}
+          {errors > 0 && warnings > 0 && <span className="text-zinc-600"> · </span>}
+          {warnings > 0 && <span className="text-amber-400">{warnings} warning{warnings === 1 ? '' : 's'}</span>}
+        </span>
+      </div>
+
+      {issues.slice(0, MAX_LISTED).map((issue, i) => (
+        <button
+          key={i}
+          onClick={() => onSeek(subtitles[issue.index]?.startTime ?? 0)}
+          className="w-full flex items-center gap-2 text-left text-[10px] text-zinc-300 hover:text-white"
+        >
+          <i className={`fa-solid ${issue.severity === 'error' ? 'fa-circle-exclamation text-red-400' : 'fa-triangle-exclamation text-amber-400'}`}></i>
+          <span className="font-mono text-zinc-500">#{issue.index + 1}</span>
+          <span className="truncate">{issue.message}</span>
+          <span className="ml-auto font-mono text-zinc-600">{formatTime(subtitles[issue.index]?.startTime ?? 0)}</span>
+        </button>
+      ))}
+      {issues.length > MAX_LISTED && <p className="text-[10px] text-zinc-500">…and {issues.length - MAX_LISTED} more</p>}
+
+      <div className="flex flex-wrap gap-1.5 pt-1">
+        {fixes.map(fix => (
+          <button
+            key={fix}
+            onClick={() => onFix(fix)}
+            className="px-2 py-1 rounded-lg bg-zinc-800 hover:bg-zinc-700 text-[10px] font-bold text-white transition-all"
+          >
+            {LINT_FIX_LABELS[fix]}
+          </button>
+        ))}
+        {fixes.length > 1 && (
+          <button
+            onClick={() => onFix('all')}
+            className="px-2 py-1 rounded-lg bg-brand-accent text-black text-[10px] font-bold transition-all"
+          >
+            <i className="fa-solid fa-wand-magic-sparkles mr-1"></i>Fix all
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LintPanel;
@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import { OutputAspect } from '../types';
+import { DEFAULT_OVERLAY_SETTINGS, OverlayFormat, OverlaySettings, isAlphaWebmSupported } from '../services/overlayExporter';
+import { getAspectRatio } from '../utils/reframe';
+
+interface OverlayExportPanelProps {
+  aspect: OutputAspect; // The overlay is framed like the burned-in export, so layouts line up in the other editor
+  onExport: (settings: OverlaySettings) => void;
+}
+
+const FORMATS: { value: OverlayFormat; label: string }[] = [
+  { value: 'webm', label: 'WebM (alpha)' },
+  { value: 'png', label: 'PNG sequence' },
+];
+
+// Short edge of the frame in pixels
+const SIZES: { value: number; label: string }[] = [
+  { value: 720, label: '720p' },
+  { value: 1080, label: '1080p' },
+  { value: 1440, label: '1440p' },
+  { value: 2160, label: '4K' },
+];
+
+const FRAME_RATES = [24, 25, 30, 60];
+
+const even = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+
+const getOverlaySize = (shortEdge: number, aspect: OutputAspect) => {
+  const ratio = getAspectRatio(aspect);
+  return ratio >= 1
+    ? { width: even(shortEdge * ratio), height: shortEdge }
+    : { width: shortEdge, height: even(shortEdge / ratio) };
+};
+
+const optionClass = (active: boolean) =>
+  `py-1 rounded-lg text-[10px] font-bold transition-all ${active ? 'bg-brand-accent text-black' : 'bg-zinc-800 text-zinc-300 hover:bg-zinc-700'}`;
+
+const labelClass = 'text-[10px] text-zinc-500 font-bold uppercase tracking-widest';
+
+const OverlayExportPanel: React.FC<OverlayExportPanelProps> = ({ aspect, onExport }) => {
+  const [format, setFormat] = useState<OverlayFormat>(DEFAULT_OVERLAY_SETTINGS.format);
+  const [shortEdge, setShortEdge] = useState(Math.min(DEFAULT_OVERLAY_SETTINGS.width, DEFAULT_OVERLAY_SETTINGS.height));
+  const [fps, setFps] = useState(DEFAULT_OVERLAY_SETTINGS.fps);
+  const [webmSupported, setWebmSupported] = useState<boolean | null>(null);
+
+  const settings: OverlaySettings = { format, fps, ...getOverlaySize(shortEdge, aspect) };
+
+  // Transparent VP9 depends on the browser's encoder, and on the size
+  useEffect(() => {
+    let cancelled = false;
+    isAlphaWebmSupported(settings).then(supported => { if (!cancelled) setWebmSupported(supported); });
+    return () => { cancelled = true; };
+  }, [settings.width, settings.height, settings.fps]);
+
+  return (
+    <details className="bg-zinc-900/50 p-4 rounded-xl border border-zinc-800 shrink-0">
+      <summary className="text-[10px] text-zinc-400 font-black uppercase tracking-widest cursor-pointer select-none">
+        Caption Overlay
+      </summary>
+      <div className="space-y-3 mt-3">
+        <p className="text-[10px] text-zinc-500">Just the animated captions on a transparent background, for layering in another editor.</p>
+        <div>
+          <label className={labelClass}>Format</label>
+          <div className="grid grid-cols-2 gap-1 mt-1">
+            {FORMATS.map(option => (
+              <button key={option.value} onClick={() => setFormat(option.value)} className={optionClass(format === option.value)}>
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div>
+          <div className="flex justify-between items-center">
+            <label className={labelClass}>Resolution</label>
+            <span className="text-[10px] font-mono text-zinc-400">{settings.width}×{settings.height}</span>
+          </div>
+          <div className="grid grid-cols-4 gap-1 mt-1">
+            {SIZES.map(option => (
+              <button key={option.value} onClick={() => setShortEdge(option.value)} className={optionClass(shortEdge === option.value)}>
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div>
+          <label className={labelClass}>Frame Rate</label>
+          <div className="grid grid-cols-4 gap-1 mt-1">
+            {FRAME_RATES.map(value => (
+              <button key={value} onClick={() => setFps(value)} className={optionClass(fps === value)}>
+                {value}
+              </button>
+            ))}
+          </div>
+        </div>
+        {format === 'webm' && webmSupported === false && (
+          <p className="text-[10px] text-amber-400">This browser can't encode transparent WebM at this size. Export a PNG sequence instead.</p>
+        )}
+        <button
+          onClick={() => onExport(settings)}
+          disabled={format === 'webm' && webmSupported === false}
+          className="w-full py-2 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-40 text-white text-xs font-black uppercase tracking-widest rounded-xl transition-all"
+        >
+          <i className="fa-solid fa-layer-group mr-2"></i>
+          Export Overlay
+        </button>
+      </div>
+    </details>
+  );
+};
+
+export default OverlayExportPanel;
@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react';
+import { ProfanityAudio, ProfanityMask, ProfanitySettings } from '../types';
+import { formatTime } from '../utils/fileUtils';
+import { ProfanityHit, maskToken } from '../utils/profanity';
+import { parseGlossaryTerms } from '../utils/glossary';
+
+interface ProfanityPanelProps {
+  settings: ProfanitySettings;
+  hits: ProfanityHit[];
+  onChange: (settings: ProfanitySettings) => void;
+  onSeek: (time: number) => void;
+}
+
+const MASKS: { value: ProfanityMask; label: string }[] = [
+  { value: 'asterisks', label: '****' },
+  { value: 'first-letter', label: 'f***' },
+  { value: 'emoji', label: '🤬' },
+];
+
+const AUDIO: { value: ProfanityAudio; label: string }[] = [
+  { value: 'none', label: 'Off' },
+  { value: 'mute', label: 'Mute' },
+  { value: 'bleep', label: 'Bleep' },
+];
+
+const labelClass = 'text-[10px] text-zinc-500 font-bold uppercase tracking-widest';
+const optionClass = (active: boolean) =>
+  `py-1 rounded-lg text-[10px] font-bold transition-all ${active ? 'bg-brand-accent text-black' : 'bg-zinc-800 text-zinc-300 hover:bg-zinc-700'}`;
+
+const ProfanityPanel: React.FC<ProfanityPanelProps> = ({ settings, hits, onChange, onSeek }) => {
+  // Parsed on blur, like the glossary terms
+  const [wordsText, setWordsText] = useState(settings.extraWords.join(', '));
+  useEffect(() => setWordsText(settings.extraWords.join(', ')), [settings.extraWords]);
+
+  const flagged = hits.filter(hit => hit.flagged).length;
+
+  const toggleHit = (hit: ProfanityHit) =>
+    onChange({
+      ...settings,
+      allowed: hit.flagged ? [...settings.allowed, hit.id] : settings.allowed.filter(id => id !== hit.id),
+    });
+
+  return (
+    <details className="bg-zinc-900/50 p-4 rounded-xl border border-zinc-800 shrink-0">
+      <summary className="text-[10px] text-zinc-400 font-black uppercase tracking-widest cursor-pointer select-none">
+        Profanity Filter{settings.enabled && flagged > 0 ? ` · ${flagged}` : ''}
+      </summary>
+      <div className="space-y-3 mt-3">
+        <label className="flex items-center gap-2 text-xs text-zinc-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+            className="accent-brand-accent"
+          />
+          Mask swear words in captions
+        </label>
+
+        {settings.enabled && (
+          <>
+            <div>
+              <label className={labelClass}>Mask</label>
+              <div className="grid grid-cols-3 gap-1 mt-1">
+                {MASKS.map(({ value, label }) => (
+                  <button key={value} onClick={() => onChange({ ...settings, mask: value })} className={optionClass(settings.mask === value)}>
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className={labelClass}>Export Audio</label>
+              <div className="grid grid-cols-3 gap-1 mt-1">
+                {AUDIO.map(({ value, label }) => (
+                  <button key={value} onClick={() => onChange({ ...settings, audio: value })} className={optionClass(settings.audio === value)}>
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <label className={labelClass}>Extra Words</label>
+              <textarea
+                rows={2}
+                value={wordsText}
+                placeholder="heck, frick*"
+                onChange={(e) => setWordsText(e.target.value)}
+                onBlur={() => onChange({ ...settings, extraWords: parseGlossaryTerms(wordsText) })}
+                className="w-full bg-zinc-800 text-xs text-white rounded-lg p-2 focus:outline-none mt-1 resize-none"
+              />
+              <p className="text-[10px] text-zinc-500 mt-1">Added to the built-in list. End a word with * to match any ending.</p>
+            </div>
+
+            <div className="space-y-1">
+              <label className={labelClass}>Found ({flagged} of {hits.length} masked)</label>
+              {hits.length === 0 && <p className="text-[10px] text-zinc-500">Nothing found.</p>}
+              <div className="max-h-40 overflow-y-auto space-y-1">
+                {hits.map(hit => (
+                  <div key={hit.id} className="flex items-center gap-2 text-[10px]">
+                    <input
+                      type="checkbox"
+                      checked={hit.flagged}
+                      onChange={() => toggleHit(hit)}
+                      title={hit.flagged ? 'Un-flag this word' : 'Flag this word'}
+                      className="accent-brand-accent"
+                    />
+                    <button onClick={() => onSeek(hit.start)} className="flex-1 flex items-center gap-2 text-left text-zinc-300 hover:text-white">
+                      <span className={hit.flagged ? '' : 'text-zinc-500'}>{hit.text}</span>
+                      {hit.flagged && <span className="text-zinc-600">→ {maskToken(hit.text, settings.mask)}</span>}
+                      <span className="ml-auto font-mono text-zinc-600">{formatTime(hit.start)}</span>
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default ProfanityPanel;
@@ -0,0 +1,147 @@
+import React from 'react';
+import { TranscriptionProvider, TranscriptionSettings } from '../types';
+import { LANGUAGE_NAMES } from '../utils/languages';
+
+const HIGH_PASS_HZ = 80;
+const NOISE_GATE_DB = -50;
+
+interface ProviderPickerProps {
+  providers: TranscriptionProvider[];
+  settings: TranscriptionSettings;
+  onChange: (settings: TranscriptionSettings) => void;
+  disabled?: boolean;
+}
+
+const ProviderPicker: React.FC<ProviderPickerProps> = ({ providers, settings, onChange, disabled }) => {
+  const selected = providers.find(p => p.id === settings.providerId);
+  const selectedModel = selected?.models?.find(m => m.id === (settings.model ?? selected.defaultModel));
+  const englishOnly = selectedModel?.englishOnly ?? false;
+  const languages = selected?.capabilities.languages === 'any'
+    ? Object.keys(LANGUAGE_NAMES)
+    : (selected?.capabilities.languages ?? []).filter(code => code in LANGUAGE_NAMES);
+
+  return (
+    <div className="bg-zinc-900/50 p-4 rounded-xl border border-zinc-800 space-y-2 shrink-0">
+      <label className="text-[10px] text-zinc-400 font-black uppercase tracking-widest">Transcription Engine</label>
+      {providers.map(provider => {
+        const reason = provider.unavailableReason();
+        const isSelected = provider.id === settings.providerId;
+        return (
+          <button
+            key={provider.id}
+            // Model ids are provider-specific, so switching provider falls back to its default
+            onClick={() => onChange({ ...settings, providerId: provider.id, model: undefined })}
+            disabled={disabled || reason !== null}
+            title={reason || provider.description}
+            className={`w-full text-left p-3 rounded-lg border transition-all
+              ${isSelected ? 'border-brand-accent bg-zinc-800/80' : 'border-zinc-800 hover:bg-zinc-800/30'}
+              ${reason ? 'opacity-40 cursor-not-allowed' : ''}`}
+          >
+            <div className="text-xs font-bold text-white">{provider.label}</div>
+            <div className="text-[10px] text-zinc-500 mt-1">{reason || provider.description}</div>
+            <div className="flex gap-1.5 mt-2">
+              {provider.capabilities.wordTimings && (
+                <span className="text-[9px] font-black uppercase tracking-widest text-brand-accent">Word timing</span>
+              )}
+              {provider.capabilities.runsLocally && (
+                <span className="text-[9px] font-black uppercase tracking-widest text-zinc-400">Offline</span>
+              )}
+              <span className="text-[9px] font-black uppercase tracking-widest text-zinc-400">
+                {provider.capabilities.languages === 'any' ? 'Multilingual' : provider.capabilities.languages.join(' / ').toUpperCase()}
+              </span>
+            </div>
+          </button>
+        );
+      })}
+
+      {selected?.models && selected.models.length > 0 && (
+        <div className="pt-2">
+          <label className="text-[10px] text-zinc-500 font-bold uppercase tracking-widest">Model</label>
+          <select
+            value={selectedModel?.id}
+            onChange={(e) => {
+              const model = selected.models!.find(m => m.id === e.target.value);
+              onChange(model?.englishOnly
+                ? { ...settings, model: e.target.value, language: undefined, task: 'transcribe' }
+                : { ...settings, model: e.target.value });
+            }}
+            disabled={disabled}
+            className="w-full mt-1 bg-zinc-800 text-xs text-white rounded-lg p-2 focus:outline-none"
+          >
+            {selected.models.map(model => (
+              <option key={model.id} value={model.id}>{model.label}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {!englishOnly && (
+        <div className="pt-1">
+          <label className="text-[10px] text-zinc-500 font-bold uppercase tracking-widest">Spoken Language</label>
+          <select
+            value={settings.language ?? ''}
+            onChange={(e) => onChange({ ...settings, language: e.target.value || undefined })}
+            disabled={disabled}
+            className="w-full mt-1 bg-zinc-800 text-xs text-white rounded-lg p-2 focus:outline-none"
+          >
+            <option value="">Auto-detect</option>
+            {languages.map(code => (
+              <option key={code} value={code}>{LANGUAGE_NAMES[code]}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {selected?.capabilities.translation && !englishOnly && (
+        <label className="flex items-center gap-2 text-xs text-zinc-300 cursor-pointer pt-1">
+          <input
+            type="checkbox"
+            checked={settings.task === 'translate'}
+            onChange={(e) => onChange({ ...settings, task: e.target.checked ? 'translate' : 'transcribe' })}
+            disabled={disabled}
+            className="accent-brand-accent"
+          />
+          Translate captions to English
+        </label>
+      )}
+
+      {selected?.capabilities.runsLocally && (
+        <div className="pt-2 space-y-1.5">
+          <label className="text-[10px] text-zinc-500 font-bold uppercase tracking-widest">Audio Cleanup</label>
+          <label className="flex items-center gap-2 text-xs text-zinc-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.audio.normalize}
+              onChange={(e) => onChange({ ...settings, audio: { ...settings.audio, normalize: e.target.checked } })}
+              disabled={disabled}
+              className="accent-brand-accent"
+            />
+            Normalize loudness
+          </label>
+          <label className="flex items-center gap-2 text-xs text-zinc-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.audio.highPassHz !== undefined}
+              onChange={(e) => onChange({ ...settings, audio: { ...settings.audio, highPassHz: e.target.checked ? HIGH_PASS_HZ : undefined } })}
+              disabled={disabled}
+              className="accent-brand-accent"
+            />
+            Remove rumble (high-pass {HIGH_PASS_HZ}Hz)
+          </label>
+          <label className="flex items-center gap-2 text-xs text-zinc-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={settings.audio.noiseGateDb !== undefined}
+              onChange={(e) => onChange({ ...settings, audio: { ...settings.audio, noiseGateDb: e.target.checked ? NOISE_GATE_DB : undefined } })}
+              disabled={disabled}
+              className="accent-brand-accent"
+            />
+            Noise gate ({NOISE_GATE_DB}dB)
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProviderPicker;
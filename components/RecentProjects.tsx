@@ -0,0 +1,89 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Project } from '../types';
+import { deleteProject, listProjects } from '../services/projectStore';
+import { formatTime } from '../utils/fileUtils';
+import { PROJECT_BUNDLE_EXTENSION } from '../utils/projectBundle';
+
+interface RecentProjectsProps {
+  onOpen: (id: string) => void;
+  onExport: (id: string) => void;
+  onImport: (file: File) => void;
+}
+
+const MAX_LISTED = 8;
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const RecentProjects: React.FC<RecentProjectsProps> = ({ onOpen, onExport, onImport }) => {
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [unavailable, setUnavailable] = useState(false);
+  const importRef = useRef<HTMLInputElement>(null);
+
+  const refresh = () => {
+    listProjects()
+      .then(setProjects)
+      .catch(e => {
+        // Private browsing modes can refuse IndexedDB; the rest of the app still works
+        console.warn("Runnadd AI: Project storage unavailable", e);
+        setUnavailable(true);
+      });
+  };
+
+  useEffect(refresh, []);
+
+  const handleDelete = async (project: Project) => {
+    if (!window.confirm(`Delete "${project.name}" from this browser?`)) return;
+    await deleteProject(project.id).catch(e => console.warn("Runnadd AI: Could not delete project", e));
+    refresh();
+  };
+
+  return (
+    <div className="bg-zinc-900/50 p-4 rounded-xl border border-zinc-800 space-y-2 shrink-0">
+      <div className="flex justify-between items-center">
+        <label className="text-[10px] text-zinc-400 font-black uppercase tracking-widest">Recent Projects</label>
+        <button
+          onClick={() => importRef.current?.click()}
+          className="text-[10px] font-black uppercase tracking-widest text-zinc-400 hover:text-white"
+        >
+          <i className="fa-solid fa-file-import mr-1"></i>
+          Import {PROJECT_BUNDLE_EXTENSION}
+        </button>
+        <input
+          ref={importRef}
+          type="file"
+          accept={PROJECT_BUNDLE_EXTENSION}
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) onImport(file);
+          }}
+        />
+      </div>
+
+      {unavailable && <p className="text-[10px] text-zinc-500">Browser storage is unavailable, so projects can't be saved here.</p>}
+      {!unavailable && projects.length === 0 && <p className="text-[10px] text-zinc-500">Projects are saved automatically once captions are ready.</p>}
+
+      {projects.slice(0, MAX_LISTED).map(project => (
+        <div key={project.id} className="flex items-center gap-2 p-2 rounded-lg border border-zinc-800 hover:bg-zinc-800/30 group">
+          <button onClick={() => onOpen(project.id)} className="flex-1 min-w-0 text-left">
+            <div className="text-xs font-bold text-white truncate">{project.name}</div>
+            <div className="text-[10px] text-zinc-500 font-mono">
+              {formatDate(project.updatedAt)} · {project.subtitles.length} captions
+              {project.duration ? ` · ${formatTime(project.duration)}` : ''}
+            </div>
+          </button>
+          <button onClick={() => onExport(project.id)} title={`Export ${PROJECT_BUNDLE_EXTENSION}`} className="text-zinc-500 hover:text-white text-xs opacity-0 group-hover:opacity-100">
+            <i className="fa-solid fa-download"></i>
+          </button>
+          <button onClick={() => handleDelete(project)} title="Delete project" className="text-zinc-500 hover:text-red-400 text-xs opacity-0 group-hover:opacity-100">
+            <i className="fa-solid fa-trash"></i>
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default RecentProjects;
@@ -0,0 +1,120 @@
+import React from 'react';
+import { EditDescription, OutputAspect, ReframeMode, ReframeSettings } from '../types';
+import { formatTime } from '../utils/fileUtils';
+import { OUTPUT_ASPECTS, interpolatePan, setPanKeyframe } from '../utils/reframe';
+
+interface ReframePanelProps {
+  settings: ReframeSettings;
+  onChange: (settings: ReframeSettings, edit: EditDescription) => void;
+  currentTime: number;
+  onSeek: (time: number) => void;
+}
+
+const MODES: { value: ReframeMode; label: string }[] = [
+  { value: 'center', label: 'Centre' },
+  { value: 'pan', label: 'Pan' },
+  { value: 'blur', label: 'Blur Fill' },
+];
+
+// Moving a slider this close to an existing keyframe edits it rather than adding one
+const KEYFRAME_TOLERANCE_SECONDS = 0.1;
+
+const labelClass = 'text-[10px] text-zinc-500 font-bold uppercase tracking-widest';
+const rangeClass = 'w-full h-1 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-brand-accent';
+const optionClass = (active: boolean) =>
+  `py-1 rounded-lg text-[10px] font-bold transition-all ${active ? 'bg-brand-accent text-black' : 'bg-zinc-800 text-zinc-300 hover:bg-zinc-700'}`;
+
+const ReframePanel: React.FC<ReframePanelProps> = ({ settings, onChange, currentTime, onSeek }) => {
+  const pan = interpolatePan(settings.keyframes, currentTime);
+
+  const setPan = (axis: 'x' | 'y', value: number) => {
+    const keyframes = setPanKeyframe(settings.keyframes, { ...pan, [axis]: value, time: currentTime }, KEYFRAME_TOLERANCE_SECONDS);
+    onChange({ ...settings, keyframes }, { label: 'Pan crop', mergeKey: `pan:${currentTime}` });
+  };
+
+  return (
+    <details className="bg-zinc-900/50 p-4 rounded-xl border border-zinc-800 shrink-0">
+      <summary className="text-[10px] text-zinc-400 font-black uppercase tracking-widest cursor-pointer select-none">
+        Reframe · {settings.aspect}
+      </summary>
+      <div className="space-y-3 mt-3">
+        <div>
+          <label className={labelClass}>Aspect Ratio</label>
+          <div className="grid grid-cols-4 gap-1 mt-1">
+            {OUTPUT_ASPECTS.map((aspect: OutputAspect) => (
+              <button
+                key={aspect}
+                onClick={() => onChange({ ...settings, aspect }, { label: 'Change aspect ratio' })}
+                className={optionClass(settings.aspect === aspect)}
+              >
+                {aspect}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className={labelClass}>Fill</label>
+          <div className="grid grid-cols-3 gap-1 mt-1">
+            {MODES.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => onChange({ ...settings, mode: value }, { label: 'Change reframe mode' })}
+                className={optionClass(settings.mode === value)}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {settings.mode === 'pan' && (
+          <>
+            {(['x', 'y'] as const).map(axis => (
+              <div key={axis}>
+                <div className="flex justify-between items-center">
+                  <label className={labelClass}>{axis === 'x' ? 'Horizontal' : 'Vertical'}</label>
+                  <span className="text-xs font-mono text-brand-accent">{Math.round(pan[axis] * 100)}%</span>
+                </div>
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.01}
+                  value={pan[axis]}
+                  onChange={(e) => setPan(axis, parseFloat(e.target.value))}
+                  className={rangeClass}
+                />
+              </div>
+            ))}
+            <p className="text-[10px] text-zinc-500">Moving a slider sets a keyframe at the playhead; the crop eases between keyframes.</p>
+
+            {settings.keyframes.length > 0 && (
+              <div className="space-y-1">
+                {settings.keyframes.map((keyframe, index) => (
+                  <div key={index} className="flex items-center gap-2 px-2 py-1 rounded-lg bg-zinc-800/50 text-[10px] font-mono text-zinc-300">
+                    <button onClick={() => onSeek(keyframe.time)} className="flex-1 text-left hover:text-white">
+                      {formatTime(keyframe.time)} · {Math.round(keyframe.x * 100)}%, {Math.round(keyframe.y * 100)}%
+                    </button>
+                    <button
+                      onClick={() => onChange(
+                        { ...settings, keyframes: settings.keyframes.filter((_, i) => i !== index) },
+                        { label: 'Delete pan keyframe' }
+                      )}
+                      title="Delete keyframe"
+                      className="text-zinc-500 hover:text-white"
+                    >
+                      <i className="fa-solid fa-xmark"></i>
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default ReframePanel;
@@ -0,0 +1,81 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ReframeSettings } from '../types';
+import { drawReframedFrame } from '../utils/reframe';
+
+interface ReframedVideoProps {
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  settings: ReframeSettings;
+  currentTime: number;
+}
+
+// Paints the (hidden) video element into the preview frame through the same reframing the export uses
+const ReframedVideo: React.FC<ReframedVideoProps> = ({ videoRef, settings, currentTime }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const drawRef = useRef<() => void>(() => {});
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d', { alpha: false });
+    if (!canvas || !ctx || size.width === 0) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = Math.round(size.width * dpr);
+    canvas.height = Math.round(size.height * dpr);
+
+    drawRef.current = () => {
+      const video = videoRef.current;
+      if (!video || video.readyState < 2) return;
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+      ctx.fillStyle = '#000';
+      ctx.fillRect(0, 0, size.width, size.height);
+      drawReframedFrame(ctx, video, video.videoWidth, video.videoHeight, size, settings, video.currentTime);
+    };
+    drawRef.current();
+  }, [settings, size, currentTime, videoRef]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    let frame = 0;
+    const tick = () => {
+      drawRef.current();
+      frame = requestAnimationFrame(tick);
+    };
+    const start = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(tick);
+    };
+    const redraw = () => drawRef.current();
+    const stop = () => {
+      cancelAnimationFrame(frame);
+      redraw();
+    };
+    video.addEventListener('play', start);
+    video.addEventListener('pause', stop);
+    video.addEventListener('seeked', redraw);
+    video.addEventListener('loadeddata', redraw);
+    if (!video.paused) start();
+    return () => {
+      cancelAnimationFrame(frame);
+      video.removeEventListener('play', start);
+      video.removeEventListener('pause', stop);
+      video.removeEventListener('seeked', redraw);
+      video.removeEventListener('loadeddata', redraw);
+    };
+  }, [videoRef]);
+
+  return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />;
+};
+
+export default ReframedVideo;
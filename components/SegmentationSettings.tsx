@@ -0,0 +1,78 @@
+import React from 'react';
+import { SegmentationOptions } from '../types';
+
+interface SegmentationSettingsProps {
+  options: SegmentationOptions;
+  onChange: (options: SegmentationOptions) => void;
+  onApply?: () => void; // Shown once subtitles exist, to re-segment without transcribing again
+}
+
+type NumericKey = 'maxWords' | 'maxChars' | 'maxDuration' | 'minDuration' | 'pauseThreshold';
+
+const SLIDERS: { key: NumericKey; label: string; min: number; max: number; step: number; unit: string }[] = [
+  { key: 'maxWords', label: 'Max Words', min: 1, max: 12, step: 1, unit: '' },
+  { key: 'maxChars', label: 'Max Characters', min: 10, max: 80, step: 1, unit: '' },
+  { key: 'maxDuration', label: 'Max Duration', min: 1, max: 8, step: 0.5, unit: 's' },
+  { key: 'minDuration', label: 'Min Duration', min: 0, max: 2, step: 0.1, unit: 's' },
+  { key: 'pauseThreshold', label: 'Pause Break', min: 0.2, max: 2, step: 0.1, unit: 's' },
+];
+
+const SegmentationSettings: React.FC<SegmentationSettingsProps> = ({ options, onChange, onApply }) => {
+  return (
+    <details className="bg-zinc-900/50 p-4 rounded-xl border border-zinc-800 shrink-0">
+      <summary className="text-[10px] text-zinc-400 font-black uppercase tracking-widest cursor-pointer select-none">
+        Segmentation
+      </summary>
+      <div className="space-y-3 mt-3">
+        {SLIDERS.map(({ key, label, min, max, step, unit }) => (
+          <div key={key}>
+            <div className="flex justify-between items-center">
+              <label className="text-[10px] text-zinc-500 font-bold uppercase tracking-widest">{label}</label>
+              <span className="text-xs font-mono text-brand-accent">{options[key]}{unit}</span>
+            </div>
+            <input
+              type="range"
+              min={min}
+              max={max}
+              step={step}
+              value={options[key]}
+              onChange={(e) => onChange({ ...options, [key]: parseFloat(e.target.value) })}
+              className="w-full h-1 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-brand-accent"
+            />
+          </div>
+        ))}
+
+        <label className="flex items-center gap-2 text-xs text-zinc-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={options.breakOnPunctuation}
+            onChange={(e) => onChange({ ...options, breakOnPunctuation: e.target.checked })}
+            className="accent-brand-accent"
+          />
+          Break at sentence punctuation
+        </label>
+        <label className="flex items-center gap-2 text-xs text-zinc-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={options.avoidOrphans}
+            onChange={(e) => onChange({ ...options, avoidOrphans: e.target.checked })}
+            className="accent-brand-accent"
+          />
+          Avoid single-word orphans
+        </label>
+
+        {onApply && (
+          <button
+            onClick={onApply}
+            className="w-full py-2 bg-zinc-800 hover:bg-zinc-700 text-white text-xs font-black uppercase tracking-widest rounded-xl transition-all"
+          >
+            <i className="fa-solid fa-scissors mr-2"></i>
+            Re-segment Captions
+          </button>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default SegmentationSettings;
@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { EditDescription, SpeakerStyle, SpeakerStyles, SubtitleSegment } from '../types';
+import { MAX_SPEAKERS, defaultSpeakerStyle, listSpeakers, renameSpeaker, speakerName } from '../utils/speakers';
+
+interface SpeakersPanelProps {
+  subtitles: SubtitleSegment[];
+  speakers: SpeakerStyles;
+  onChange: (next: { subtitles: SubtitleSegment[]; speakers: SpeakerStyles }, edit: EditDescription) => void;
+  onDetect: (count: number | 'auto') => Promise<void>;
+}
+
+const COUNTS: (number | 'auto')[] = ['auto', 2, 3, 4];
+
+const labelClass = 'text-[10px] text-zinc-500 font-bold uppercase tracking-widest';
+const rangeClass = 'w-full h-1 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-brand-accent';
+
+const SpeakersPanel: React.FC<SpeakersPanelProps> = ({ subtitles, speakers, onChange, onDetect }) => {
+  const [count, setCount] = useState<number | 'auto'>('auto');
+  const [detecting, setDetecting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  // Names are committed on blur, so a half-typed name never merges two speakers
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+
+  const names = listSpeakers(subtitles, speakers);
+  const styleOf = (name: string): SpeakerStyle => speakers[name] ?? defaultSpeakerStyle(names.indexOf(name));
+
+  const updateStyle = (name: string, patch: Partial<SpeakerStyle>) =>
+    onChange(
+      { subtitles, speakers: { ...speakers, [name]: { ...styleOf(name), ...patch } } },
+      { label: 'Change speaker style', mergeKey: `speaker:${name}` }
+    );
+
+  const commitName = (name: string) => {
+    const next = drafts[name]?.trim();
+    setDrafts(({ [name]: _, ...rest }) => rest);
+    if (!next || next === name) return;
+    onChange(renameSpeaker(subtitles, speakers, name, next), { label: `Rename ${name}` });
+  };
+
+  const handleAdd = () => {
+    let index = names.length;
+    while (names.includes(speakerName(index))) index++;
+    onChange({ subtitles, speakers: { ...speakers, [speakerName(index)]: defaultSpeakerStyle(names.length) } }, { label: 'Add speaker' });
+  };
+
+  const handleRemove = (name: string) => {
+    const { [name]: _, ...rest } = speakers;
+    onChange(
+      { subtitles: subtitles.map(({ speaker, ...s }) => (speaker === name ? s : { ...s, speaker })), speakers: rest },
+      { label: `Remove ${name}` }
+    );
+  };
+
+  const handleDetect = async () => {
+    setDetecting(true);
+    setMessage(null);
+    try {
+      await onDetect(count);
+    } catch (e) {
+      setMessage((e as Error).message || 'Speaker detection failed.');
+    } finally {
+      setDetecting(false);
+    }
+  };
+
+  return (
+    <details className="bg-zinc-900/50 p-4 rounded-xl border border-zinc-800 shrink-0">
+      <summary className="text-[10px] text-zinc-400 font-black uppercase tracking-widest cursor-pointer select-none">
+        Speakers{names.length > 0 ? ` · ${names.length}` : ''}
+      </summary>
+      <div className="space-y-3 mt-3">
+        <div>
+          <label className={labelClass}>Voices</label>
+          <div className="grid grid-cols-4 gap-1 mt-1">
+            {COUNTS.map(value => (
+              <button
+                key={value}
+                onClick={() => setCount(value)}
+                className={`py-1 rounded-lg text-[10px] font-bold transition-all ${count === value ? 'bg-brand-accent text-black' : 'bg-zinc-800 text-zinc-300 hover:bg-zinc-700'}`}
+              >
+                {value === 'auto' ? 'Auto' : value}
+              </button>
+            ))}
+          </div>
+        </div>
+        <button
+          onClick={handleDetect}
+          disabled={detecting || subtitles.length === 0}
+          className="w-full py-2 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-40 text-white text-xs font-black uppercase tracking-widest rounded-xl transition-all"
+        >
+          <i className={`fa-solid ${detecting ? 'fa-spinner fa-spin' : 'fa-users'} mr-2`}></i>
+          {detecting ? 'Listening...' : 'Detect Speakers'}
+        </button>
+        {message && <p className="text-[10px] text-red-400">{message}</p>}
+
+        {names.map(name => {
+          const style = styleOf(name);
+          const lines = subtitles.filter(s => s.speaker === name).length;
+          return (
+            <div key={name} className="space-y-2 p-2 rounded-lg border border-zinc-800">
+              <div className="flex items-center gap-2">
+                <input
+                  type="color"
+                  value={style.highlightColor}
+                  onChange={(e) => updateStyle(name, { highlightColor: e.target.value.toUpperCase() })}
+                  title="Highlight colour"
+                  className="w-6 h-6 rounded bg-transparent cursor-pointer shrink-0"
+                />
+                <input
+                  value={drafts[name] ?? name}
+                  onChange={(e) => setDrafts({ ...drafts, [name]: e.target.value })}
+                  onBlur={() => commitName(name)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+                  className="flex-1 min-w-0 bg-zinc-800 text-xs text-white rounded-lg p-1.5 focus:outline-none"
+                />
+                <span className="text-[10px] font-mono text-zinc-500 shrink-0">{lines}</span>
+                <button onClick={() => handleRemove(name)} title="Remove speaker" className="text-zinc-500 hover:text-white px-1">
+                  <i className="fa-solid fa-xmark"></i>
+                </button>
+              </div>
+              <label className="flex items-center gap-2 text-[10px] text-zinc-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={style.positionY !== null}
+                  onChange={(e) => updateStyle(name, { positionY: e.target.checked ? 0.8 : null })}
+                  className="accent-brand-accent"
+                />
+                Own position
+              </label>
+              {style.positionY !== null && (
+                <input
+                  type="range"
+                  min={0.1}
+                  max={0.95}
+                  step={0.01}
+                  value={style.positionY}
+                  onChange={(e) => updateStyle(name, { positionY: parseFloat(e.target.value) })}
+                  className={rangeClass}
+                />
+              )}
+            </div>
+          );
+        })}
+
+        {names.length < MAX_SPEAKERS && (
+          <button
+            onClick={handleAdd}
+            className="w-full py-1.5 bg-zinc-800 hover:bg-zinc-700 text-white text-[10px] font-black uppercase tracking-widest rounded-lg transition-all"
+          >
+            <i className="fa-solid fa-plus mr-1"></i>Add Speaker
+          </button>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default SpeakersPanel;
@@ -0,0 +1,378 @@
+import React, { useRef, useState } from 'react';
+import { CaptionAnchor, SegmentTransition, StylePreset, SubtitleStyle, TextCase, WordAnimation } from '../types';
+import { downloadBlob } from '../utils/fileUtils';
+import { GOOGLE_FONTS, listCustomFonts, loadCustomFont } from '../utils/fontLoader';
+import { BUILT_IN_PRESETS, loadUserPresets, parsePresetJson, presetToJson, saveUserPresets } from '../utils/stylePresets';
+
+interface StylePanelProps {
+  style: SubtitleStyle;
+  onChange: (style: SubtitleStyle) => void;
+}
+
+type SliderKey = 'fontSize' | 'strokeWidth' | 'shadowBlur' | 'shadowOffsetY' | 'maxLines';
+
+const SLIDERS: { key: SliderKey; label: string; min: number; max: number; step: number; format: (v: number) => string }[] = [
+  { key: 'fontSize', label: 'Font Size', min: 16, max: 60, step: 1, format: v => `${v}px` },
+  { key: 'strokeWidth', label: 'Outline', min: 0, max: 0.2, step: 0.01, format: v => `${Math.round(v * 100)}%` },
+  { key: 'shadowBlur', label: 'Shadow Blur', min: 0, max: 24, step: 1, format: v => `${v}px` },
+  { key: 'shadowOffsetY', label: 'Shadow Offset', min: -8, max: 8, step: 1, format: v => `${v}px` },
+  { key: 'maxLines', label: 'Max Lines', min: 1, max: 4, step: 1, format: v => `${v}` },
+];
+
+const TEXT_CASES: { value: TextCase; label: string }[] = [
+  { value: 'none', label: 'As Typed' },
+  { value: 'upper', label: 'UPPER' },
+  { value: 'lower', label: 'lower' },
+  { value: 'title', label: 'Title' },
+];
+
+const ANCHORS: { value: CaptionAnchor; label: string }[] = [
+  { value: 'safe-top', label: 'Top' },
+  { value: 'safe-middle', label: 'Middle' },
+  { value: 'safe-bottom', label: 'Bottom' },
+  { value: 'custom', label: 'Custom' },
+];
+
+const WORD_ANIMATIONS: { value: WordAnimation; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'pop', label: 'Pop' },
+  { value: 'bounce', label: 'Bounce' },
+  { value: 'karaoke', label: 'Karaoke' },
+  { value: 'typewriter', label: 'Type' },
+];
+
+const TRANSITIONS: { value: SegmentTransition; label: string }[] = [
+  { value: 'none', label: 'Cut' },
+  { value: 'fade', label: 'Fade' },
+  { value: 'slide', label: 'Slide' },
+];
+
+const COLOURS: { key: 'fillColor' | 'highlightColor' | 'strokeColor' | 'shadowColor'; label: string }[] = [
+  { key: 'fillColor', label: 'Text' },
+  { key: 'highlightColor', label: 'Active' },
+  { key: 'strokeColor', label: 'Outline' },
+  { key: 'shadowColor', label: 'Shadow' },
+];
+
+const labelClass = 'text-[10px] text-zinc-500 font-bold uppercase tracking-widest';
+const selectClass = 'w-full mt-1 bg-zinc-800 text-xs text-white rounded-lg p-2 focus:outline-none';
+const rangeClass = 'w-full h-1 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-brand-accent';
+
+const StylePanel: React.FC<StylePanelProps> = ({ style, onChange }) => {
+  const [userPresets, setUserPresets] = useState<StylePreset[]>(loadUserPresets);
+  const [customFonts, setCustomFonts] = useState<string[]>(listCustomFonts);
+  const [presetName, setPresetName] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fontInputRef = useRef<HTMLInputElement>(null);
+  const presetInputRef = useRef<HTMLInputElement>(null);
+
+  const update = (changes: Partial<SubtitleStyle>) => onChange({ ...style, ...changes });
+
+  const storePresets = (presets: StylePreset[]) => {
+    setUserPresets(presets);
+    try {
+      saveUserPresets(presets);
+    } catch (e) {
+      setError(`Could not save presets: ${(e as Error).message}`);
+    }
+  };
+
+  const handleSavePreset = () => {
+    const name = presetName?.trim();
+    if (!name) return;
+    storePresets([...userPresets, { id: `user-${Date.now()}`, name, style }]);
+    setPresetName(null);
+  };
+
+  const handleFontUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const family = await loadCustomFont(file);
+      setCustomFonts(listCustomFonts());
+      update({ fontFamily: family });
+      setError(null);
+    } catch (err) {
+      setError(`Could not load ${file.name}: ${(err as Error).message}`);
+    }
+  };
+
+  const handlePresetImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parsePresetJson(await file.text());
+      storePresets([...userPresets, imported]);
+      onChange(imported.style);
+      setError(null);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handlePresetExport = () => {
+    const name = window.prompt('Preset name', 'My Style');
+    if (!name) return;
+    const json = presetToJson({ id: 'export', name, style });
+    downloadBlob(new Blob([json], { type: 'application/json' }), `${name.replace(/[^\w-]+/g, '_')}.caption-style.json`);
+  };
+
+  const weights = GOOGLE_FONTS[style.fontFamily] ?? [400, 700, 900];
+
+  return (
+    <details className="bg-zinc-900/50 p-4 rounded-xl border border-zinc-800 shrink-0">
+      <summary className="text-[10px] text-zinc-400 font-black uppercase tracking-widest cursor-pointer select-none">
+        Caption Style
+      </summary>
+      <div className="space-y-3 mt-3">
+        <div className="flex flex-wrap gap-1.5">
+          {[...BUILT_IN_PRESETS, ...userPresets].map(preset => (
+            <span
+              key={preset.id}
+              className="flex items-center gap-1 px-2 py-1 rounded-lg bg-zinc-800 hover:bg-zinc-700 text-[10px] font-bold text-white transition-all"
+            >
+              <button onClick={() => onChange(preset.style)} style={{ color: preset.style.highlightColor }}>
+                {preset.name}
+              </button>
+              {!preset.builtIn && (
+                <button
+                  onClick={() => storePresets(userPresets.filter(p => p.id !== preset.id))}
+                  title="Delete preset"
+                  className="text-zinc-500 hover:text-white"
+                >
+                  <i className="fa-solid fa-xmark"></i>
+                </button>
+              )}
+            </span>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className={labelClass}>Font</label>
+            <select
+              value={style.fontFamily}
+              onChange={(e) => {
+                const family = e.target.value;
+                const available = GOOGLE_FONTS[family];
+                // Keep the weight when the new family has it, otherwise take its heaviest
+                update(available && !available.includes(style.fontWeight)
+                  ? { fontFamily: family, fontWeight: available[available.length - 1] }
+                  : { fontFamily: family });
+              }}
+              className={selectClass}
+            >
+              {[...Object.keys(GOOGLE_FONTS), ...customFonts].map(family => (
+                <option key={family} value={family}>{family}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Weight</label>
+            <select
+              value={style.fontWeight}
+              onChange={(e) => update({ fontWeight: parseInt(e.target.value) })}
+              className={selectClass}
+            >
+              {weights.map(weight => (
+                <option key={weight} value={weight}>{weight}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <button
+          onClick={() => fontInputRef.current?.click()}
+          className="text-[10px] font-black uppercase tracking-widest text-zinc-400 hover:text-white"
+        >
+          <i className="fa-solid fa-font mr-1"></i>
+          Upload font (.ttf, .otf, .woff)
+        </button>
+        <input ref={fontInputRef} type="file" accept=".ttf,.otf,.woff,.woff2" className="hidden" onChange={handleFontUpload} />
+
+        <div>
+          <label className={labelClass}>Case</label>
+          <div className="grid grid-cols-4 gap-1 mt-1">
+            {TEXT_CASES.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => update({ textCase: value })}
+                className={`py-1 rounded-lg text-[10px] font-bold transition-all
+                  ${style.textCase === value ? 'bg-brand-accent text-black' : 'bg-zinc-800 text-zinc-300 hover:bg-zinc-700'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className={labelClass}>Word Animation</label>
+          <div className="grid grid-cols-5 gap-1 mt-1">
+            {WORD_ANIMATIONS.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => update({ wordAnimation: value })}
+                className={`py-1 rounded-lg text-[10px] font-bold transition-all
+                  ${style.wordAnimation === value ? 'bg-brand-accent text-black' : 'bg-zinc-800 text-zinc-300 hover:bg-zinc-700'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <label className={labelClass}>Caption Transition</label>
+          <div className="grid grid-cols-3 gap-1 mt-1">
+            {TRANSITIONS.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => update({ segmentTransition: value })}
+                className={`py-1 rounded-lg text-[10px] font-bold transition-all
+                  ${style.segmentTransition === value ? 'bg-brand-accent text-black' : 'bg-zinc-800 text-zinc-300 hover:bg-zinc-700'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-4 gap-2">
+          {COLOURS.map(({ key, label }) => (
+            <label key={key} className="flex flex-col items-center gap-1 cursor-pointer">
+              <input
+                type="color"
+                value={style[key]}
+                onChange={(e) => update({ [key]: e.target.value.toUpperCase() })}
+                className="w-8 h-8 rounded-lg bg-transparent cursor-pointer"
+              />
+              <span className={labelClass}>{label}</span>
+            </label>
+          ))}
+        </div>
+
+        {SLIDERS.map(({ key, label, min, max, step, format }) => (
+          <div key={key}>
+            <div className="flex justify-between items-center">
+              <label className={labelClass}>{label}</label>
+              <span className="text-xs font-mono text-brand-accent">{format(style[key])}</span>
+            </div>
+            <input
+              type="range"
+              min={min}
+              max={max}
+              step={step}
+              value={style[key]}
+              onChange={(e) => update({ [key]: parseFloat(e.target.value) })}
+              className={rangeClass}
+            />
+          </div>
+        ))}
+
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-xs text-zinc-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={style.boxColor !== null}
+              onChange={(e) => update({ boxColor: e.target.checked ? '#000000' : null })}
+              className="accent-brand-accent"
+            />
+            Background pill
+          </label>
+          {style.boxColor !== null && (
+            <div className="flex items-center gap-3">
+              <input
+                type="color"
+                value={style.boxColor}
+                onChange={(e) => update({ boxColor: e.target.value.toUpperCase() })}
+                className="w-8 h-8 rounded-lg bg-transparent cursor-pointer"
+              />
+              <input
+                type="range"
+                min={0.1}
+                max={1}
+                step={0.05}
+                value={style.boxOpacity}
+                onChange={(e) => update({ boxOpacity: parseFloat(e.target.value) })}
+                className={rangeClass}
+              />
+              <span className="text-xs font-mono text-brand-accent">{Math.round(style.boxOpacity * 100)}%</span>
+            </div>
+          )}
+        </div>
+
+        <div>
+          <label className={labelClass}>Position</label>
+          <div className="grid grid-cols-4 gap-1 mt-1">
+            {ANCHORS.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => update({ anchor: value })}
+                className={`py-1 rounded-lg text-[10px] font-bold transition-all
+                  ${style.anchor === value ? 'bg-brand-accent text-black' : 'bg-zinc-800 text-zinc-300 hover:bg-zinc-700'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {style.anchor === 'custom' && (
+            <input
+              type="range"
+              min={0.1}
+              max={0.95}
+              step={0.01}
+              value={style.positionY}
+              onChange={(e) => update({ positionY: parseFloat(e.target.value) })}
+              className={`${rangeClass} mt-2`}
+            />
+          )}
+        </div>
+
+        {presetName !== null ? (
+          <div className="flex gap-2">
+            <input
+              autoFocus
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSavePreset()}
+              placeholder="Preset name"
+              className="flex-1 bg-zinc-800 text-xs text-white rounded-lg p-2 focus:outline-none"
+            />
+            <button onClick={handleSavePreset} className="px-3 bg-brand-accent text-black text-[10px] font-black uppercase rounded-lg">
+              Save
+            </button>
+          </div>
+        ) : (
+          <div className="grid grid-cols-3 gap-2">
+            <button
+              onClick={() => setPresetName('')}
+              className="py-2 bg-zinc-800 hover:bg-zinc-700 text-white text-[10px] font-black uppercase tracking-widest rounded-xl transition-all"
+            >
+              Save
+            </button>
+            <button
+              onClick={() => presetInputRef.current?.click()}
+              className="py-2 bg-zinc-800 hover:bg-zinc-700 text-white text-[10px] font-black uppercase tracking-widest rounded-xl transition-all"
+            >
+              Import
+            </button>
+            <button
+              onClick={handlePresetExport}
+              className="py-2 bg-zinc-800 hover:bg-zinc-700 text-white text-[10px] font-black uppercase tracking-widest rounded-xl transition-all"
+            >
+              Export
+            </button>
+          </div>
+        )}
+        <input ref={presetInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handlePresetImport} />
+
+        {error && <div className="text-[10px] text-red-300">{error}</div>}
+      </div>
+    </details>
+  );
+};
+
+export default StylePanel;
@@ -1,65 +1,90 @@
-import React, { useMemo } from 'react';
-import { SubtitleSegment } from '../types';
+import React, { useEffect, useRef, useState } from 'react';
+import { SpeakerStyles, SubtitleSegment, SubtitleStyle } from '../types';
+import { renderCaptionFrame } from '../utils/captionRenderer';
 
 interface SubtitleOverlayProps {
   currentTime: number;
   subtitles: SubtitleSegment[];
-  fontSizePx: number;
+  style: SubtitleStyle;
+  speakers?: SpeakerStyles;
+  // While this video plays, frames are drawn from its clock; timeupdate fires too rarely for animations
+  videoRef?: React.RefObject<HTMLVideoElement | null>;
 }
 
-const SubtitleOverlay: React.FC<SubtitleOverlayProps> = ({ currentTime, subtitles, fontSizePx }) => {
-  const activeSegment = useMemo(() => {
-    return subtitles.find(s => currentTime >= s.startTime && currentTime <= s.endTime);
-  }, [currentTime, subtitles]);
+// Draws captions on a canvas through the same renderer the export uses, so the preview is what gets exported
+const SubtitleOverlay: React.FC<SubtitleOverlayProps> = ({ currentTime, subtitles, style, speakers, videoRef }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [fontsLoaded, setFontsLoaded] = useState(0);
+  const drawRef = useRef<(time: number) => void>(() => {});
 
-  if (!activeSegment) return null;
+  // Web fonts arrive after the first paint; redraw once they do so measurements are right
+  useEffect(() => {
+    const handleLoaded = () => setFontsLoaded(n => n + 1);
+    document.fonts.ready.then(handleLoaded);
+    document.fonts.addEventListener('loadingdone', handleLoaded);
+    return () => document.fonts.removeEventListener('loadingdone', handleLoaded);
+  }, []);
 
-  const words = activeSegment.words ? activeSegment.words.map(w => w.text) : activeSegment.text.split(' ');
-  
-  // Calculate highlighted index
-  let highlightedIndex = -1;
-  
-  if (activeSegment.words) {
-      // Precise word-level highlighting
-      // Highlight words that have started
-      // We check if currentTime is greater than the start of the word. 
-      // To make it feel "fast" and responsive, we can even highlight as soon as it starts.
-      highlightedIndex = activeSegment.words.filter(w => currentTime >= w.start).length - 1;
-  } else {
-      // Fallback: Linear interpolation
-      const duration = activeSegment.endTime - activeSegment.startTime;
-      const progress = Math.max(0, Math.min(1, (currentTime - activeSegment.startTime) / duration));
-      highlightedIndex = Math.floor(progress * words.length);
-  }
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
 
-  return (
-    <div className="absolute inset-0 pointer-events-none flex flex-col items-center justify-end">
-        {/* Position container at approx 20% from bottom to match Canvas export */}
-        <div style={{ paddingBottom: '20%' }} className="w-full px-4 text-center">
-            <div className="inline-block px-2 py-1">
-                {words.map((word, index) => (
-                    <span 
-                        key={index} 
-                        className={`
-                            font-black uppercase tracking-wide mx-1 inline-block
-                            transition-colors duration-75
-                            ${index <= highlightedIndex ? 'text-brand-accent' : 'text-white'}
-                        `}
-                        style={{
-                           fontSize: `${fontSizePx}px`,
-                           lineHeight: '1.2',
-                           // Match Canvas stroke style
-                           WebkitTextStroke: `${Math.max(2, fontSizePx * 0.08)}px black`,
-                           paintOrder: 'stroke fill'
-                        }}
-                    >
-                        {word}
-                    </span>
-                ))}
-            </div>
-        </div>
-    </div>
-  );
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || size.width === 0) return;
+
+    // Back the canvas with device pixels but lay out in CSS pixels
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = Math.round(size.width * dpr);
+    canvas.height = Math.round(size.height * dpr);
+
+    drawRef.current = (time: number) => {
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+      ctx.clearRect(0, 0, size.width, size.height);
+      renderCaptionFrame(ctx, subtitles, time, style, size, speakers);
+    };
+    const video = videoRef?.current;
+    drawRef.current(video && !video.paused ? video.currentTime : currentTime);
+  }, [currentTime, subtitles, style, speakers, size, fontsLoaded, videoRef]);
+
+  useEffect(() => {
+    const video = videoRef?.current;
+    if (!video) return;
+    let frame = 0;
+    const tick = () => {
+      drawRef.current(video.currentTime);
+      frame = requestAnimationFrame(tick);
+    };
+    const start = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(tick);
+    };
+    const redraw = () => drawRef.current(video.currentTime);
+    const stop = () => {
+      cancelAnimationFrame(frame);
+      redraw();
+    };
+    video.addEventListener('play', start);
+    video.addEventListener('pause', stop);
+    video.addEventListener('seeked', redraw);
+    if (!video.paused) start();
+    return () => {
+      cancelAnimationFrame(frame);
+      video.removeEventListener('play', start);
+      video.removeEventListener('pause', stop);
+      video.removeEventListener('seeked', redraw);
+    };
+  }, [videoRef]);
+
+  return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />;
 };
 
-export default SubtitleOverlay;
\ No newline at end of file
+export default SubtitleOverlay;
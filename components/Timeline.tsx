@@ -0,0 +1,394 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { EditDescription, SubtitleSegment } from '../types';
+import { formatTime } from '../utils/fileUtils';
+import { TimeRange, Waveform } from '../utils/waveform';
+import {
+  SegmentEdge,
+  deleteSegment,
+  findSegmentAt,
+  insertSegment,
+  mergeSegments,
+  moveSegment,
+  nudgeWord,
+  resizeSegment,
+  snapTime,
+  splitSegment,
+} from '../utils/segmentEditing';
+
+interface TimelineProps {
+  subtitles: SubtitleSegment[];
+  onChange: (subtitles: SubtitleSegment[], edit: EditDescription) => void;
+  duration: number;
+  currentTime: number;
+  onSeek: (time: number) => void;
+  waveform: Waveform | null;
+  exportRange?: TimeRange | null;                          // In/out markers for exporting part of the video
+  onExportRangeChange?: (range: TimeRange | null) => void;
+  disabled?: boolean;
+}
+
+type DragMode = 'move' | SegmentEdge | 'word';
+
+interface DragState {
+  mode: DragMode;
+  index: number;
+  wordIndex: number;
+  originX: number;
+  originTime: number;      // Time under the pointer when the drag started
+  originStart: number;     // Segment start when the drag started, for 'move'
+  snapTargets: number[];
+  moved: boolean;
+  edit: EditDescription;   // Every pointer move of one drag shares a mergeKey, so it undoes in one step
+}
+
+const MIN_ZOOM = 10;       // Pixels per second
+const MAX_ZOOM = 800;
+const SNAP_PIXELS = 8;
+const DRAG_THRESHOLD_PIXELS = 3;
+const TRACK_HEIGHT = 96;
+
+const DRAG_LABELS: Record<DragMode, string> = {
+  move: 'Move caption',
+  start: 'Change caption start',
+  end: 'Change caption end',
+  word: 'Move word timing',
+};
+
+// Ruler spacing that keeps labels roughly 80px apart
+const RULER_STEPS = [0.1, 0.25, 0.5, 1, 2, 5, 10, 15, 30, 60, 120, 300];
+
+const Timeline: React.FC<TimelineProps> = ({
+  subtitles,
+  onChange,
+  duration,
+  currentTime,
+  onSeek,
+  waveform,
+  exportRange,
+  onExportRangeChange,
+  disabled,
+}) => {
+  const [zoom, setZoom] = useState(80);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [snapToWords, setSnapToWords] = useState(true);
+  const [snapToSilence, setSnapToSilence] = useState(false);
+  const [viewport, setViewport] = useState({ scrollLeft: 0, width: 0 });
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const trackRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  const totalWidth = Math.max(1, duration * zoom);
+  const selected = selectedIndex !== null && selectedIndex < subtitles.length ? selectedIndex : null;
+
+  useEffect(() => {
+    const scroller = scrollRef.current;
+    if (!scroller) return;
+    const update = () => setViewport({ scrollLeft: scroller.scrollLeft, width: scroller.clientWidth });
+    const observer = new ResizeObserver(update);
+    observer.observe(scroller);
+    scroller.addEventListener('scroll', update);
+    update();
+    return () => {
+      observer.disconnect();
+      scroller.removeEventListener('scroll', update);
+    };
+  }, []);
+
+  // Keep the playhead in view during playback, unless the user is dragging something
+  useEffect(() => {
+    const scroller = scrollRef.current;
+    if (!scroller || dragRef.current) return;
+    const x = currentTime * zoom;
+    if (x < scroller.scrollLeft || x > scroller.scrollLeft + scroller.clientWidth) {
+      scroller.scrollLeft = Math.max(0, x - scroller.clientWidth * 0.1);
+    }
+  }, [currentTime, zoom]);
+
+  // The waveform canvas only covers the visible slice, so long videos at high zoom stay cheap
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || viewport.width === 0) return;
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = Math.round(viewport.width * dpr);
+    canvas.height = Math.round(TRACK_HEIGHT * dpr);
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, viewport.width, TRACK_HEIGHT);
+    if (!waveform) return;
+
+    if (snapToSilence) {
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.04)';
+      waveform.silences.forEach(({ start, end }) => {
+        const x = start * zoom - viewport.scrollLeft;
+        ctx.fillRect(x, 0, (end - start) * zoom, TRACK_HEIGHT);
+      });
+    }
+
+    ctx.fillStyle = '#52525b';
+    const middle = TRACK_HEIGHT / 2;
+    for (let x = 0; x < viewport.width; x++) {
+      const from = Math.floor(((viewport.scrollLeft + x) / zoom) * waveform.peaksPerSecond);
+      const to = Math.max(from + 1, Math.floor(((viewport.scrollLeft + x + 1) / zoom) * waveform.peaksPerSecond));
+      let peak = 0;
+      for (let i = from; i < to && i < waveform.peaks.length; i++) peak = Math.max(peak, waveform.peaks[i]);
+      const height = Math.max(1, peak * (TRACK_HEIGHT - 8));
+      ctx.fillRect(x, middle - height / 2, 1, height);
+    }
+  }, [waveform, zoom, viewport, snapToSilence]);
+
+  const timeAt = (clientX: number) => {
+    const rect = trackRef.current!.getBoundingClientRect();
+    return Math.max(0, Math.min(duration, (clientX - rect.left) / zoom));
+  };
+
+  const collectSnapTargets = (excludeIndex: number): number[] => {
+    const targets: number[] = [currentTime];
+    subtitles.forEach((sub, i) => {
+      if (i === excludeIndex) return;
+      targets.push(sub.startTime, sub.endTime);
+    });
+    if (snapToWords) {
+      subtitles.forEach(sub => sub.words?.forEach(w => targets.push(w.start, w.end)));
+    }
+    if (snapToSilence && waveform) {
+      waveform.silences.forEach(s => targets.push(s.start, s.end));
+    }
+    return targets;
+  };
+
+  const startDrag = (e: React.PointerEvent, mode: DragMode, index: number, wordIndex = -1) => {
+    if (disabled || e.button !== 0) return;
+    e.stopPropagation();
+    (e.target as Element).setPointerCapture(e.pointerId);
+    setSelectedIndex(index);
+    dragRef.current = {
+      mode,
+      index,
+      wordIndex,
+      originX: e.clientX,
+      originTime: timeAt(e.clientX),
+      originStart: subtitles[index].startTime,
+      // Word ticks snap to neighbouring words, so keep the dragged segment's own words in the targets
+      snapTargets: collectSnapTargets(mode === 'word' ? -1 : index),
+      moved: false,
+      edit: { label: DRAG_LABELS[mode], mergeKey: `drag:${mode}:${index}:${e.timeStamp}` },
+    };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    if (!drag.moved && Math.abs(e.clientX - drag.originX) < DRAG_THRESHOLD_PIXELS) return;
+    drag.moved = true;
+
+    const tolerance = SNAP_PIXELS / zoom;
+    const time = timeAt(e.clientX);
+    const segment = subtitles[drag.index];
+
+    if (drag.mode === 'move') {
+      const length = segment.endTime - segment.startTime;
+      const start = drag.originStart + (time - drag.originTime);
+      // Snap whichever edge is closer to a target
+      const snappedStart = snapTime(start, drag.snapTargets, tolerance);
+      const snappedEnd = snapTime(start + length, drag.snapTargets, tolerance) - length;
+      const next = snappedStart !== start ? snappedStart : snappedEnd;
+      onChange(moveSegment(subtitles, drag.index, next, duration), drag.edit);
+    } else if (drag.mode === 'word') {
+      onChange(nudgeWord(subtitles, drag.index, drag.wordIndex, snapTime(time, drag.snapTargets, tolerance)), drag.edit);
+    } else {
+      onChange(resizeSegment(subtitles, drag.index, drag.mode, snapTime(time, drag.snapTargets, tolerance), duration), drag.edit);
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    // A press without movement is a click: seek to where it landed
+    if (drag && !drag.moved) onSeek(timeAt(e.clientX));
+  };
+
+  const activeIndex = selected ?? findSegmentAt(subtitles, currentTime);
+
+  const handleSplit = () => {
+    const index = findSegmentAt(subtitles, currentTime);
+    if (index !== -1) onChange(splitSegment(subtitles, index, currentTime), { label: 'Split caption' });
+  };
+
+  const handleMerge = () => {
+    if (activeIndex === -1) return;
+    onChange(mergeSegments(subtitles, activeIndex), { label: 'Merge captions' });
+  };
+
+  const handleInsert = () => {
+    const inserted = insertSegment(subtitles, currentTime, duration);
+    if (!inserted) return;
+    onChange(inserted.subtitles, { label: 'Insert caption' });
+    setSelectedIndex(inserted.index);
+  };
+
+  const handleDelete = () => {
+    if (activeIndex === -1) return;
+    onChange(deleteSegment(subtitles, activeIndex), { label: 'Delete caption' });
+    setSelectedIndex(null);
+  };
+
+  // Marking one side keeps the other if it still makes a valid range, otherwise falls back to the video's edge
+  const handleMarkIn = () => {
+    const end = exportRange && exportRange.end > currentTime ? exportRange.end : duration;
+    if (end > currentTime) onExportRangeChange?.({ start: currentTime, end });
+  };
+
+  const handleMarkOut = () => {
+    const start = exportRange && exportRange.start < currentTime ? exportRange.start : 0;
+    if (currentTime > start) onExportRangeChange?.({ start, end: currentTime });
+  };
+
+  const rulerStep = RULER_STEPS.find(step => step * zoom >= 80) ?? RULER_STEPS[RULER_STEPS.length - 1];
+  const rulerTicks = useMemo(() => {
+    const first = Math.floor(viewport.scrollLeft / zoom / rulerStep) * rulerStep;
+    const last = (viewport.scrollLeft + viewport.width) / zoom;
+    const ticks: number[] = [];
+    for (let t = first; t <= Math.min(duration, last); t += rulerStep) ticks.push(t);
+    return ticks;
+  }, [viewport, zoom, rulerStep, duration]);
+
+  const toolbarButton = 'px-2 py-1 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-40 text-[10px] font-black uppercase tracking-widest rounded-lg transition-all';
+
+  return (
+    <div className="w-full bg-zinc-900/50 rounded-xl border border-zinc-800 p-2 shrink-0 select-none">
+      <div className="flex items-center gap-2 mb-2 flex-wrap">
+        <button onClick={handleSplit} disabled={disabled} className={toolbarButton} title="Split the caption at the playhead">
+          <i className="fa-solid fa-scissors mr-1"></i>Split
+        </button>
+        <button onClick={handleMerge} disabled={disabled || activeIndex === -1} className={toolbarButton} title="Merge with the next caption">
+          <i className="fa-solid fa-object-group mr-1"></i>Merge
+        </button>
+        <button onClick={handleInsert} disabled={disabled} className={toolbarButton} title="Insert a caption at the playhead">
+          <i className="fa-solid fa-plus mr-1"></i>Insert
+        </button>
+        <button onClick={handleDelete} disabled={disabled || activeIndex === -1} className={toolbarButton} title="Delete the selected caption">
+          <i className="fa-solid fa-trash mr-1"></i>Delete
+        </button>
+
+        {onExportRangeChange && (
+          <>
+            <button onClick={handleMarkIn} disabled={disabled} className={toolbarButton} title="Start the export range at the playhead">
+              <i className="fa-solid fa-right-to-bracket mr-1"></i>In
+            </button>
+            <button onClick={handleMarkOut} disabled={disabled} className={toolbarButton} title="End the export range at the playhead">
+              <i className="fa-solid fa-right-from-bracket mr-1"></i>Out
+            </button>
+            {exportRange && (
+              <button onClick={() => onExportRangeChange(null)} disabled={disabled} className={toolbarButton} title="Export the whole video">
+                <i className="fa-solid fa-xmark mr-1"></i>{formatTime(exportRange.start)} – {formatTime(exportRange.end)}
+              </button>
+            )}
+          </>
+        )}
+
+        <label className="flex items-center gap-1 text-[10px] text-zinc-400 font-bold uppercase tracking-widest ml-auto cursor-pointer">
+          <input type="checkbox" checked={snapToWords} onChange={(e) => setSnapToWords(e.target.checked)} className="accent-brand-accent" />
+          Snap words
+        </label>
+        <label className="flex items-center gap-1 text-[10px] text-zinc-400 font-bold uppercase tracking-widest cursor-pointer">
+          <input type="checkbox" checked={snapToSilence} onChange={(e) => setSnapToSilence(e.target.checked)} className="accent-brand-accent" />
+          Snap silence
+        </label>
+        <i className="fa-solid fa-magnifying-glass-minus text-zinc-500 text-xs"></i>
+        <input
+          type="range"
+          min={Math.log(MIN_ZOOM)}
+          max={Math.log(MAX_ZOOM)}
+          step={0.01}
+          value={Math.log(zoom)}
+          onChange={(e) => setZoom(Math.exp(parseFloat(e.target.value)))}
+          className="w-24 h-1 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-brand-accent"
+        />
+        <i className="fa-solid fa-magnifying-glass-plus text-zinc-500 text-xs"></i>
+      </div>
+
+      <div ref={scrollRef} className="relative overflow-x-auto overflow-y-hidden scrollbar-thin">
+        <div
+          ref={trackRef}
+          className="relative"
+          style={{ width: totalWidth, height: TRACK_HEIGHT + 16 }}
+          onPointerDown={(e) => {
+            if (e.button !== 0) return;
+            setSelectedIndex(null);
+            onSeek(timeAt(e.clientX));
+          }}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={() => { dragRef.current = null; }}
+        >
+          {/* Ruler */}
+          <div className="absolute left-0 right-0 top-0 h-4 border-b border-zinc-800">
+            {rulerTicks.map(t => (
+              <span key={t} className="absolute top-0 text-[9px] font-mono text-zinc-600 pl-1 border-l border-zinc-700" style={{ left: t * zoom }}>
+                {formatTime(t)}
+              </span>
+            ))}
+          </div>
+
+          <canvas
+            ref={canvasRef}
+            className="absolute top-4 pointer-events-none"
+            style={{ left: viewport.scrollLeft, width: viewport.width, height: TRACK_HEIGHT }}
+          />
+
+          {exportRange && (
+            <div
+              className="absolute top-0 bottom-0 bg-brand-accent/10 border-x-2 border-brand-accent pointer-events-none"
+              style={{ left: exportRange.start * zoom, width: (exportRange.end - exportRange.start) * zoom }}
+            ></div>
+          )}
+
+          {subtitles.map((sub, index) => {
+            const left = sub.startTime * zoom;
+            const width = Math.max(2, (sub.endTime - sub.startTime) * zoom);
+            // Skip blocks outside the visible slice
+            if (left + width < viewport.scrollLeft || left > viewport.scrollLeft + viewport.width) return null;
+            const isSelected = index === selected;
+            return (
+              <div
+                key={index}
+                className={`absolute top-6 rounded-md border overflow-hidden cursor-grab active:cursor-grabbing
+                  ${isSelected ? 'bg-brand-accent/30 border-brand-accent' : 'bg-zinc-700/40 border-zinc-600 hover:border-zinc-400'}`}
+                style={{ left, width, height: TRACK_HEIGHT - 12 }}
+                onPointerDown={(e) => startDrag(e, 'move', index)}
+              >
+                <div className="px-1.5 pt-1 text-[10px] font-bold text-white truncate pointer-events-none">{sub.text}</div>
+
+                {sub.words?.map((word, wordIndex) => (
+                  <div
+                    key={wordIndex}
+                    title={word.text}
+                    className="absolute bottom-0 w-1.5 h-4 -ml-[3px] cursor-ew-resize flex justify-center"
+                    style={{ left: (word.start - sub.startTime) * zoom }}
+                    onPointerDown={(e) => startDrag(e, 'word', index, wordIndex)}
+                  >
+                    <div className="w-px h-full bg-white/50"></div>
+                  </div>
+                ))}
+
+                <div
+                  className="absolute left-0 top-0 bottom-0 w-1.5 cursor-ew-resize hover:bg-brand-accent"
+                  onPointerDown={(e) => startDrag(e, 'start', index)}
+                ></div>
+                <div
+                  className="absolute right-0 top-0 bottom-0 w-1.5 cursor-ew-resize hover:bg-brand-accent"
+                  onPointerDown={(e) => startDrag(e, 'end', index)}
+                ></div>
+              </div>
+            );
+          })}
+
+          <div className="absolute top-0 bottom-0 w-px bg-brand-accent pointer-events-none" style={{ left: currentTime * zoom }}></div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Timeline;
@@ -0,0 +1,171 @@
+import React, { useRef, useState } from 'react';
+import { BilingualMode, SubtitleSegment, SubtitleStyle, TranslationSettings, Translator } from '../types';
+import { LANGUAGE_NAMES } from '../utils/languages';
+import { PartialTranslationError, translateSubtitles } from '../services/translationService';
+
+interface TranslationPanelProps {
+  subtitles: SubtitleSegment[];
+  sourceLanguage?: string;
+  translators: Translator[];
+  settings: TranslationSettings;
+  onChange: (settings: TranslationSettings) => void;
+  style: SubtitleStyle;
+  onStyleChange: (style: SubtitleStyle) => void;
+  onTranslated: (subtitles: SubtitleSegment[]) => void;
+  onClear: () => void;
+}
+
+const MODES: { value: BilingualMode; label: string }[] = [
+  { value: 'original', label: 'Original' },
+  { value: 'both', label: 'Both' },
+  { value: 'translation', label: 'Translation' },
+];
+
+const labelClass = 'text-[10px] text-zinc-500 font-bold uppercase tracking-widest';
+const selectClass = 'w-full bg-zinc-800 text-xs text-white rounded-lg p-2 mt-1 focus:outline-none';
+
+const TranslationPanel: React.FC<TranslationPanelProps> = ({
+  subtitles, sourceLanguage, translators, settings, onChange, style, onStyleChange, onTranslated, onClear,
+}) => {
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const translator = translators.find(t => t.id === settings.translatorId);
+  const reason = translator ? translator.unavailableReason() : 'Pick a translator.';
+  const translatedCount = subtitles.filter(s => s.translation?.trim()).length;
+
+  const handleTranslate = async () => {
+    if (!translator) return;
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setProgress({ done: 0, total: subtitles.length });
+    try {
+      const result = await translateSubtitles(subtitles, translator, {
+        sourceLanguage,
+        targetLanguage: settings.targetLanguage,
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+      onTranslated(result);
+    } catch (e: any) {
+      // Keep the batches that made it rather than losing them with the error
+      if (e instanceof PartialTranslationError) onTranslated(e.subtitles);
+      if (e?.name !== 'AbortError') setError(e?.message || 'Translation failed.');
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setProgress(null);
+      }
+    }
+  };
+
+  return (
+    <details className="bg-zinc-900/50 p-4 rounded-xl border border-zinc-800 shrink-0">
+      <summary className="text-[10px] text-zinc-400 font-black uppercase tracking-widest cursor-pointer select-none">
+        Translation{translatedCount > 0 ? ` · ${settings.targetLanguage.toUpperCase()}` : ''}
+      </summary>
+      <div className="space-y-3 mt-3">
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className={labelClass}>Translator</label>
+            <select
+              value={settings.translatorId}
+              onChange={(e) => onChange({ ...settings, translatorId: e.target.value })}
+              className={selectClass}
+            >
+              {translators.map(t => (
+                <option key={t.id} value={t.id} disabled={t.unavailableReason() !== null}>{t.label}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Into</label>
+            <select
+              value={settings.targetLanguage}
+              onChange={(e) => onChange({ ...settings, targetLanguage: e.target.value })}
+              className={selectClass}
+            >
+              {Object.entries(LANGUAGE_NAMES).map(([code, name]) => (
+                <option key={code} value={code}>{name}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+        <p className="text-[10px] text-zinc-500">{reason || translator?.description}</p>
+
+        {progress ? (
+          <div className="flex items-center gap-2">
+            <div className="flex-1 h-1 bg-zinc-800 rounded-full overflow-hidden">
+              <div className="h-full bg-brand-accent transition-all" style={{ width: `${progress.total > 0 ? (progress.done / progress.total) * 100 : 0}%` }} />
+            </div>
+            <button
+              onClick={() => abortRef.current?.abort()}
+              className="text-[10px] font-black uppercase tracking-widest text-zinc-400 hover:text-white"
+            >
+              Cancel
+            </button>
+          </div>
+        ) : (
+          <div className="flex gap-2">
+            <button
+              onClick={handleTranslate}
+              disabled={reason !== null || subtitles.length === 0}
+              className="flex-1 py-2 bg-zinc-800 hover:bg-zinc-700 disabled:opacity-40 text-white text-xs font-black uppercase tracking-widest rounded-xl transition-all"
+            >
+              <i className="fa-solid fa-language mr-2"></i>
+              {translatedCount > 0 ? 'Translate Again' : 'Translate'}
+            </button>
+            {translatedCount > 0 && (
+              <button
+                onClick={onClear}
+                title="Remove all translations"
+                className="px-3 py-2 bg-zinc-800 hover:bg-zinc-700 text-white text-xs rounded-xl transition-all"
+              >
+                <i className="fa-solid fa-trash"></i>
+              </button>
+            )}
+          </div>
+        )}
+        {error && <p className="text-[10px] text-red-400 whitespace-pre-line">{error}</p>}
+
+        <div>
+          <label className={labelClass}>Show</label>
+          <div className="grid grid-cols-3 gap-1 mt-1">
+            {MODES.map(({ value, label }) => (
+              <button
+                key={value}
+                onClick={() => onStyleChange({ ...style, bilingual: value })}
+                className={`py-1 rounded-lg text-[10px] font-bold transition-all ${style.bilingual === value ? 'bg-brand-accent text-black' : 'bg-zinc-800 text-zinc-300 hover:bg-zinc-700'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {style.bilingual === 'both' && (
+          <div>
+            <div className="flex justify-between items-center">
+              <label className={labelClass}>Translation Size</label>
+              <span className="text-xs font-mono text-brand-accent">{Math.round(style.translationScale * 100)}%</span>
+            </div>
+            <input
+              type="range"
+              min={0.4}
+              max={1}
+              step={0.05}
+              value={style.translationScale}
+              onChange={(e) => onStyleChange({ ...style, translationScale: parseFloat(e.target.value) })}
+              className="w-full h-1 bg-zinc-800 rounded-lg appearance-none cursor-pointer accent-brand-accent"
+            />
+          </div>
+        )}
+      </div>
+    </details>
+  );
+};
+
+export default TranslationPanel;
@@ -1,56 +1,130 @@
-import React, { useRef } from 'react';
+import React, { useRef, useState } from 'react';
+import { CAPTION_FILE_EXTENSIONS, isCaptionFile } from '../utils/subtitleParsers';
 
 interface VideoUploaderProps {
-  onFileSelect: (file: File) => void;
+  onFileSelect: (file: File, captionFile?: File) => void;
+  onCaptionsOnly: (captionFile: File, duration?: number) => void; // Duration in seconds, undefined = up to the last caption
   isLoading?: boolean;
 }
 
-const VideoUploader: React.FC<VideoUploaderProps> = ({ onFileSelect, isLoading }) => {
+const VideoUploader: React.FC<VideoUploaderProps> = ({ onFileSelect, onCaptionsOnly, isLoading }) => {
   const inputRef = useRef<HTMLInputElement>(null);
+  const captionInputRef = useRef<HTMLInputElement>(null);
+  const [captionFile, setCaptionFile] = useState<File | null>(null);
+  const [durationText, setDurationText] = useState('');
+
+  const handleCaptionsOnly = () => {
+    if (!captionFile || isLoading) return;
+    const seconds = parseFloat(durationText);
+    onCaptionsOnly(captionFile, Number.isFinite(seconds) && seconds > 0 ? seconds : undefined);
+  };
+
+  // Video and caption can arrive together (multi-select / drop) or the caption can be attached first
+  const handleFiles = (files: FileList | null) => {
+    if (!files || isLoading) return;
+    const list = Array.from(files);
+    const video = list.find(f => f.type.startsWith('video/'));
+    const caption = list.find(isCaptionFile) || captionFile;
+
+    if (video) {
+      onFileSelect(video, caption || undefined);
+    } else if (caption) {
+      setCaptionFile(caption);
+    }
+  };
 
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
-    if (isLoading) return;
-    const file = e.dataTransfer.files[0];
-    if (file && file.type.startsWith('video/')) {
-      onFileSelect(file);
-    }
+    handleFiles(e.dataTransfer.files);
   };
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      onFileSelect(e.target.files[0]);
-    }
+    handleFiles(e.target.files);
+    e.target.value = '';
   };
 
   return (
-    <div 
-      className={`border-2 border-dashed border-zinc-700 rounded-2xl p-10 flex flex-col items-center justify-center text-center transition-all 
-        ${isLoading ? 'opacity-50 cursor-not-allowed' : 'hover:border-brand-accent hover:bg-zinc-900 cursor-pointer'}`}
-      onDragOver={(e) => e.preventDefault()}
-      onDrop={handleDrop}
-      onClick={() => !isLoading && inputRef.current?.click()}
-    >
-      <input 
-        type="file" 
-        accept="video/*" 
-        className="hidden" 
-        ref={inputRef} 
+    <div className="flex flex-col gap-3">
+      <div
+        className={`border-2 border-dashed border-zinc-700 rounded-2xl p-10 flex flex-col items-center justify-center text-center transition-all
+          ${isLoading ? 'opacity-50 cursor-not-allowed' : 'hover:border-brand-accent hover:bg-zinc-900 cursor-pointer'}`}
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={handleDrop}
+        onClick={() => !isLoading && inputRef.current?.click()}
+      >
+        <input
+          type="file"
+          accept={['video/*', ...CAPTION_FILE_EXTENSIONS].join(',')}
+          multiple
+          className="hidden"
+          ref={inputRef}
+          onChange={handleChange}
+          disabled={isLoading}
+        />
+
+        <div className="w-16 h-16 bg-zinc-800 rounded-full flex items-center justify-center mb-4 text-brand-accent">
+          <i className="fa-solid fa-cloud-arrow-up text-2xl"></i>
+        </div>
+
+        <h3 className="text-xl font-bold mb-2">Upload Video</h3>
+        <p className="text-zinc-400 text-sm max-w-xs">
+          Drag & drop or click to upload. <br/>
+          Recommended: MP4, Vertical (9:16), Max 200MB.
+        </p>
+      </div>
+
+      <input
+        type="file"
+        accept={CAPTION_FILE_EXTENSIONS.join(',')}
+        className="hidden"
+        ref={captionInputRef}
         onChange={handleChange}
         disabled={isLoading}
       />
-      
-      <div className="w-16 h-16 bg-zinc-800 rounded-full flex items-center justify-center mb-4 text-brand-accent">
-        <i className="fa-solid fa-cloud-arrow-up text-2xl"></i>
-      </div>
-      
-      <h3 className="text-xl font-bold mb-2">Upload Video</h3>
-      <p className="text-zinc-400 text-sm max-w-xs">
-        Drag & drop or click to upload. <br/> 
-        Recommended: MP4, Vertical (9:16), Max 200MB.
-      </p>
+      {captionFile ? (
+        <div className="bg-zinc-900 border border-zinc-800 rounded-xl px-4 py-3 text-xs space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-zinc-300 font-bold truncate">
+              <i className="fa-solid fa-closed-captioning mr-2 text-brand-accent"></i>
+              {captionFile.name}
+            </span>
+            <button onClick={() => setCaptionFile(null)} className="text-zinc-500 hover:text-white ml-3">
+              <i className="fa-solid fa-xmark"></i>
+            </button>
+          </div>
+          {/* No video at all: edit the captions and export them as files or a transparent overlay */}
+          <div className="flex gap-2">
+            <input
+              type="number"
+              min={0}
+              step={0.1}
+              value={durationText}
+              onChange={(e) => setDurationText(e.target.value)}
+              placeholder="Length (s), or to last caption"
+              title="Timeline length in seconds for the overlay export"
+              className="flex-1 min-w-0 bg-zinc-800 text-white rounded-lg px-2 py-1.5 focus:outline-none"
+            />
+            <button
+              onClick={handleCaptionsOnly}
+              disabled={isLoading}
+              className="px-3 py-1.5 bg-zinc-800 hover:bg-zinc-700 text-zinc-300 hover:text-white font-bold rounded-lg transition-all whitespace-nowrap"
+            >
+              Captions only
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => captionInputRef.current?.click()}
+          disabled={isLoading}
+          className="w-full py-3 bg-zinc-900 hover:bg-zinc-800 border border-zinc-800 text-zinc-400 hover:text-white text-xs font-bold rounded-xl transition-all"
+        >
+          <i className="fa-solid fa-closed-captioning mr-2"></i>
+          Attach existing captions (SRT, VTT, ASS, JSON) to skip AI
+        </button>
+      )}
     </div>
   );
 };
 
-export default VideoUploader;
\ No newline at end of file
+export default VideoUploader;
@@ -0,0 +1,93 @@
+import { useCallback, useReducer } from 'react';
+import { EditDescription } from '../types';
+
+const HISTORY_LIMIT = 200;
+// Typing or dragging produces a stream of edits; ones this close together with the same mergeKey undo as one
+const MERGE_WINDOW_MS = 1000;
+
+interface HistoryEntry<T> {
+  edit: EditDescription;
+  document: T;           // The document on the other side of this edit
+  at: number;
+}
+
+interface HistoryState<T> {
+  past: HistoryEntry<T>[];     // Newest last; each holds the document before its edit
+  present: T;
+  future: HistoryEntry<T>[];   // Newest last; each holds the document after its edit
+}
+
+type Updater<T> = (document: T) => T;
+
+type HistoryAction<T> =
+  | { type: 'commit'; update: Updater<T>; edit: EditDescription; at: number }
+  | { type: 'replace'; update: Updater<T> }
+  | { type: 'reset'; update: Updater<T> }
+  | { type: 'undo' }
+  | { type: 'redo' };
+
+const historyReducer = <T>(state: HistoryState<T>, action: HistoryAction<T>): HistoryState<T> => {
+  switch (action.type) {
+    case 'commit': {
+      const next = action.update(state.present);
+      if (next === state.present) return state;
+      const last = state.past[state.past.length - 1];
+      const merges = last && action.edit.mergeKey !== undefined
+        && last.edit.mergeKey === action.edit.mergeKey
+        && action.at - last.at < MERGE_WINDOW_MS;
+      // A merged edit keeps the oldest "before" document, so one undo reverts the whole burst
+      const past = merges
+        ? [...state.past.slice(0, -1), { ...last, at: action.at }]
+        : [...state.past, { edit: action.edit, document: state.present, at: action.at }].slice(-HISTORY_LIMIT);
+      return { past, present: next, future: [] };
+    }
+    case 'replace':
+      return { ...state, present: action.update(state.present) };
+    case 'reset':
+      return { past: [], present: action.update(state.present), future: [] };
+    case 'undo': {
+      const entry = state.past[state.past.length - 1];
+      if (!entry) return state;
+      return {
+        past: state.past.slice(0, -1),
+        present: entry.document,
+        future: [...state.future, { ...entry, document: state.present }],
+      };
+    }
+    case 'redo': {
+      const entry = state.future[state.future.length - 1];
+      if (!entry) return state;
+      return {
+        past: [...state.past, { ...entry, document: state.present, at: 0 }],
+        present: entry.document,
+        future: state.future.slice(0, -1),
+      };
+    }
+  }
+};
+
+/**
+ * Undo/redo over an immutable document. `commit` records an undoable edit; `replace` changes the
+ * document without a history entry (streaming transcription output); `reset` also clears the history.
+ */
+export const useEditHistory = <T>(initial: T) => {
+  const [state, dispatch] = useReducer(historyReducer<T>, { past: [], present: initial, future: [] });
+
+  const commit = useCallback((update: Updater<T>, edit: EditDescription) =>
+    dispatch({ type: 'commit', update, edit, at: Date.now() }), []);
+  const replace = useCallback((update: Updater<T>) => dispatch({ type: 'replace', update }), []);
+  const reset = useCallback((update: Updater<T>) => dispatch({ type: 'reset', update }), []);
+  const undo = useCallback(() => dispatch({ type: 'undo' }), []);
+  const redo = useCallback(() => dispatch({ type: 'redo' }), []);
+
+  return {
+    document: state.present,
+    commit,
+    replace,
+    reset,
+    undo,
+    redo,
+    undoLabel: state.past[state.past.length - 1]?.edit.label ?? null,
+    redoLabel: state.future[state.future.length - 1]?.edit.label ?? null,
+  };
+};
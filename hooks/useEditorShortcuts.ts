@@ -0,0 +1,110 @@
+import { useEffect, useRef } from 'react';
+
+export interface EditorShortcutHandlers {
+  undo: () => void;
+  redo: () => void;
+  togglePlay: () => void;
+  shuttle: (direction: -1 | 0 | 1) => void;   // J / K / L
+  stepFrames: (frames: number) => void;
+  stepSeconds: (seconds: number) => void;
+  jumpToSegment: (direction: -1 | 1) => void;
+  setStartToPlayhead: () => void;
+  setEndToPlayhead: () => void;
+}
+
+// Shown in the shortcut help; keep in step with the switch below
+export const EDITOR_SHORTCUTS: { keys: string; action: string }[] = [
+  { keys: 'Ctrl+Z / Ctrl+Shift+Z', action: 'Undo / redo' },
+  { keys: 'Space', action: 'Play / pause' },
+  { keys: 'J / K / L', action: 'Slower or back / stop / play, faster' },
+  { keys: '← / →', action: 'Previous / next frame' },
+  { keys: 'Shift+← / →', action: 'Back / forward one second' },
+  { keys: '↑ / ↓', action: 'Previous / next caption' },
+  { keys: 'I / O', action: 'Set caption start / end to playhead' },
+];
+
+const isTextField = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable) return true;
+  if (target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return true;
+  return target instanceof HTMLInputElement && !['checkbox', 'radio', 'range', 'button'].includes(target.type);
+};
+
+// Caption text fields edit through the history, so undo there is the editor's; other fields keep the browser's own
+const usesEditorUndo = (target: EventTarget | null) =>
+  !isTextField(target) || (target instanceof HTMLElement && target.dataset.captionField !== undefined);
+
+// Global editor key bindings; single-letter keys are ignored while typing in a text field, undo in all but caption fields
+export const useEditorShortcuts = (handlers: EditorShortcutHandlers, enabled: boolean) => {
+  // Handlers close over fresh state every render; read them through a ref so the listener stays put
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const h = handlersRef.current;
+      const mod = e.ctrlKey || e.metaKey;
+
+      if (mod && e.key.toLowerCase() === 'z' && usesEditorUndo(e.target)) {
+        e.preventDefault();
+        if (e.shiftKey) h.redo();
+        else h.undo();
+        return;
+      }
+      if (mod && e.key.toLowerCase() === 'y' && usesEditorUndo(e.target)) {
+        e.preventDefault();
+        h.redo();
+        return;
+      }
+      if (mod || e.altKey || isTextField(e.target)) return;
+
+      switch (e.key) {
+        case ' ':
+          h.togglePlay();
+          break;
+        case 'j':
+        case 'J':
+          h.shuttle(-1);
+          break;
+        case 'k':
+        case 'K':
+          h.shuttle(0);
+          break;
+        case 'l':
+        case 'L':
+          h.shuttle(1);
+          break;
+        case 'ArrowLeft':
+          if (e.shiftKey) h.stepSeconds(-1);
+          else h.stepFrames(-1);
+          break;
+        case 'ArrowRight':
+          if (e.shiftKey) h.stepSeconds(1);
+          else h.stepFrames(1);
+          break;
+        case 'ArrowUp':
+          h.jumpToSegment(-1);
+          break;
+        case 'ArrowDown':
+          h.jumpToSegment(1);
+          break;
+        case 'i':
+        case 'I':
+          h.setStartToPlayhead();
+          break;
+        case 'o':
+        case 'O':
+          h.setEndToPlayhead();
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+};
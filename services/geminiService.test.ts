@@ -0,0 +1,183 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { ApiError } from '@google/genai';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { generateSubtitles, GeminiResponseError, isTransientGeminiError, validateGeminiSegments } from './geminiService';
+
+const issuesOf = (run: () => unknown): string[] => {
+  try {
+    run();
+  } catch (e) {
+    if (e instanceof GeminiResponseError) return e.issues;
+    throw e;
+  }
+  return [];
+};
+
+describe('validateGeminiSegments', () => {
+  it('accepts well-formed segments and clamps a small overshoot past the end', () => {
+    const segments = validateGeminiSegments([
+      { startTime: 0, endTime: 1.5, text: ' Hello there ' },
+      { startTime: 1.5, endTime: 10.3, text: 'General Kenobi' },
+    ], 10);
+    expect(segments).toEqual([
+      { startTime: 0, endTime: 1.5, text: 'Hello there' },
+      { startTime: 1.5, endTime: 10, text: 'General Kenobi' },
+    ]);
+  });
+
+  it('reports non-numeric times', () => {
+    expect(issuesOf(() => validateGeminiSegments([
+      { startTime: '0', endTime: 1, text: 'a' },
+      { startTime: 1, endTime: NaN, text: 'b' },
+      'not a segment',
+    ]))).toEqual(['Segment 1 has non-numeric times', 'Segment 2 has non-numeric times', 'Segment 3 has non-numeric times']);
+  });
+
+  it('reports inverted, out-of-order and out-of-range times', () => {
+    expect(issuesOf(() => validateGeminiSegments([
+      { startTime: -1, endTime: 1, text: 'a' },
+      { startTime: 3, endTime: 2, text: 'b' },
+      { startTime: 2.5, endTime: 4, text: 'c' },
+      { startTime: 4, endTime: 11, text: 'd' },
+    ], 10))).toEqual([
+      'Segment 1 starts before 0',
+      'Segment 2 ends before it starts',
+      'Segment 3 starts before the previous segment',
+      'Segment 4 runs past the end of the media',
+    ]);
+  });
+
+  it('reports empty text, and a response with no segments at all', () => {
+    expect(issuesOf(() => validateGeminiSegments([{ startTime: 0, endTime: 1, text: '  ' }]))).toEqual(['Segment 1 has no text']);
+    expect(issuesOf(() => validateGeminiSegments([]))).toEqual(['No speech segments were returned']);
+    expect(issuesOf(() => validateGeminiSegments({ segments: [] }))).toEqual(['Expected an array of segments']);
+  });
+
+  it('keeps word timings that fit the segment', () => {
+    const [segment] = validateGeminiSegments([{
+      startTime: 1, endTime: 2, text: 'hello world',
+      words: [{ text: 'hello', start: 1, end: 1.4 }, { text: 'world', start: 1.5, end: 2 }],
+    }]);
+    expect(segment.words).toEqual([{ text: 'hello', start: 1, end: 1.4 }, { text: 'world', start: 1.5, end: 2 }]);
+  });
+
+  it('drops word timings that fall outside the segment, run backwards or are malformed', () => {
+    const withWords = (words: unknown) => validateGeminiSegments([{ startTime: 1, endTime: 2, text: 'hello world', words }])[0];
+    expect(withWords([{ text: 'hello', start: 1, end: 1.4 }, { text: 'world', start: 1.5, end: 3 }]).words).toBeUndefined();
+    expect(withWords([{ text: 'hello', start: 1.5, end: 2 }, { text: 'world', start: 1, end: 1.4 }]).words).toBeUndefined();
+    expect(withWords([{ text: 'hello', start: 1.4, end: 1 }]).words).toBeUndefined();
+    expect(withWords([{ text: 'hello', start: '1', end: 1.4 }]).words).toBeUndefined();
+    expect(withWords('hello world').words).toBeUndefined();
+  });
+});
+
+describe('isTransientGeminiError', () => {
+  it('retries rate limits, server errors, unusable answers and network failures', () => {
+    expect(isTransientGeminiError(new ApiError({ message: 'busy', status: 503 }))).toBe(true);
+    expect(isTransientGeminiError(new ApiError({ message: 'slow down', status: 429 }))).toBe(true);
+    expect(isTransientGeminiError(new GeminiResponseError(['The response was empty']))).toBe(true);
+    expect(isTransientGeminiError(new TypeError('fetch failed', { cause: new Error('ECONNRESET') }))).toBe(true);
+    expect(isTransientGeminiError(new TypeError('Failed to fetch'))).toBe(true);
+  });
+
+  it('does not retry client errors or bugs', () => {
+    expect(isTransientGeminiError(new ApiError({ message: 'bad key', status: 403 }))).toBe(false);
+    expect(isTransientGeminiError(new TypeError("Cannot read properties of undefined (reading 'uri')"))).toBe(false);
+    expect(isTransientGeminiError(new Error('nope'))).toBe(false);
+  });
+
+  it('does not retry once the run is cancelled', () => {
+    expect(isTransientGeminiError(new ApiError({ message: 'busy', status: 503 }), AbortSignal.abort())).toBe(false);
+  });
+});
+
+interface MockGemini {
+  requests: string[];
+  // Answers to files.get, in order; the last one repeats
+  fileStates: { status: number; state?: string }[];
+  uploadState: string;
+}
+
+const FILE_NAME = 'files/clip-1';
+
+// Just enough of the Gemini API for one resumable upload, the status polls, one transcription and the delete
+const handle = (mock: MockGemini, baseUrl: () => string) => async (req: IncomingMessage, res: ServerResponse) => {
+  for await (const _ of req);  // Drain the body before answering
+  const url = new URL(req.url!, baseUrl());
+  mock.requests.push(`${req.method} ${url.pathname}`);
+  const json = (status: number, body: unknown, headers: Record<string, string> = {}) => {
+    res.writeHead(status, { 'content-type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+  };
+  const file = (state: string) => ({ name: FILE_NAME, uri: `${baseUrl()}/v1beta/${FILE_NAME}`, mimeType: 'video/mp4', state });
+
+  if (url.pathname === '/upload/v1beta/files') {
+    return json(200, {}, { 'x-goog-upload-url': `${baseUrl()}/resumable/clip-1` });
+  }
+  if (url.pathname === '/resumable/clip-1') {
+    const final = String(req.headers['x-goog-upload-command']).includes('finalize');
+    return json(200, final ? { file: file(mock.uploadState) } : {}, { 'x-goog-upload-status': final ? 'final' : 'active' });
+  }
+  if (url.pathname === `/v1beta/${FILE_NAME}` && req.method === 'GET') {
+    const answer = mock.fileStates.length > 1 ? mock.fileStates.shift()! : mock.fileStates[0];
+    return answer.status === 200
+      ? json(200, file(answer.state!))
+      : json(answer.status, { error: { code: answer.status, message: 'Unavailable', status: 'UNAVAILABLE' } });
+  }
+  if (url.pathname === `/v1beta/${FILE_NAME}` && req.method === 'DELETE') return json(200, {});
+  if (url.pathname.endsWith(':generateContent')) {
+    const segments = [{ startTime: 0, endTime: 1.2, text: 'Hello from the mock' }];
+    return json(200, { candidates: [{ content: { role: 'model', parts: [{ text: JSON.stringify(segments) }] } }] });
+  }
+  json(404, { error: { code: 404, message: 'Not found', status: 'NOT_FOUND' } });
+};
+
+describe('generateSubtitles against a mock Gemini server', () => {
+  const mock: MockGemini = { requests: [], fileStates: [], uploadState: 'ACTIVE' };
+  let server: Server;
+  let baseUrl = '';
+  // Over the inline limit, so it goes through the Files API
+  const video = new File([new Uint8Array(16 * 1024 * 1024)], 'clip.mp4', { type: 'video/mp4' });
+
+  beforeAll(async () => {
+    server = createServer(handle(mock, () => baseUrl));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    vi.stubEnv('GEMINI_API_KEY', 'test-key');
+    vi.stubEnv('GEMINI_BASE_URL', baseUrl);
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    mock.requests = [];
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('uploads once, retries only the failed status check, transcribes and deletes the upload', async () => {
+    mock.uploadState = 'PROCESSING';
+    mock.fileStates = [{ status: 503 }, { status: 200, state: 'ACTIVE' }];
+
+    const result = await generateSubtitles(video, { duration: 5 });
+
+    expect(result.segments.map(s => s.text)).toEqual(['Hello from the mock']);
+    await vi.waitFor(() => expect(mock.requests).toContain(`DELETE /v1beta/${FILE_NAME}`));
+    expect(mock.requests.filter(r => r === 'POST /upload/v1beta/files')).toHaveLength(1);
+    expect(mock.requests.filter(r => r === `GET /v1beta/${FILE_NAME}`)).toHaveLength(2);
+    expect(mock.requests.filter(r => r.endsWith(':generateContent'))).toHaveLength(1);
+  }, 15_000);
+
+  it('deletes the upload when Gemini fails to process it', async () => {
+    mock.uploadState = 'FAILED';
+
+    await expect(generateSubtitles(video)).rejects.toThrow('Gemini could not process the uploaded video.');
+
+    await vi.waitFor(() => expect(mock.requests).toContain(`DELETE /v1beta/${FILE_NAME}`));
+    expect(mock.requests.some(r => r.endsWith(':generateContent'))).toBe(false);
+  });
+});
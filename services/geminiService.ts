@@ -1,71 +1,303 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { SubtitleSegment } from "../types";
+import { ApiError, File as GeminiFile, FileState, GoogleGenAI, Part, Type, createPartFromUri } from "@google/genai";
+import { SubtitleSegment, TranscriptionOptions, TranscriptionProvider, TranscriptionResult, TranslationOptions, Translator, Word } from "../types";
 import { fileToBase64 } from "../utils/fileUtils";
+import { getLanguageName } from "../utils/languages";
+import { sleep, withRetry } from "../utils/retry";
+import { DEFAULT_SEGMENTATION_OPTIONS, resegmentSubtitles } from "../utils/segmenter";
+import { isFiniteNumber, isRecord, isWord } from "../utils/subtitleParsers";
+import { reconcileWordTimings } from "../utils/wordTimings";
 
-export const generateSubtitles = async (videoFile: File): Promise<SubtitleSegment[]> => {
-  try {
-    const apiKey = process.env.API_KEY;
-    if (!apiKey) {
-      throw new Error("API Key is missing. Please check your configuration.");
+// Smaller files are sent inline with the request; larger ones go through the resumable Files API upload
+const INLINE_LIMIT_BYTES = 15 * 1024 * 1024;
+const MAX_UPLOAD_BYTES = 2 * 1024 * 1024 * 1024;
+const FILE_POLL_INTERVAL_MS = 2000;
+const FILE_PROCESSING_TIMEOUT_MS = 10 * 60 * 1000;
+// Model timestamps may overshoot the end of the media, or a segment's edges, by a little
+const TIME_TOLERANCE = 0.5;
+const TRANSIENT_STATUSES = [408, 429, 500, 502, 503, 504];
+
+export interface GeminiClientConfig {
+  apiKey?: string;
+  baseUrl?: string;  // Points the client at another endpoint, e.g. a local mock server
+}
+
+// Thrown when the model's answer is not usable captions; a fresh attempt usually does better
+export class GeminiResponseError extends Error {
+  issues: string[];
+
+  constructor(issues: string[]) {
+    const more = issues.length > 5 ? `\n…and ${issues.length - 5} more` : '';
+    super(`Gemini returned unusable captions:\n${issues.slice(0, 5).join('\n')}${more}`);
+    this.name = 'GeminiResponseError';
+    this.issues = issues;
+  }
+}
+
+// The app gets API_KEY baked in by Vite; the CLI reads GEMINI_API_KEY from its environment at run time
+export const getGeminiConfig = (): GeminiClientConfig => ({
+  apiKey: process.env.API_KEY || process.env.GEMINI_API_KEY || undefined,
+  baseUrl: process.env.GEMINI_BASE_URL || undefined,
+});
+
+export const createGeminiClient = ({ apiKey, baseUrl }: GeminiClientConfig) => {
+  if (!apiKey) throw new Error("API Key is missing. Please check your configuration.");
+  return new GoogleGenAI({ apiKey, ...(baseUrl ? { httpOptions: { baseUrl } } : {}) });
+};
+
+// fetch reports a dropped connection as a bare TypeError: Node's carries the socket error as its cause,
+// browsers only say so in the message. Any other TypeError is a bug, and retrying won't fix it
+const NETWORK_FAILURE = /fetch|network|load failed/i;
+const isNetworkFailure = (error: unknown) =>
+  error instanceof TypeError && (error.cause !== undefined || NETWORK_FAILURE.test(error.message));
+
+// Rate limits, server hiccups, dropped connections and malformed answers are worth another try, unless the user cancelled
+export const isTransientGeminiError = (error: unknown, signal?: AbortSignal) =>
+  !signal?.aborted &&
+  (error instanceof GeminiResponseError ||
+    (error instanceof ApiError && TRANSIENT_STATUSES.includes(error.status)) ||
+    isNetworkFailure(error));
+
+// Word timings are a bonus: a segment whose words don't fit is left without any, rather than given made-up ones
+const validateWords = (input: unknown, text: string, startTime: number, endTime: number): Word[] | undefined => {
+  if (!Array.isArray(input) || input.length === 0) return undefined;
+  const words = input.filter(w => isRecord(w) && typeof w.text === 'string' && w.text.trim() !== '');
+  if (words.length === 0 || !words.every(isWord)) return undefined;
+  const fits = words.every((w, i) =>
+    w.end >= w.start && w.start >= startTime - TIME_TOLERANCE && w.end <= endTime + TIME_TOLERANCE &&
+    (i === 0 || w.start >= words[i - 1].start)
+  );
+  if (!fits) return undefined;
+  const clamp = (t: number) => Math.min(endTime, Math.max(startTime, t));
+  const timed = words.map(w => ({ text: w.text.trim(), start: clamp(w.start), end: clamp(w.end) }));
+  // The words are re-aligned to the segment text, in case the model dropped or merged any
+  return reconcileWordTimings(timed, text, startTime, endTime);
+};
+
+/**
+ * Checks every segment of a parsed response: numeric, ordered and in-range times and non-empty text.
+ * Ends that overshoot the media by less than TIME_TOLERANCE are clamped rather than rejected.
+ */
+export const validateGeminiSegments = (data: unknown, duration?: number): SubtitleSegment[] => {
+  if (!Array.isArray(data)) throw new GeminiResponseError(['Expected an array of segments']);
+  const issues: string[] = [];
+  const segments: SubtitleSegment[] = [];
+  let previousStart = -Infinity;
+
+  data.forEach((entry: unknown, index) => {
+    const label = `Segment ${index + 1}`;
+    if (!isRecord(entry) || !isFiniteNumber(entry.startTime) || !isFiniteNumber(entry.endTime)) {
+      issues.push(`${label} has non-numeric times`);
+      return;
     }
+    const text = typeof entry.text === 'string' ? entry.text.trim() : '';
+    if (!text) issues.push(`${label} has no text`);
+    if (entry.startTime < 0) issues.push(`${label} starts before 0`);
+    if (entry.endTime <= entry.startTime) issues.push(`${label} ends before it starts`);
+    if (entry.startTime < previousStart) issues.push(`${label} starts before the previous segment`);
+    if (duration !== undefined && entry.endTime > duration + TIME_TOLERANCE) issues.push(`${label} runs past the end of the media`);
+    previousStart = Math.max(previousStart, entry.startTime);
+    if (issues.length > 0) return;
+
+    const startTime = entry.startTime;
+    const endTime = duration !== undefined ? Math.min(entry.endTime, duration) : entry.endTime;
+    const words = validateWords(entry.words, text, startTime, endTime);
+    segments.push({ startTime, endTime, text, ...(words ? { words } : {}) });
+  });
+
+  if (issues.length > 0) throw new GeminiResponseError(issues);
+  if (segments.length === 0) throw new GeminiResponseError(['No speech segments were returned']);
+  return segments;
+};
+
+// Waits until Gemini has processed an uploaded video. Only the status checks go through `retry`,
+// so a failed check never sends the video again
+const waitForProcessing = async (
+  ai: GoogleGenAI,
+  uploaded: GeminiFile,
+  retry: <T>(run: () => Promise<T>) => Promise<T>,
+  signal?: AbortSignal
+) => {
+  let current = uploaded;
+  const deadline = Date.now() + FILE_PROCESSING_TIMEOUT_MS;
+  while (current.state === FileState.PROCESSING) {
+    if (Date.now() > deadline) throw new Error("Gemini took too long to process the uploaded video.");
+    await sleep(FILE_POLL_INTERVAL_MS, signal);
+    current = await retry(() => ai.files.get({ name: uploaded.name!, config: { abortSignal: signal } }));
+  }
+  if (current.state === FileState.FAILED) throw new Error(current.error?.message || "Gemini could not process the uploaded video.");
+  return current;
+};
+
+export const generateSubtitles = async (videoFile: File, options: TranscriptionOptions = {}): Promise<TranscriptionResult> => {
+  const { onProgress, signal, language, duration, prompt: vocabulary, task = 'transcribe', segmentation = DEFAULT_SEGMENTATION_OPTIONS } = options;
+  let ai: GoogleGenAI | null = null;
+  let uploadedName: string | undefined;
+  try {
+    ai = createGeminiClient(getGeminiConfig());
+    const client = ai;
 
-    // Limit file size check (up to 200MB as requested)
-    if (videoFile.size > 200 * 1024 * 1024) {
-        throw new Error("Video file is too large. Please use a video under 200MB.");
+    if (videoFile.size > MAX_UPLOAD_BYTES) {
+        throw new Error("Video file is too large. Please use a video under 2GB.");
     }
 
-    const base64Data = await fileToBase64(videoFile);
-    const ai = new GoogleGenAI({ apiKey });
+    const retry = <T>(run: () => Promise<T>, stage: 'uploading' | 'transcribing') => withRetry(run, {
+      signal,
+      shouldRetry: error => isTransientGeminiError(error, signal),
+      onRetry: (error, attempt) => {
+        console.warn(`Gemini ${stage} failed (attempt ${attempt}), retrying`, error);
+        onProgress?.({ stage, message: `Gemini hit a temporary problem, retrying (${attempt})...` });
+      },
+    });
+
+    if (onProgress) onProgress({ stage: 'uploading', message: "Uploading video to Gemini..." });
+    let media: Part;
+    if (videoFile.size <= INLINE_LIMIT_BYTES) {
+      media = { inlineData: { mimeType: videoFile.type, data: await fileToBase64(videoFile) } };
+    } else {
+      // Uploads through the SDK's resumable protocol; the name is kept before waiting so the file is deleted whatever happens next
+      const uploaded = await client.files.upload({ file: videoFile, config: { mimeType: videoFile.type, abortSignal: signal } });
+      uploadedName = uploaded.name;
+      const processed = await waitForProcessing(client, uploaded, run => retry(run, 'uploading'), signal);
+      media = createPartFromUri(processed.uri!, processed.mimeType || videoFile.type);
+    }
+    signal?.throwIfAborted();
 
     // Use a lightweight model optimized for speed and multimodal tasks
-    const modelId = "gemini-2.5-flash"; 
+    const modelId = "gemini-2.5-flash";
 
     const prompt = `
-      Listen carefully to the audio of this video. 
-      Generate subtitles split into short segments of exactly 4-5 words each to match a fast-paced vertical video style.
+      Listen carefully to the audio of this video.
+      Generate subtitles split into natural phrases or short sentences, each covering one continuous stretch of speech.
       Ensure the timestamps are extremely accurate to the voice.
-      Return the result as a JSON array of objects with startTime (seconds), endTime (seconds), and text.
+      ${language ? `The spoken language is "${language}".` : ''}
+      ${task === 'translate' ? 'Translate the speech and write the subtitles in English.' : 'Write the subtitles in the spoken language.'}
+      ${vocabulary ? `These names and terms may be spoken; spell them exactly as written here: ${vocabulary}.` : ''}
+      ${duration ? `The video is ${duration.toFixed(2)} seconds long; no timestamp may exceed that.` : ''}
+      Return the result as a JSON array of objects with startTime (seconds), endTime (seconds), text,
+      and words: every word of the text in order, each with its own start and end time in seconds.
       Do not include any other text.
     `;
 
-    const response = await ai.models.generateContent({
-      model: modelId,
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: videoFile.type,
-              data: base64Data
+    if (onProgress) onProgress({ stage: 'transcribing', message: "Gemini is transcribing..." });
+    const segments = await retry(async () => {
+      const response = await client.models.generateContent({
+        model: modelId,
+        contents: { parts: [media, { text: prompt }] },
+        config: {
+          abortSignal: signal,
+          responseMimeType: "application/json",
+          responseSchema: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                startTime: { type: Type.NUMBER, description: "Start time in seconds" },
+                endTime: { type: Type.NUMBER, description: "End time in seconds" },
+                text: { type: Type.STRING, description: "Subtitle text content" },
+                words: {
+                  type: Type.ARRAY,
+                  description: "Every word of the text in order, with its timing",
+                  items: {
+                    type: Type.OBJECT,
+                    properties: {
+                      text: { type: Type.STRING },
+                      start: { type: Type.NUMBER, description: "Start time in seconds" },
+                      end: { type: Type.NUMBER, description: "End time in seconds" }
+                    },
+                    required: ["text", "start", "end"]
+                  }
+                }
+              },
+              required: ["startTime", "endTime", "text"]
             }
-          },
-          { text: prompt }
-        ]
-      },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-          type: Type.ARRAY,
-          items: {
-            type: Type.OBJECT,
-            properties: {
-              startTime: { type: Type.NUMBER, description: "Start time in seconds" },
-              endTime: { type: Type.NUMBER, description: "End time in seconds" },
-              text: { type: Type.STRING, description: "Subtitle text content (4-5 words)" }
-            },
-            required: ["startTime", "endTime", "text"]
           }
         }
-      }
-    });
+      });
 
-    const jsonText = response.text;
-    if (!jsonText) throw new Error("No response from AI");
+      const jsonText = response.text;
+      if (!jsonText) throw new GeminiResponseError(["The response was empty"]);
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(jsonText);
+      } catch (e) {
+        throw new GeminiResponseError([`Invalid JSON (${(e as Error).message})`]);
+      }
+      return validateGeminiSegments(parsed, duration);
+    }, 'transcribing');
 
-    const parsed = JSON.parse(jsonText) as SubtitleSegment[];
-    return parsed.sort((a, b) => a.startTime - b.startTime);
+    // Gemini returns phrases; the shared segmenter cuts them to the caption style the user picked
+    if (onProgress) onProgress({ stage: 'formatting', message: "Formatting Subtitles..." });
+    return {
+      language,
+      segments: resegmentSubtitles(segments, segmentation),
+    };
 
   } catch (error) {
     console.error("Gemini Transcription Error:", error);
     throw error;
+  } finally {
+    // Uploaded media would otherwise linger for 48 hours
+    if (ai && uploadedName) ai.files.delete({ name: uploadedName }).catch(() => {});
   }
-};
\ No newline at end of file
+};
+
+export const geminiProvider: TranscriptionProvider = {
+  id: 'gemini',
+  label: 'Gemini 2.5 Flash (cloud)',
+  description: 'Sends the video to Google Gemini. Handles most languages.',
+  capabilities: {
+    wordTimings: true,
+    translation: true,
+    runsLocally: false,
+    requiresApiKey: true,
+    prompting: true,
+    languages: 'any',
+  },
+  unavailableReason: () => getGeminiConfig().apiKey ? null : "Set GEMINI_API_KEY (in .env.local for the app) to enable Gemini.",
+  transcribe: generateSubtitles,
+};
+
+const translateBatch = async (ai: GoogleGenAI, texts: string[], { sourceLanguage, targetLanguage, signal }: TranslationOptions) => {
+  const prompt = `
+    Translate each of these consecutive subtitle cues into ${getLanguageName(targetLanguage)} (${targetLanguage}).
+    ${sourceLanguage ? `They are in ${getLanguageName(sourceLanguage)} (${sourceLanguage}).` : ''}
+    Use the neighbouring cues for context, but keep every translation to its own cue and about as short as the original.
+    Return a JSON array with exactly ${texts.length} strings, one per cue, in the same order.
+
+    ${JSON.stringify(texts)}
+  `;
+  const response = await ai.models.generateContent({
+    model: "gemini-2.5-flash",
+    contents: prompt,
+    config: {
+      abortSignal: signal,
+      responseMimeType: "application/json",
+      responseSchema: { type: Type.ARRAY, items: { type: Type.STRING } },
+    },
+  });
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(response.text || '');
+  } catch (e) {
+    throw new GeminiResponseError([`Invalid JSON (${(e as Error).message})`]);
+  }
+  if (!Array.isArray(parsed) || parsed.length !== texts.length || !parsed.every(t => typeof t === 'string')) {
+    throw new GeminiResponseError([`Expected ${texts.length} translated strings`]);
+  }
+  return parsed as string[];
+};
+
+export const geminiTranslator: Translator = {
+  id: 'gemini',
+  label: 'Gemini 2.5 Flash (cloud)',
+  description: 'Sends the caption text to Google Gemini.',
+  runsLocally: false,
+  unavailableReason: () => getGeminiConfig().apiKey ? null : "Set GEMINI_API_KEY (in .env.local for the app) to enable Gemini.",
+  translate: (texts, options) => {
+    const ai = createGeminiClient(getGeminiConfig());
+    return withRetry(() => translateBatch(ai, texts, options), {
+      signal: options.signal,
+      shouldRetry: error => isTransientGeminiError(error, options.signal),
+    });
+  },
+};
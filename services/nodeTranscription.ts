@@ -0,0 +1,139 @@
+import { spawn } from 'node:child_process';
+import { openAsBlob } from 'node:fs';
+import path from 'node:path';
+import { AudioPreprocessingOptions, TranscriptionProvider } from '../types';
+import { DEFAULT_AUDIO_PREPROCESSING, TARGET_SAMPLE_RATE, preprocessSamples } from '../utils/audioUtils';
+import { DEFAULT_SEGMENTATION_OPTIONS, segmentWords } from '../utils/segmenter';
+import { DEFAULT_WHISPER_MODEL, WHISPER_MODELS, resolveWhisperModel, toWhisperResult } from './whisperProtocol';
+
+// Node-only counterparts of the browser pieces: ffmpeg replaces AudioContext, and Whisper runs in-process
+
+const MEDIA_TYPES: Record<string, string> = {
+  '.mp4': 'video/mp4',
+  '.m4v': 'video/mp4',
+  '.mov': 'video/quicktime',
+  '.webm': 'video/webm',
+  '.mkv': 'video/x-matroska',
+  '.avi': 'video/x-msvideo',
+  '.wav': 'audio/wav',
+  '.mp3': 'audio/mpeg',
+  '.m4a': 'audio/mp4',
+  '.flac': 'audio/flac',
+  '.ogg': 'audio/ogg',
+};
+
+export const MEDIA_FILE_EXTENSIONS = Object.keys(MEDIA_TYPES);
+
+// ffmpeg needs a seekable path (MP4s often keep their index at the end), so files opened here remember theirs
+const mediaPaths = new WeakMap<Blob, string>();
+
+export const openMediaFile = async (filePath: string): Promise<File> => {
+  const extension = path.extname(filePath).toLowerCase();
+  const blob = await openAsBlob(filePath);
+  const file = new File([blob], path.basename(filePath), { type: MEDIA_TYPES[extension] ?? 'application/octet-stream' });
+  mediaPaths.set(file, filePath);
+  return file;
+};
+
+const runTool = (command: string, args: string[], signal?: AbortSignal): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['ignore', 'pipe', 'pipe'], signal });
+    const output: Buffer[] = [];
+    let errors = '';
+    child.stdout.on('data', (chunk: Buffer) => output.push(chunk));
+    child.stderr.on('data', (chunk: Buffer) => { errors = (errors + chunk.toString()).slice(-2000); });
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      reject(error.code === 'ENOENT'
+        ? new Error(`${command} was not found. Install ffmpeg and make sure it is on your PATH.`)
+        : error);
+    });
+    child.on('close', code => {
+      if (code === 0) resolve(Buffer.concat(output));
+      else reject(new Error(`${command} exited with code ${code}: ${errors.trim().split('\n').pop() || 'no details'}`));
+    });
+  });
+
+const getMediaPath = (file: File) => {
+  const filePath = mediaPaths.get(file);
+  if (!filePath) throw new Error(`"${file.name}" was not opened with openMediaFile, so ffmpeg cannot read it.`);
+  return filePath;
+};
+
+/**
+ * Decodes the audio track to 16kHz mono PCM with ffmpeg, which also applies the high-pass filter.
+ * Normalization and the noise gate then run exactly as they do in the browser.
+ */
+export const decodeMediaFile = async (
+  file: File,
+  options: AudioPreprocessingOptions = DEFAULT_AUDIO_PREPROCESSING,
+  signal?: AbortSignal
+): Promise<Float32Array> => {
+  const args = ['-nostdin', '-v', 'error', '-i', getMediaPath(file), '-vn', '-ac', '1', '-ar', String(TARGET_SAMPLE_RATE)];
+  if (options.highPassHz) args.push('-af', `highpass=f=${options.highPassHz}`);
+  args.push('-f', 'f32le', 'pipe:1');
+
+  const pcm = await runTool('ffmpeg', args, signal);
+  if (pcm.length === 0) throw new Error(`"${file.name}" has no audio track.`);
+  // Copy into a fresh buffer: Node's pooled buffers may not be aligned for Float32Array
+  const samples = new Float32Array(pcm.length >> 2);
+  new Uint8Array(samples.buffer).set(pcm.subarray(0, samples.length * 4));
+  return preprocessSamples(samples, options);
+};
+
+// Media length in seconds, or undefined when ffprobe is missing or can't tell
+export const probeDuration = async (file: File): Promise<number | undefined> => {
+  try {
+    const output = await runTool('ffprobe', ['-v', 'error', '-show_entries', 'format=duration', '-of', 'csv=p=0', getMediaPath(file)]);
+    const duration = parseFloat(output.toString());
+    return Number.isFinite(duration) ? duration : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+export const nodeWhisperProvider: TranscriptionProvider = {
+  id: 'whisper',
+  label: 'Whisper (local)',
+  description: 'Free, private transcription that runs on this machine.',
+  capabilities: {
+    wordTimings: true,
+    translation: true,
+    runsLocally: true,
+    requiresApiKey: false,
+    prompting: false,
+    languages: 'any',
+  },
+  models: WHISPER_MODELS,
+  defaultModel: DEFAULT_WHISPER_MODEL,
+  unavailableReason: () => null,
+  transcribe: async (file, options = {}) => {
+    const { onProgress, onPartial, signal, segmentation = DEFAULT_SEGMENTATION_OPTIONS, task = 'transcribe' } = options;
+    const model = resolveWhisperModel(options.model, options.language, task);
+
+    onProgress?.({ stage: 'extracting-audio', message: "Extracting Audio..." });
+    const audio = await decodeMediaFile(file, options.audio ?? DEFAULT_AUDIO_PREPROCESSING, signal);
+    signal?.throwIfAborted();
+
+    onProgress?.({ stage: 'loading-model', message: `Loading AI Model (Whisper ${model.label})...` });
+    // Loaded on first use: transformers.js pulls in native modules that Gemini-only runs don't need
+    const { runWhisper } = await import('./whisperEngine');
+    const output = await runWhisper(audio, { model, language: model.englishOnly ? undefined : options.language, task }, {
+      onModelProgress: (loadedBytes, totalBytes) => onProgress?.({
+        stage: 'loading-model',
+        message: `Loading AI Model (Whisper ${model.label})...`,
+        progress: totalBytes > 0 ? loadedBytes / totalBytes : undefined,
+        loadedBytes,
+        totalBytes,
+      }),
+      onAudioProgress: (processedSeconds, totalSeconds = audio.length / TARGET_SAMPLE_RATE) => onProgress?.({
+        stage: 'transcribing',
+        message: `Transcribing Audio... ${Math.round((processedSeconds / totalSeconds) * 100)}%`,
+        progress: processedSeconds / totalSeconds,
+      }),
+      onPartial: onPartial ? words => onPartial(segmentWords(words, segmentation)) : undefined,
+    });
+
+    onProgress?.({ stage: 'formatting', message: "Formatting Subtitles..." });
+    return toWhisperResult(output, audio.length / TARGET_SAMPLE_RATE, segmentation);
+  },
+};
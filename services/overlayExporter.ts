@@ -0,0 +1,174 @@
+import { SpeakerStyles, SubtitleSegment, SubtitleStyle } from '../types';
+import { AlphaWebmFrame, muxAlphaWebm } from '../utils/alphaWebm';
+import { renderCaptionFrame } from '../utils/captionRenderer';
+import { clipSubtitlesToRange } from '../utils/segmentEditing';
+import { TimeRange } from '../utils/waveform';
+import { MAX_ZIP_ENTRIES, ZipEntry, createZip } from '../utils/zip';
+import { ExportProgress } from './videoExporter';
+
+// Renders only the caption layer on a transparent background, for compositing in another editor
+
+export type OverlayFormat = 'webm' | 'png';
+
+export interface OverlaySettings {
+  format: OverlayFormat;  // VP9 WebM with alpha, or a zipped PNG sequence
+  width: number;
+  height: number;
+  fps: number;
+}
+
+export interface OverlayOptions {
+  range?: TimeRange;      // Only this part of the timeline, with captions shifted to start at 0
+  signal?: AbortSignal;
+  onProgress?: (progress: ExportProgress) => void;
+  speakers?: SpeakerStyles;
+}
+
+export interface OverlayResult {
+  blob: Blob;
+  extension: 'webm' | 'zip';
+}
+
+export const DEFAULT_OVERLAY_SETTINGS: OverlaySettings = {
+  format: 'webm',
+  width: 1080,
+  height: 1920,
+  fps: 30,
+};
+
+const VP9_CODEC = 'vp09.00.51.08';
+const KEYFRAME_INTERVAL_SECONDS = 2;
+const MAX_ENCODE_QUEUE = 8;
+// Mostly-empty frames compress to almost nothing, so alpha needs more headroom than the colour planes
+const BITS_PER_PIXEL = 4;
+
+const getEncoderConfig = ({ width, height, fps }: OverlaySettings): VideoEncoderConfig => ({
+  codec: VP9_CODEC,
+  width,
+  height,
+  framerate: fps,
+  bitrate: Math.round(width * height * BITS_PER_PIXEL),
+  alpha: 'keep',
+});
+
+export const isAlphaWebmSupported = async (settings: OverlaySettings): Promise<boolean> => {
+  if (typeof VideoEncoder === 'undefined' || typeof VideoFrame === 'undefined') return false;
+  try {
+    return !!(await VideoEncoder.isConfigSupported(getEncoderConfig(settings))).supported;
+  } catch {
+    return false;
+  }
+};
+
+// Copies, since the encoder may reuse the buffer it hands out
+const copyBytes = (data: BufferSource): Uint8Array => ArrayBuffer.isView(data)
+  ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength).slice()
+  : new Uint8Array(data).slice();
+
+const canvasToPng = (canvas: HTMLCanvasElement): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (!blob) reject(new Error('The browser could not encode a PNG frame.'));
+      else blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject);
+    }, 'image/png');
+  });
+
+/**
+ * Draws the captions frame by frame with the same renderer as the burned-in export, but onto a cleared
+ * transparent canvas instead of the video. Needs only the captions and a duration, not the source video.
+ */
+export const exportCaptionOverlay = async (
+  subtitles: SubtitleSegment[],
+  style: SubtitleStyle,
+  duration: number,
+  settings: OverlaySettings,
+  { range, signal, onProgress, speakers }: OverlayOptions = {}
+): Promise<OverlayResult> => {
+  const { width, height, fps, format } = settings;
+  const start = Math.max(0, Math.min(range?.start ?? 0, duration));
+  const end = Math.max(start, Math.min(range?.end ?? duration, duration));
+  const length = end - start;
+  if (length <= 0) throw new Error('There is nothing to export: the timeline is empty.');
+  const totalFrames = Math.max(1, Math.ceil(length * fps));
+  const captions = range ? clipSubtitlesToRange(subtitles, start, end) : subtitles;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { alpha: true });
+  if (!ctx) throw new Error('Could not create a drawing surface for export.');
+  const frame = { width, height };
+
+  const drawFrame = (i: number) => {
+    ctx.clearRect(0, 0, width, height);
+    renderCaptionFrame(ctx, captions, i / fps, style, frame, speakers);
+  };
+
+  if (format === 'png') {
+    // Checked before rendering, rather than by createZip after every frame has been drawn
+    if (totalFrames > MAX_ZIP_ENTRIES) {
+      const maxSeconds = Math.floor(MAX_ZIP_ENTRIES / fps);
+      throw new Error(
+        `A PNG sequence holds at most ${MAX_ZIP_ENTRIES} frames, but this export needs ${totalFrames}. ` +
+        `Lower the frame rate, export a range of at most ${Math.floor(maxSeconds / 60)}m ${maxSeconds % 60}s at ${fps} fps, or export WebM instead.`
+      );
+    }
+    const entries: ZipEntry[] = [];
+    const digits = Math.max(6, String(totalFrames).length);
+    for (let i = 0; i < totalFrames; i++) {
+      signal?.throwIfAborted();
+      drawFrame(i);
+      entries.push({ name: `captions_${String(i).padStart(digits, '0')}.png`, data: await canvasToPng(canvas) });
+      onProgress?.({ renderedSeconds: Math.min(length, (i + 1) / fps), totalSeconds: length });
+    }
+    return { blob: createZip(entries), extension: 'zip' };
+  }
+
+  if (!(await isAlphaWebmSupported(settings))) {
+    throw new Error(`This browser cannot encode transparent WebM at ${width}×${height}. Export a PNG sequence instead.`);
+  }
+
+  const frames: AlphaWebmFrame[] = [];
+  let encoderError: Error | null = null;
+  let missingAlpha = false;
+  const encoder = new VideoEncoder({
+    output: (chunk, meta) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      // Not in the DOM typings yet: the alpha plane arrives as a separate VP9 frame next to the chunk
+      const alphaSideData = (meta as { alphaSideData?: BufferSource } | undefined)?.alphaSideData;
+      const alpha = alphaSideData ? copyBytes(alphaSideData) : undefined;
+      if (!alpha) missingAlpha = true;
+      frames.push({ data, alpha, timestamp: chunk.timestamp, keyFrame: chunk.type === 'key' });
+    },
+    error: e => { encoderError = e; },
+  });
+  encoder.configure(getEncoderConfig(settings));
+
+  const keyframeEvery = Math.max(1, Math.round(fps * KEYFRAME_INTERVAL_SECONDS));
+  const frameDuration = 1e6 / fps;
+  try {
+    for (let i = 0; i < totalFrames; i++) {
+      if (encoderError) throw encoderError;
+      signal?.throwIfAborted();
+      drawFrame(i);
+      const videoFrame = new VideoFrame(canvas, { timestamp: Math.round(i * frameDuration), duration: Math.round(frameDuration), alpha: 'keep' });
+      encoder.encode(videoFrame, { keyFrame: i % keyframeEvery === 0 });
+      videoFrame.close();
+
+      // Let the encoder catch up instead of queueing the whole timeline in memory
+      while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+        await new Promise(resolve => setTimeout(resolve, 1));
+      }
+      onProgress?.({ renderedSeconds: Math.min(length, (i + 1) / fps), totalSeconds: length });
+    }
+    await encoder.flush();
+  } finally {
+    if (encoder.state !== 'closed') encoder.close();
+  }
+  if (encoderError) throw encoderError;
+  // Some encoders accept alpha: 'keep' but drop the plane; a silently opaque overlay would be worse than an error
+  if (missingAlpha) throw new Error('This browser encoded the overlay without transparency. Export a PNG sequence instead.');
+
+  return { blob: muxAlphaWebm(frames, { width, height, frameRate: fps, duration: length }), extension: 'webm' };
+};
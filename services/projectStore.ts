@@ -0,0 +1,83 @@
+import { Project } from '../types';
+
+const DB_NAME = 'runnadd';
+const DB_VERSION = 1;
+// Videos live in their own store so listing projects doesn't read hundreds of megabytes
+const PROJECTS_STORE = 'projects';
+const VIDEOS_STORE = 'videos';
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!database) {
+    database = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS_STORE)) db.createObjectStore(PROJECTS_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(VIDEOS_STORE)) db.createObjectStore(VIDEOS_STORE);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error ?? new Error('Could not open the project database.'));
+    });
+    // Let a later call retry, e.g. after the user allows storage
+    database.catch(() => { database = null; });
+  }
+  return database;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Project save was aborted.'));
+  });
+
+export const createProjectId = () => crypto.randomUUID();
+
+export const saveProject = async (project: Project): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(PROJECTS_STORE, 'readwrite');
+  transaction.objectStore(PROJECTS_STORE).put(project);
+  await transactionDone(transaction);
+};
+
+export const saveProjectVideo = async (id: string, video: Blob): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(VIDEOS_STORE, 'readwrite');
+  transaction.objectStore(VIDEOS_STORE).put(video, id);
+  await transactionDone(transaction);
+};
+
+// Newest first
+export const listProjects = async (): Promise<Project[]> => {
+  const db = await openDatabase();
+  const projects = await requestToPromise<Project[]>(db.transaction(PROJECTS_STORE).objectStore(PROJECTS_STORE).getAll());
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const loadProject = async (id: string): Promise<{ project: Project; video: Blob }> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([PROJECTS_STORE, VIDEOS_STORE]);
+  const [project, video] = await Promise.all([
+    requestToPromise<Project | undefined>(transaction.objectStore(PROJECTS_STORE).get(id)),
+    requestToPromise<Blob | undefined>(transaction.objectStore(VIDEOS_STORE).get(id)),
+  ]);
+  if (!project) throw new Error('This project no longer exists.');
+  if (!video) throw new Error(`The video for "${project.name}" is missing from browser storage.`);
+  return { project, video };
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([PROJECTS_STORE, VIDEOS_STORE], 'readwrite');
+  transaction.objectStore(PROJECTS_STORE).delete(id);
+  transaction.objectStore(VIDEOS_STORE).delete(id);
+  await transactionDone(transaction);
+};
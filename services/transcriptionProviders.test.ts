@@ -0,0 +1,75 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { TranscriptionProvider, Word } from '../types';
+import { DEFAULT_SEGMENTATION_OPTIONS, segmentWords } from '../utils/segmenter';
+import { lintSubtitles } from '../utils/subtitleLint';
+import { parseSubtitles } from '../utils/subtitleParsers';
+import { toJson, toSrt } from '../utils/subtitleSerializers';
+import {
+  getTranscriptionProvider,
+  listTranscriptionProviders,
+  registerTranscriptionProvider,
+  unregisterTranscriptionProvider,
+} from './transcriptionProviders';
+
+// Canned words, spoken at an easy pace with a pause in the middle
+const WORDS: Word[] = 'Hello there. This is a stub provider, speaking slowly and clearly for the test.'
+  .split(' ')
+  .map((text, i) => {
+    const start = i * 0.4 + (i >= 2 ? 1.5 : 0);
+    return { text, start, end: start + 0.35 };
+  });
+
+const stubProvider: TranscriptionProvider = {
+  id: 'stub',
+  label: 'Stub',
+  description: 'Returns canned words.',
+  capabilities: {
+    wordTimings: true,
+    translation: false,
+    runsLocally: true,
+    requiresApiKey: false,
+    prompting: false,
+    languages: ['en'],
+  },
+  unavailableReason: () => null,
+  transcribe: async (_file, options = {}) => ({
+    language: 'en',
+    segments: segmentWords(WORDS, options.segmentation ?? DEFAULT_SEGMENTATION_OPTIONS),
+  }),
+};
+
+const video = new File([], 'clip.mp4', { type: 'video/mp4' });
+
+describe('transcription provider registry', () => {
+  const builtIn = listTranscriptionProviders().map(p => p.id);
+
+  afterEach(() => unregisterTranscriptionProvider(stubProvider.id));
+
+  it('lists a registered provider after the built-in ones, and forgets it again', () => {
+    registerTranscriptionProvider(stubProvider);
+    expect(listTranscriptionProviders().map(p => p.id)).toEqual([...builtIn, 'stub']);
+    expect(getTranscriptionProvider('stub')).toBe(stubProvider);
+
+    unregisterTranscriptionProvider('stub');
+    expect(listTranscriptionProviders().map(p => p.id)).toEqual(builtIn);
+    expect(() => getTranscriptionProvider('stub')).toThrow('Unknown transcription provider "stub"');
+  });
+
+  it('feeds the stub\'s captions through the same serializers, parsers and checks as a real run', async () => {
+    registerTranscriptionProvider(stubProvider);
+    const { segments } = await getTranscriptionProvider('stub').transcribe(video, { segmentation: DEFAULT_SEGMENTATION_OPTIONS });
+
+    expect(segments.length).toBeGreaterThan(1);
+    expect(segments[0].text).toBe('Hello there.');
+    expect(segments.map(s => s.text).join(' ')).toBe(WORDS.map(w => w.text).join(' '));
+
+    const fromSrt = parseSubtitles(toSrt(segments), 'stub.srt');
+    expect(fromSrt.map(s => s.text)).toEqual(segments.map(s => s.text));
+    fromSrt.forEach((s, i) => {
+      expect(s.startTime).toBeCloseTo(segments[i].startTime, 3);
+      expect(s.endTime).toBeCloseTo(segments[i].endTime, 3);
+    });
+    expect(parseSubtitles(toJson(segments), 'stub.json')).toEqual(segments);
+    expect(lintSubtitles(fromSrt)).toEqual([]);
+  });
+});
@@ -0,0 +1,28 @@
+import { TranscriptionProvider } from '../types';
+import { whisperProvider } from './transcriptionService';
+import { geminiProvider } from './geminiService';
+
+export const DEFAULT_PROVIDER_ID = whisperProvider.id;
+
+// Registered providers, in the order they appear in the sidebar
+const providers = new Map<string, TranscriptionProvider>();
+
+export const registerTranscriptionProvider = (provider: TranscriptionProvider) => {
+  providers.set(provider.id, provider);
+};
+
+// Lets tests swap a provider (e.g. a fake returning canned segments) and restore the original afterwards
+export const unregisterTranscriptionProvider = (id: string) => {
+  providers.delete(id);
+};
+
+export const listTranscriptionProviders = (): TranscriptionProvider[] => Array.from(providers.values());
+
+export const getTranscriptionProvider = (id: string): TranscriptionProvider => {
+  const provider = providers.get(id);
+  if (!provider) throw new Error(`Unknown transcription provider "${id}"`);
+  return provider;
+};
+
+registerTranscriptionProvider(whisperProvider);
+registerTranscriptionProvider(geminiProvider);
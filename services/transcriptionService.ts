@@ -1,111 +1,193 @@
-import { pipeline } from '@xenova/transformers';
-import { SubtitleSegment, Word } from '../types';
-import { extractAudioData } from '../utils/audioUtils';
-
-// Singleton to hold the pipeline instance
-let transcriber: any = null;
-
-const WORDS_PER_SEGMENT = 5; // Target words per subtitle segment
-
-export const generateSubtitles = async (videoFile: File, onProgress?: (msg: string) => void): Promise<SubtitleSegment[]> => {
-  try {
-    if (onProgress) onProgress("Loading AI Model (Whisper)...");
-    
-    // Initialize pipeline if not already done
-    if (!transcriber) {
-      transcriber = await pipeline('automatic-speech-recognition', 'Xenova/whisper-tiny.en');
-    }
-
-    if (onProgress) onProgress("Extracting Audio...");
-    const audioData = await extractAudioData(videoFile);
-
-    if (onProgress) onProgress("Transcribing Audio (may take a moment)...");
-    
-    // Run transcription with word-level timestamps
-    const output = await transcriber(audioData, {
-      chunk_length_s: 30,
-      stride_length_s: 5,
-      return_timestamps: 'word', 
-    });
-
-    if (onProgress) onProgress("Formatting Subtitles...");
-
-    const segments: SubtitleSegment[] = [];
-    const chunks = output.chunks || [];
-
-    // Fallback if chunks are empty but text exists
-    if (chunks.length === 0 && output.text) {
-        return [{
-            startTime: 0,
-            endTime: audioData.length / 16000,
-            text: output.text.trim()
-        }];
-    }
-
-    // Process word chunks into segments
-    let currentWords: Word[] = [];
-    let segmentStart: number | null = null;
-    let segmentEnd: number | null = null;
-
-    for (let i = 0; i < chunks.length; i++) {
-        const chunk = chunks[i];
-        const text = chunk.text;
-        const [start, end] = chunk.timestamp;
-
-        // Start of a new segment
-        if (segmentStart === null) {
-            segmentStart = start;
+import { TranscriptionOptions, TranscriptionProvider, TranscriptionResult } from '../types';
+import { DEFAULT_AUDIO_PREPROCESSING, streamAudioData } from '../utils/audioUtils';
+import { DEFAULT_SEGMENTATION_OPTIONS, segmentWords } from '../utils/segmenter';
+import {
+  DEFAULT_WHISPER_MODEL,
+  WHISPER_MODELS,
+  WHISPER_SAMPLE_RATE,
+  WhisperWorkerRequest,
+  WhisperWorkerResponse,
+  resolveWhisperModel,
+  toWhisperResult,
+} from './whisperProtocol';
+
+// Model loading and inference live in a worker so the UI stays responsive.
+// The worker keeps the loaded model between runs; cancelling terminates it.
+let worker: Worker | null = null;
+let nextJobId = 1;
+
+const getWorker = () => {
+  if (!worker) {
+    worker = new Worker(new URL('./whisperWorker.ts', import.meta.url), { type: 'module' });
+  }
+  return worker;
+};
+
+const postToWorker = (target: Worker, message: WhisperWorkerRequest, transfer: Transferable[] = []) => {
+  target.postMessage(message, transfer);
+};
+
+// Decoding runs ahead of recognition by at most this much audio, so a long file never piles up in memory
+const MAX_AUDIO_AHEAD_SECONDS = 180;
+
+const formatMegabytes = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+
+const abortError = () => new DOMException('Transcription cancelled', 'AbortError');
+
+export const generateSubtitles = async (videoFile: File, options: TranscriptionOptions = {}): Promise<TranscriptionResult> => {
+  const { onProgress, onPartial, signal, segmentation = DEFAULT_SEGMENTATION_OPTIONS, task = 'transcribe' } = options;
+  const model = resolveWhisperModel(options.model, options.language, task);
+
+  signal?.throwIfAborted();
+  const jobId = nextJobId++;
+  const target = getWorker();
+
+  return new Promise<TranscriptionResult>((resolve, reject) => {
+    let audioSamples = 0;
+    let processedSeconds = 0;
+    let settled = false;
+    // Wakes the decoding loop when recognition moves on (or the job ends)
+    let wake: (() => void) | null = null;
+    const notify = () => {
+      wake?.();
+      wake = null;
+    };
+
+    const finish = () => {
+      settled = true;
+      notify();
+      target.removeEventListener('message', handleMessage);
+      target.removeEventListener('error', handleWorkerError);
+      signal?.removeEventListener('abort', handleAbort);
+    };
+
+    const fail = (error: Error) => {
+      if (settled) return;
+      finish();
+      reject(error);
+    };
+
+    const handleAbort = () => {
+      // Inference cannot be interrupted mid-chunk, so drop the worker; the model stays in the browser cache
+      target.terminate();
+      if (worker === target) worker = null;
+      fail(abortError());
+    };
+
+    const handleWorkerError = (event: ErrorEvent) => {
+      console.error("Transcription Error:", event);
+      fail(new Error("Failed to transcribe. ensure your browser supports WebGPU or WebAssembly."));
+    };
+
+    const handleMessage = (event: MessageEvent<WhisperWorkerResponse>) => {
+      const message = event.data;
+      if ('jobId' in message && message.jobId !== undefined && message.jobId !== jobId) return;
+
+      switch (message.type) {
+        case 'model-progress':
+          if (message.modelId !== model.id || !onProgress) return;
+          onProgress({
+            stage: 'loading-model',
+            message: message.totalBytes > 0
+              ? `Downloading Whisper ${model.label}: ${formatMegabytes(message.loadedBytes)} / ${formatMegabytes(message.totalBytes)}`
+              : `Loading AI Model (Whisper ${model.label})...`,
+            progress: message.totalBytes > 0 ? message.loadedBytes / message.totalBytes : undefined,
+            loadedBytes: message.loadedBytes,
+            totalBytes: message.totalBytes,
+          });
+          return;
+        case 'model-ready':
+          return;
+        case 'progress': {
+          processedSeconds = message.processedSeconds;
+          notify();
+          const progress = message.totalSeconds ? Math.min(1, message.processedSeconds / message.totalSeconds) : undefined;
+          onProgress?.({
+            stage: 'transcribing',
+            message: progress !== undefined
+              ? `Transcribing Audio... ${Math.round(progress * 100)}%`
+              : `Transcribing Audio... ${Math.round(message.processedSeconds)}s`,
+            progress,
+          });
+          return;
         }
-
-        // Add word with timing
-        currentWords.push({
-            text: text.trim(),
-            start: start,
-            end: end
-        });
-        segmentEnd = end;
-
-        // Check if we reached the word limit or if there's a significant pause
-        const isLimitReached = currentWords.length >= WORDS_PER_SEGMENT;
-        
-        // Look ahead for pauses
-        let hasPause = false;
-        if (i < chunks.length - 1) {
-             const nextStart = chunks[i+1].timestamp[0];
-             if (nextStart - end > 0.8) { // 800ms pause
-                 hasPause = true;
-             }
+        case 'partial':
+          onPartial?.(segmentWords(message.words, segmentation));
+          return;
+        case 'result': {
+          finish();
+          onProgress?.({ stage: 'formatting', message: "Formatting Subtitles..." });
+          resolve(toWhisperResult(message, audioSamples / WHISPER_SAMPLE_RATE, segmentation));
+          return;
         }
+        case 'error':
+          console.error("Transcription Error:", message.message);
+          fail(new Error(`Failed to transcribe: ${message.message}`));
+          return;
+      }
+    };
+
+    target.addEventListener('message', handleMessage);
+    target.addEventListener('error', handleWorkerError);
+    signal?.addEventListener('abort', handleAbort);
+
+    // Start the model download while the audio is decoded on this thread (AudioContext is unavailable in workers)
+    onProgress?.({ stage: 'loading-model', message: `Loading AI Model (Whisper ${model.label})...` });
+    postToWorker(target, { type: 'load', model });
+
+    // English-only checkpoints ignore language/task; the worker handles that
+    postToWorker(target, {
+      type: 'start',
+      jobId,
+      model,
+      language: model.englishOnly ? undefined : options.language,
+      task,
+      expectedSeconds: options.duration,
+    });
 
-        if (isLimitReached || hasPause) {
-            segments.push({
-                startTime: segmentStart!,
-                endTime: segmentEnd!,
-                text: currentWords.map(w => w.text).join(' '),
-                words: [...currentWords]
-            });
-
-            // Reset
-            currentWords = [];
-            segmentStart = null;
-            segmentEnd = null;
+    // Windows go to the worker as they are decoded and are recognized there while decoding carries on
+    onProgress?.({ stage: 'extracting-audio', message: "Extracting Audio..." });
+    (async () => {
+      for await (const samples of streamAudioData(videoFile, options.audio ?? DEFAULT_AUDIO_PREPROCESSING)) {
+        if (settled) return;
+        audioSamples += samples.length;
+        if (processedSeconds === 0) {
+          onProgress?.({
+            stage: 'extracting-audio',
+            message: `Extracting Audio... ${Math.round(audioSamples / WHISPER_SAMPLE_RATE)}s`,
+          });
         }
-    }
-
-    // Add remaining words
-    if (currentWords.length > 0 && segmentStart !== null && segmentEnd !== null) {
-        segments.push({
-            startTime: segmentStart,
-            endTime: segmentEnd,
-            text: currentWords.map(w => w.text).join(' '),
-            words: [...currentWords]
-        });
-    }
-
-    return segments;
-
-  } catch (error) {
-    console.error("Transcription Error:", error);
-    throw new Error("Failed to transcribe. ensure your browser supports WebGPU or WebAssembly.");
-  }
-};
\ No newline at end of file
+        postToWorker(target, { type: 'audio', jobId, samples }, [samples.buffer]);
+        while (!settled && audioSamples / WHISPER_SAMPLE_RATE - processedSeconds > MAX_AUDIO_AHEAD_SECONDS) {
+          await new Promise<void>(resolve => { wake = resolve; });
+        }
+      }
+      if (settled) return;
+      postToWorker(target, { type: 'end', jobId });
+    })()
+      .catch(error => {
+        console.error("Audio extraction failed:", error);
+        fail(new Error(`Could not read the audio track: ${(error as Error).message}`));
+      });
+  });
+};
+
+export const whisperProvider: TranscriptionProvider = {
+  id: 'whisper',
+  label: 'Whisper (in browser)',
+  description: 'Free, private transcription that runs on this device.',
+  capabilities: {
+    wordTimings: true,
+    translation: true,
+    runsLocally: true,
+    requiresApiKey: false,
+    // The transformers.js 2.x pipeline refuses forced_decoder_ids alongside word timestamps and can't decode a
+    // <|startofprev|> prompt, so glossary terms reach Whisper output only through the corrections applied afterwards
+    prompting: false,
+    languages: 'any',
+  },
+  models: WHISPER_MODELS,
+  defaultModel: DEFAULT_WHISPER_MODEL,
+  unavailableReason: () => null,
+  transcribe: generateSubtitles,
+};
@@ -0,0 +1,78 @@
+import { SubtitleSegment, TranslationOptions, TranslationSettings, Translator } from '../types';
+import { geminiTranslator } from './geminiService';
+
+// Cues sent per request: enough context for the translator, small enough to retry cheaply
+const BATCH_SIZE = 40;
+
+// Offline placeholder: tags each cue with the target language, so the bilingual layout and tracks can be tried without a key
+export const stubTranslator: Translator = {
+  id: 'stub',
+  label: 'Placeholder (offline)',
+  description: 'Copies each caption tagged with the target language. For trying out layouts and exports.',
+  runsLocally: true,
+  unavailableReason: () => null,
+  translate: async (texts, { targetLanguage }) => texts.map(text => `[${targetLanguage.toUpperCase()}] ${text}`),
+};
+
+export const DEFAULT_TRANSLATION_SETTINGS: TranslationSettings = {
+  translatorId: geminiTranslator.id,
+  targetLanguage: 'en',
+};
+
+// Registered translators, in the order they appear in the sidebar
+const translators = new Map<string, Translator>();
+
+export const registerTranslator = (translator: Translator) => {
+  translators.set(translator.id, translator);
+};
+
+export const listTranslators = (): Translator[] => Array.from(translators.values());
+
+export const getTranslator = (id: string): Translator => {
+  const translator = translators.get(id);
+  if (!translator) throw new Error(`Unknown translator "${id}"`);
+  return translator;
+};
+
+// Thrown when a batch fails after earlier ones came back; `subtitles` carries the translations that were made
+export class PartialTranslationError extends Error {
+  subtitles: SubtitleSegment[];
+
+  constructor(subtitles: SubtitleSegment[], translated: number, total: number, cause: unknown) {
+    super(`Translated ${translated} of ${total} captions, then: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'PartialTranslationError';
+    this.subtitles = subtitles;
+  }
+}
+
+/**
+ * Fills `translation` on every segment, in batches so progress can be reported and a failure costs one batch:
+ * the batches already done come back on a PartialTranslationError, with the rest of the segments untouched.
+ * Empty captions are not sent and get an empty translation.
+ */
+export const translateSubtitles = async (
+  subtitles: SubtitleSegment[],
+  translator: Translator,
+  options: TranslationOptions
+): Promise<SubtitleSegment[]> => {
+  const pending = subtitles.map((s, index) => ({ index, text: s.text.trim() })).filter(item => item.text);
+  const translations = new Map<number, string>();
+  try {
+    for (let offset = 0; offset < pending.length; offset += BATCH_SIZE) {
+      options.signal?.throwIfAborted();
+      const batch = pending.slice(offset, offset + BATCH_SIZE);
+      const results = await translator.translate(batch.map(item => item.text), options);
+      if (results.length !== batch.length) throw new Error(`${translator.label} returned ${results.length} translations for ${batch.length} captions.`);
+      batch.forEach((item, i) => translations.set(item.index, results[i].trim()));
+      options.onProgress?.(Math.min(pending.length, offset + BATCH_SIZE), pending.length);
+    }
+  } catch (error: any) {
+    if (error?.name === 'AbortError' || translations.size === 0) throw error;
+    const partial = subtitles.map((segment, index) => (translations.has(index) ? { ...segment, translation: translations.get(index) } : segment));
+    throw new PartialTranslationError(partial, translations.size, pending.length, error);
+  }
+  return subtitles.map((segment, index) => ({ ...segment, translation: translations.get(index) ?? '' }));
+};
+
+registerTranslator(geminiTranslator);
+registerTranslator(stubTranslator);
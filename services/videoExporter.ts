@@ -0,0 +1,300 @@
+import { ArrayBufferTarget as Mp4Target, Muxer as Mp4Muxer } from 'mp4-muxer';
+import { ArrayBufferTarget as WebmTarget, Muxer as WebmMuxer } from 'webm-muxer';
+import { ReframeSettings, SpeakerStyles, SubtitleSegment, SubtitleStyle } from '../types';
+import { decodeAudioFile } from '../utils/audioUtils';
+import { renderCaptionFrame } from '../utils/captionRenderer';
+import { drawReframedFrame, getReframedSize } from '../utils/reframe';
+import { censorAudio } from '../utils/profanity';
+import { clipSubtitlesToRange } from '../utils/segmentEditing';
+import { TimeRange } from '../utils/waveform';
+
+export type ExportContainer = 'mp4' | 'webm';
+
+export interface ExportSettings {
+  container: ExportContainer;
+  maxDimension: number | 'source';  // Cap on the longer edge, keeping the aspect ratio
+  fps: number | 'source';
+  videoBitrate: number;             // Bits per second
+}
+
+export interface ExportProgress {
+  renderedSeconds: number;
+  totalSeconds: number;
+}
+
+export interface ExportOptions {
+  range?: TimeRange;                // Only this part of the source, with captions shifted to start at 0
+  signal?: AbortSignal;
+  onProgress?: (progress: ExportProgress) => void;
+  audioCensor?: { mode: 'mute' | 'bleep'; ranges: TimeRange[] };  // In source time, before the range is applied
+  speakers?: SpeakerStyles;         // Per-speaker highlight colours and placement
+}
+
+export interface ExportResult {
+  blob: Blob;
+  extension: ExportContainer;
+  silent: boolean;                  // True when the source had no audio the browser could decode
+}
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  container: 'mp4',
+  maxDimension: 'source',
+  fps: 'source',
+  videoBitrate: 16_000_000,
+};
+
+const FALLBACK_FPS = 30;
+const COMMON_FRAME_RATES = [23.976, 24, 25, 29.97, 30, 48, 50, 59.94, 60];
+const AUDIO_SAMPLE_RATE = 48000;
+const AUDIO_BITRATE = 192_000;
+const AUDIO_CHUNK_FRAMES = 4096;
+const KEYFRAME_INTERVAL_SECONDS = 2;
+const MAX_ENCODE_QUEUE = 8;
+
+// Tried in order; High profile first, Baseline for encoders that only do that
+const VIDEO_CODECS: Record<ExportContainer, { codec: string; muxerCodec: string }[]> = {
+  mp4: [
+    { codec: 'avc1.640033', muxerCodec: 'avc' },
+    { codec: 'avc1.4d0033', muxerCodec: 'avc' },
+    { codec: 'avc1.42003e', muxerCodec: 'avc' },
+  ],
+  webm: [
+    { codec: 'vp09.00.51.08', muxerCodec: 'V_VP9' },
+    { codec: 'vp8', muxerCodec: 'V_VP8' },
+  ],
+};
+
+const AUDIO_CODECS: Record<ExportContainer, { codec: string; muxerCodec: string }[]> = {
+  mp4: [
+    { codec: 'mp4a.40.2', muxerCodec: 'aac' },
+    { codec: 'opus', muxerCodec: 'opus' },
+  ],
+  webm: [{ codec: 'opus', muxerCodec: 'A_OPUS' }],
+};
+
+export const isWebCodecsExportSupported = () =>
+  typeof VideoEncoder !== 'undefined' && typeof AudioEncoder !== 'undefined' && typeof VideoFrame !== 'undefined';
+
+const even = (value: number) => Math.max(2, Math.round(value / 2) * 2);
+
+// Scales a frame down to the resolution cap; encoders want even dimensions
+export const getExportDimensions = (sourceWidth: number, sourceHeight: number, maxDimension: ExportSettings['maxDimension']) => {
+  const scale = maxDimension === 'source' ? 1 : Math.min(1, maxDimension / Math.max(sourceWidth, sourceHeight));
+  return { width: even(sourceWidth * scale), height: even(sourceHeight * scale) };
+};
+
+const loadVideo = (url: string): Promise<HTMLVideoElement> =>
+  new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+    video.onloadeddata = () => resolve(video);
+    video.onerror = () => reject(new Error('The browser could not decode this video for export.'));
+    video.src = url;
+  });
+
+const seekTo = (video: HTMLVideoElement, time: number): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const cleanup = () => {
+      video.removeEventListener('seeked', onSeeked);
+      video.removeEventListener('error', onError);
+    };
+    const onSeeked = () => { cleanup(); resolve(); };
+    const onError = () => { cleanup(); reject(new Error(`The video could not be decoded at ${time.toFixed(2)}s.`)); };
+    video.addEventListener('seeked', onSeeked);
+    video.addEventListener('error', onError);
+    video.currentTime = time;
+  });
+
+// Browsers don't expose the frame rate, so watch a few frames go by and take the shortest gap
+const detectFrameRate = async (video: HTMLVideoElement): Promise<number> => {
+  if (!('requestVideoFrameCallback' in video)) return FALLBACK_FPS;
+  const mediaTimes: number[] = [];
+  await new Promise<void>(resolve => {
+    const timeout = setTimeout(resolve, 2000);
+    const onFrame: VideoFrameRequestCallback = (_now, metadata) => {
+      mediaTimes.push(metadata.mediaTime);
+      if (mediaTimes.length >= 12) {
+        clearTimeout(timeout);
+        resolve();
+      } else {
+        video.requestVideoFrameCallback(onFrame);
+      }
+    };
+    video.requestVideoFrameCallback(onFrame);
+    video.play().catch(() => { clearTimeout(timeout); resolve(); });
+  });
+  video.pause();
+
+  const gaps = mediaTimes.slice(1).map((t, i) => t - mediaTimes[i]).filter(gap => gap > 0.001);
+  if (gaps.length === 0) return FALLBACK_FPS;
+  const measured = 1 / Math.min(...gaps);
+  const nearest = COMMON_FRAME_RATES.reduce((best, rate) => (Math.abs(rate - measured) < Math.abs(best - measured) ? rate : best));
+  return Math.abs(nearest - measured) / nearest < 0.05 ? nearest : Math.round(measured);
+};
+
+const pickConfig = async <T extends VideoEncoderConfig | AudioEncoderConfig>(
+  candidates: { codec: string; muxerCodec: string }[],
+  build: (codec: string) => T,
+  isSupported: (config: T) => Promise<{ supported?: boolean }>
+): Promise<{ config: T; muxerCodec: string } | null> => {
+  for (const candidate of candidates) {
+    const config = build(candidate.codec);
+    try {
+      if ((await isSupported(config)).supported) return { config, muxerCodec: candidate.muxerCodec };
+    } catch {
+      // Malformed or unknown codec strings throw instead of reporting unsupported
+    }
+  }
+  return null;
+};
+
+const decodeAudio = async (file: File): Promise<AudioBuffer | null> => {
+  try {
+    return await decodeAudioFile(file, AUDIO_SAMPLE_RATE);
+  } catch (e) {
+    console.warn("Runnadd AI: No decodable audio track, exporting without sound", e);
+    return null;
+  }
+};
+
+/**
+ * Renders the video with captions burned in by seeking to every output frame, drawing it and encoding
+ * it with WebCodecs, then muxing the result with the source audio. Runs as fast as the machine allows
+ * and never drops frames, unlike real-time capture.
+ */
+export const exportVideo = async (
+  file: File,
+  subtitles: SubtitleSegment[],
+  style: SubtitleStyle,
+  reframe: ReframeSettings,
+  settings: ExportSettings,
+  { range, signal, onProgress, audioCensor, speakers }: ExportOptions = {}
+): Promise<ExportResult> => {
+  const url = URL.createObjectURL(file);
+  try {
+    const video = await loadVideo(url);
+    const fps = settings.fps === 'source' ? await detectFrameRate(video) : settings.fps;
+    signal?.throwIfAborted();
+    const reframed = getReframedSize(video.videoWidth, video.videoHeight, reframe);
+    const { width, height } = getExportDimensions(reframed.width, reframed.height, settings.maxDimension);
+    const start = Math.max(0, Math.min(range?.start ?? 0, video.duration));
+    const end = Math.max(start, Math.min(range?.end ?? video.duration, video.duration));
+    const duration = end - start;
+    const totalFrames = Math.max(1, Math.floor(duration * fps));
+    const captions = range ? clipSubtitlesToRange(subtitles, start, end) : subtitles;
+
+    const videoChoice = await pickConfig<VideoEncoderConfig>(
+      VIDEO_CODECS[settings.container],
+      codec => ({ codec, width, height, bitrate: settings.videoBitrate, framerate: fps, ...(codec.startsWith('avc') ? { avc: { format: 'avc' as const } } : {}) }),
+      config => VideoEncoder.isConfigSupported(config)
+    );
+    if (!videoChoice) throw new Error(`This browser cannot encode ${settings.container.toUpperCase()} video at ${width}×${height}.`);
+
+    const audioBuffer = await decodeAudio(file);
+    signal?.throwIfAborted();
+    const channels = audioBuffer ? Math.min(2, audioBuffer.numberOfChannels) : 0;
+    if (audioBuffer && audioCensor && audioCensor.ranges.length > 0) {
+      // The decoded buffer is ours alone, so its samples can be edited in place
+      const data = Array.from({ length: channels }, (_, c) => audioBuffer.getChannelData(c));
+      censorAudio(data, AUDIO_SAMPLE_RATE, audioCensor.ranges, audioCensor.mode);
+    }
+    const audioChoice = audioBuffer
+      ? await pickConfig<AudioEncoderConfig>(
+          AUDIO_CODECS[settings.container],
+          codec => ({ codec, sampleRate: AUDIO_SAMPLE_RATE, numberOfChannels: channels, bitrate: AUDIO_BITRATE }),
+          config => AudioEncoder.isConfigSupported(config)
+        )
+      : null;
+
+    const audioTrack = audioChoice ? { numberOfChannels: channels, sampleRate: AUDIO_SAMPLE_RATE } : undefined;
+    const muxer = settings.container === 'mp4'
+      ? new Mp4Muxer({
+          target: new Mp4Target(),
+          fastStart: 'in-memory',
+          video: { codec: videoChoice.muxerCodec as 'avc', width, height, frameRate: fps },
+          audio: audioTrack && { ...audioTrack, codec: audioChoice!.muxerCodec as 'aac' | 'opus' },
+        })
+      : new WebmMuxer({
+          target: new WebmTarget(),
+          video: { codec: videoChoice.muxerCodec, width, height, frameRate: fps },
+          audio: audioTrack && { ...audioTrack, codec: audioChoice!.muxerCodec },
+        });
+
+    let encoderError: Error | null = null;
+    const fail = (e: DOMException) => { encoderError = e; };
+
+    // Audio first: it's quick, and the muxer interleaves by timestamp either way
+    if (audioBuffer && audioChoice) {
+      const audioEncoder = new AudioEncoder({ output: (chunk, meta) => muxer.addAudioChunk(chunk, meta), error: fail });
+      audioEncoder.configure(audioChoice.config);
+      const first = Math.min(audioBuffer.length, Math.round(start * AUDIO_SAMPLE_RATE));
+      const length = Math.min(audioBuffer.length - first, Math.ceil(duration * AUDIO_SAMPLE_RATE));
+      for (let offset = 0; offset < length; offset += AUDIO_CHUNK_FRAMES) {
+        const frames = Math.min(AUDIO_CHUNK_FRAMES, length - offset);
+        const planar = new Float32Array(frames * channels);
+        for (let c = 0; c < channels; c++) {
+          planar.set(audioBuffer.getChannelData(c).subarray(first + offset, first + offset + frames), c * frames);
+        }
+        const data = new AudioData({
+          format: 'f32-planar',
+          sampleRate: AUDIO_SAMPLE_RATE,
+          numberOfFrames: frames,
+          numberOfChannels: channels,
+          timestamp: Math.round((offset / AUDIO_SAMPLE_RATE) * 1e6),
+          data: planar,
+        });
+        audioEncoder.encode(data);
+        data.close();
+      }
+      await audioEncoder.flush();
+      audioEncoder.close();
+    }
+
+    const videoEncoder = new VideoEncoder({ output: (chunk, meta) => muxer.addVideoChunk(chunk, meta), error: fail });
+    videoEncoder.configure(videoChoice.config);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext('2d', { alpha: false });
+    if (!ctx) throw new Error('Could not create a drawing surface for export.');
+    const frame = { width, height };
+    const keyframeEvery = Math.max(1, Math.round(fps * KEYFRAME_INTERVAL_SECONDS));
+    const frameDuration = 1e6 / fps;
+
+    for (let i = 0; i < totalFrames; i++) {
+      if (encoderError) throw encoderError;
+      if (signal?.aborted) {
+        videoEncoder.close();
+        signal.throwIfAborted();
+      }
+      const time = i / fps;
+      await seekTo(video, start + time);
+      drawReframedFrame(ctx, video, video.videoWidth, video.videoHeight, frame, reframe, start + time);
+      renderCaptionFrame(ctx, captions, time, style, frame, speakers);
+
+      const videoFrame = new VideoFrame(canvas, { timestamp: Math.round(i * frameDuration), duration: Math.round(frameDuration) });
+      videoEncoder.encode(videoFrame, { keyFrame: i % keyframeEvery === 0 });
+      videoFrame.close();
+
+      // Let the encoder catch up instead of queueing the whole video in memory
+      while (videoEncoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+        await new Promise(resolve => setTimeout(resolve, 1));
+      }
+      onProgress?.({ renderedSeconds: Math.min(duration, (i + 1) / fps), totalSeconds: duration });
+    }
+
+    await videoEncoder.flush();
+    videoEncoder.close();
+    if (encoderError) throw encoderError;
+    muxer.finalize();
+
+    const buffer = muxer.target.buffer;
+    const mimeType = settings.container === 'mp4' ? 'video/mp4' : 'video/webm';
+    return { blob: new Blob([buffer], { type: mimeType }), extension: settings.container, silent: !audioChoice };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
@@ -0,0 +1,239 @@
+import { pipeline } from '@xenova/transformers';
+import { TranscriptionModel, TranscriptionTask, Word } from '../types';
+import { WHISPER_CHUNK_LENGTH_S, WHISPER_SAMPLE_RATE, WHISPER_STRIDE_LENGTH_S, countWhisperChunks } from './whisperProtocol';
+
+// Runs Whisper through transformers.js wherever it is loaded: the browser worker or the Node CLI
+
+export interface WhisperCallbacks {
+  onModelProgress?: (loadedBytes: number, totalBytes: number) => void;
+  // Seconds of audio recognized so far, out of the expected length when the caller knows it
+  onAudioProgress?: (processedSeconds: number, totalSeconds?: number) => void;
+  onPartial?: (words: Word[]) => void; // Words decoded so far, after each chunk
+}
+
+export interface WhisperOutput {
+  text: string;
+  words: Word[];
+  language?: string;
+}
+
+export interface WhisperJob {
+  model: TranscriptionModel;
+  language?: string;
+  task: TranscriptionTask;
+  expectedSeconds?: number;  // For progress only
+}
+
+// Audio pushed in as it is decoded, recognized a piece at a time
+export interface WhisperStream {
+  push: (samples: Float32Array) => void;
+  end: () => void;                 // No more audio; the last piece is recognized and the result settles
+  result: Promise<WhisperOutput>;  // Rejects as soon as any piece fails
+}
+
+// Audio is recognized in pieces as it arrives. Each piece is run with some context on both sides,
+// and keeps only the words that start inside the piece itself, so words cut at a boundary aren't lost or doubled.
+const PIECE_SECONDS = 60;
+const CONTEXT_SECONDS = WHISPER_STRIDE_LENGTH_S;
+
+// Singleton to hold the pipeline instance, along with the model it was loaded for
+let transcriber: Promise<any> | null = null;
+let transcriberModelId: string | null = null;
+
+export const loadWhisperModel = (model: TranscriptionModel, onProgress?: WhisperCallbacks['onModelProgress']): Promise<any> => {
+  if (transcriber && transcriberModelId === model.id) return transcriber;
+
+  // Free the previous model's ONNX sessions before loading the next one
+  const previous = transcriber;
+  const files = new Map<string, { loaded: number; total: number }>();
+
+  transcriberModelId = model.id;
+  transcriber = (async () => {
+    if (previous) await (await previous.catch(() => null))?.dispose?.();
+
+    return pipeline('automatic-speech-recognition', model.id, {
+      quantized: model.quantized,
+      progress_callback: (event: { status: string; file?: string; loaded?: number; total?: number }) => {
+        if (event.status !== 'progress' || !event.file || !onProgress) return;
+        files.set(event.file, { loaded: event.loaded ?? 0, total: event.total ?? 0 });
+        let loadedBytes = 0, totalBytes = 0;
+        files.forEach(f => { loadedBytes += f.loaded; totalBytes += f.total; });
+        onProgress(loadedBytes, totalBytes);
+      },
+    });
+  })();
+
+  // A failed load must not poison later attempts
+  transcriber.catch(() => {
+    if (transcriberModelId === model.id) {
+      transcriber = null;
+      transcriberModelId = null;
+    }
+  });
+  return transcriber;
+};
+
+// Whisper emits a <|xx|> language token right after <|startoftranscript|>
+const readLanguageToken = (tokenizer: any, tokens: number[]): string | undefined => {
+  for (const id of tokens.slice(0, 4)) {
+    const match = /^<\|([a-z]{2,3})\|>$/.exec(tokenizer.decode([Number(id)]));
+    if (match) return match[1];
+  }
+  return undefined;
+};
+
+const toWords = (chunks: { text: string; timestamp: [number, number | null] }[]): Word[] =>
+  chunks.map(chunk => ({
+    text: chunk.text.trim(),
+    start: chunk.timestamp[0],
+    // Whisper leaves the final timestamp open when audio ends mid-word
+    end: chunk.timestamp[1] ?? chunk.timestamp[0],
+  }));
+
+interface Piece {
+  audio: Float32Array;
+  offset: number;     // Seconds from the start of the file to audio[0]
+  keepFrom: number;   // Seconds: words starting in [keepFrom, keepTo) belong to this piece
+  keepTo: number;
+}
+
+/**
+ * Recognizes 16kHz mono PCM with word timestamps while it is still arriving. Only the audio not yet
+ * recognized (plus a little context) is held, and pieces run one after another in arrival order.
+ */
+export const createWhisperStream = (
+  { model, language, task, expectedSeconds }: WhisperJob,
+  callbacks: WhisperCallbacks = {}
+): WhisperStream => {
+  const pieceLength = PIECE_SECONDS * WHISPER_SAMPLE_RATE;
+  const context = CONTEXT_SECONDS * WHISPER_SAMPLE_RATE;
+
+  // Received audio from bufferStart on (in samples); everything before it has been handed to a piece
+  let buffered: Float32Array[] = [];
+  let bufferStart = 0;
+  let received = 0;
+  let cursor = 0;  // Where the next piece starts keeping words
+  let ended = false;
+
+  const words: Word[] = [];
+  const texts: string[] = [];
+  let detectedLanguage = model.englishOnly ? 'en' : language;
+  let queue = Promise.resolve();
+
+  let resolveResult: (output: WhisperOutput) => void = () => {};
+  let rejectResult: (error: unknown) => void = () => {};
+  const result = new Promise<WhisperOutput>((resolve, reject) => {
+    resolveResult = resolve;
+    rejectResult = reject;
+  });
+  let failed = false;
+
+  const cutPiece = (from: number, to: number, last: boolean): Piece => {
+    const start = Math.max(0, from - context);
+    const end = Math.min(received, to + context);
+    const audio = new Float32Array(end - start);
+    let offset = bufferStart;
+    buffered.forEach(part => {
+      const partEnd = offset + part.length;
+      if (partEnd > start && offset < end) {
+        audio.set(part.subarray(Math.max(0, start - offset), Math.min(part.length, end - offset)), Math.max(0, offset - start));
+      }
+      offset = partEnd;
+    });
+
+    // The next piece needs the context before its own start, nothing older
+    const keepFrom = to - context;
+    while (buffered.length > 0 && bufferStart + buffered[0].length <= keepFrom) {
+      bufferStart += buffered[0].length;
+      buffered.shift();
+    }
+    return {
+      audio,
+      offset: start / WHISPER_SAMPLE_RATE,
+      keepFrom: from / WHISPER_SAMPLE_RATE,
+      keepTo: last ? Infinity : to / WHISPER_SAMPLE_RATE,
+    };
+  };
+
+  const recognize = async ({ audio, offset, keepFrom, keepTo }: Piece) => {
+    const asr = await loadWhisperModel(model, callbacks.onModelProgress);
+    const timePrecision = asr.processor.feature_extractor.config.chunk_length / asr.model.config.max_source_positions;
+    const totalChunks = countWhisperChunks(audio.length);
+    const processed: any[] = [];
+    const span = Math.min(keepTo, offset + audio.length / WHISPER_SAMPLE_RATE) - keepFrom;
+    const toKept = (chunks: { text: string; timestamp: [number, number | null] }[]) =>
+      toWords(chunks)
+        .map(w => ({ ...w, start: w.start + offset, end: w.end + offset }))
+        .filter(w => w.start >= keepFrom && w.start < keepTo);
+
+    callbacks.onAudioProgress?.(keepFrom, expectedSeconds);
+    const output = await asr(audio, {
+      chunk_length_s: WHISPER_CHUNK_LENGTH_S,
+      stride_length_s: WHISPER_STRIDE_LENGTH_S,
+      return_timestamps: 'word',
+      // English-only checkpoints reject language/task tokens altogether; later pieces stay in the language the first one heard
+      ...(model.englishOnly ? {} : { language: detectedLanguage, task }),
+      chunk_callback: (chunk: any) => {
+        processed.push(chunk);
+        if (!detectedLanguage) detectedLanguage = readLanguageToken(asr.tokenizer, Array.from(chunk.tokens));
+        callbacks.onAudioProgress?.(keepFrom + span * Math.min(1, processed.length / totalChunks), expectedSeconds);
+        if (!callbacks.onPartial) return;
+
+        // Decode what we have so far, the same way the pipeline merges chunks at the end
+        const [, partial] = asr.tokenizer._decode_asr(processed, {
+          time_precision: timePrecision,
+          return_timestamps: 'word',
+          force_full_sequences: false,
+        });
+        callbacks.onPartial([...words, ...toKept(partial.chunks ?? [])]);
+      },
+    });
+
+    const kept = toKept(output.chunks ?? []);
+    words.push(...kept);
+    if (kept.length > 0) texts.push(kept.map(w => w.text).join(' '));
+    else if (!output.chunks?.length && output.text?.trim()) texts.push(output.text.trim());
+  };
+
+  const schedule = (piece: Piece) => {
+    queue = queue.then(() => (failed ? undefined : recognize(piece)));
+    queue.catch(error => {
+      if (failed) return;
+      failed = true;
+      buffered = [];
+      rejectResult(error);
+    });
+  };
+
+  return {
+    push: samples => {
+      if (ended || failed) return;
+      buffered.push(samples);
+      received += samples.length;
+      // A piece runs once the context after it has arrived too
+      while (received >= cursor + pieceLength + context) {
+        schedule(cutPiece(cursor, cursor + pieceLength, false));
+        cursor += pieceLength;
+      }
+    },
+    end: () => {
+      if (ended) return;
+      ended = true;
+      if (received > cursor) schedule(cutPiece(cursor, received, true));
+      queue.then(() => {
+        if (failed) return;
+        callbacks.onAudioProgress?.(received / WHISPER_SAMPLE_RATE, expectedSeconds);
+        resolveResult({ text: texts.join(' '), words, language: detectedLanguage });
+      }, () => {});
+    },
+    result,
+  };
+};
+
+// Recognizes audio that is already fully in memory, such as ffmpeg output in the CLI
+export const runWhisper = (audio: Float32Array, job: Omit<WhisperJob, 'expectedSeconds'>, callbacks: WhisperCallbacks = {}): Promise<WhisperOutput> => {
+  const stream = createWhisperStream({ ...job, expectedSeconds: audio.length / WHISPER_SAMPLE_RATE }, callbacks);
+  stream.push(audio);
+  stream.end();
+  return stream.result;
+};
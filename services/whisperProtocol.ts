@@ -0,0 +1,70 @@
+import { SegmentationOptions, TranscriptionModel, TranscriptionResult, TranscriptionTask, Word } from '../types';
+import { segmentWords } from '../utils/segmenter';
+
+export const WHISPER_MODELS: TranscriptionModel[] = [
+  { id: 'Xenova/whisper-tiny', label: 'Tiny (fastest, ~40MB)', englishOnly: false, quantized: true },
+  { id: 'Xenova/whisper-base', label: 'Base (balanced, ~80MB)', englishOnly: false, quantized: true },
+  { id: 'Xenova/whisper-small', label: 'Small (most accurate, ~250MB)', englishOnly: false, quantized: true },
+  { id: 'Xenova/whisper-tiny.en', label: 'Tiny English-only', englishOnly: true, quantized: true },
+];
+
+export const DEFAULT_WHISPER_MODEL = WHISPER_MODELS[0].id;
+
+// Messages the page sends to whisperWorker.ts
+export type WhisperWorkerRequest =
+  | { type: 'load'; model: TranscriptionModel }
+  // Opens a job; recognition starts as soon as enough audio has arrived
+  | {
+      type: 'start';
+      jobId: number;
+      model: TranscriptionModel;
+      language?: string;
+      task: TranscriptionTask;
+      expectedSeconds?: number;
+    }
+  // 16kHz mono PCM, sent window by window as it is decoded and transferred rather than copied
+  | { type: 'audio'; jobId: number; samples: Float32Array }
+  // Sent after the last audio window
+  | { type: 'end'; jobId: number };
+
+// Messages whisperWorker.ts sends back
+export type WhisperWorkerResponse =
+  | { type: 'model-progress'; modelId: string; loadedBytes: number; totalBytes: number }
+  | { type: 'model-ready'; modelId: string }
+  | { type: 'progress'; jobId: number; processedSeconds: number; totalSeconds?: number }
+  | { type: 'partial'; jobId: number; words: Word[] }
+  | { type: 'result'; jobId: number; text: string; words: Word[]; language?: string }
+  // jobId is missing when a background 'load' fails
+  | { type: 'error'; jobId?: number; message: string };
+
+export const WHISPER_SAMPLE_RATE = 16000;
+export const WHISPER_CHUNK_LENGTH_S = 30;
+export const WHISPER_STRIDE_LENGTH_S = 5;
+
+// Mirrors the windowing loop in transformers.js so progress can be reported per chunk
+export const countWhisperChunks = (samples: number) => {
+  const jump = (WHISPER_CHUNK_LENGTH_S - 2 * WHISPER_STRIDE_LENGTH_S) * WHISPER_SAMPLE_RATE;
+  return Math.max(1, Math.ceil(samples / jump));
+};
+
+// Shared by the browser and Node providers, so both reject the same model/language combinations
+export const resolveWhisperModel = (modelId: string | undefined, language: string | undefined, task: TranscriptionTask): TranscriptionModel => {
+  const model = WHISPER_MODELS.find(m => m.id === (modelId ?? DEFAULT_WHISPER_MODEL));
+  if (!model) throw new Error(`Unknown Whisper model "${modelId}".`);
+  if (model.englishOnly && ((language && language !== 'en') || task === 'translate')) {
+    throw new Error(`${model.label} only understands English. Pick a multilingual model for other languages or translation.`);
+  }
+  return model;
+};
+
+export const toWhisperResult = (
+  output: { text: string; words: Word[]; language?: string },
+  audioSeconds: number,
+  segmentation: SegmentationOptions
+): TranscriptionResult => ({
+  language: output.language,
+  // Fallback if word chunks are empty but text exists
+  segments: output.words.length === 0 && output.text
+    ? [{ startTime: 0, endTime: audioSeconds, text: output.text }]
+    : segmentWords(output.words, segmentation),
+});
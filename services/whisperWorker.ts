@@ -0,0 +1,59 @@
+import { env } from '@xenova/transformers';
+import { WhisperWorkerRequest, WhisperWorkerResponse } from './whisperProtocol';
+import { WhisperStream, createWhisperStream, loadWhisperModel } from './whisperEngine';
+
+// Models always come from the Hugging Face hub; the dev server would answer /models/* with index.html
+env.allowLocalModels = false;
+
+// The tsconfig only ships DOM typings, so describe the bits of the worker scope used here
+const scope = self as unknown as {
+  postMessage: (message: WhisperWorkerResponse) => void;
+  onmessage: ((event: MessageEvent<WhisperWorkerRequest>) => void) | null;
+};
+
+const post = (message: WhisperWorkerResponse) => scope.postMessage(message);
+
+// Open jobs: audio goes straight into the stream, which recognizes it piece by piece
+const streams = new Map<number, WhisperStream>();
+
+const start = (request: Extract<WhisperWorkerRequest, { type: 'start' }>) => {
+  const { jobId, model, language, task, expectedSeconds } = request;
+  const stream = createWhisperStream({ model, language, task, expectedSeconds }, {
+    onAudioProgress: (processedSeconds, totalSeconds) => post({ type: 'progress', jobId, processedSeconds, totalSeconds }),
+    onPartial: words => post({ type: 'partial', jobId, words }),
+  });
+  streams.set(jobId, stream);
+  stream.result
+    .then(output => post({ type: 'result', jobId, ...output }))
+    .catch(error => {
+      console.error("Whisper worker error:", error);
+      post({ type: 'error', jobId, message: (error as Error)?.message || String(error) });
+    })
+    .finally(() => streams.delete(jobId));
+};
+
+scope.onmessage = async (event) => {
+  const request = event.data;
+  try {
+    if (request.type === 'load') {
+      const { model } = request;
+      await loadWhisperModel(model, (loadedBytes, totalBytes) =>
+        post({ type: 'model-progress', modelId: model.id, loadedBytes, totalBytes })
+      );
+      post({ type: 'model-ready', modelId: model.id });
+    } else if (request.type === 'start') {
+      start(request);
+    } else if (request.type === 'audio') {
+      streams.get(request.jobId)?.push(request.samples);
+    } else {
+      streams.get(request.jobId)?.end();
+    }
+  } catch (error) {
+    console.error("Whisper worker error:", error);
+    post({
+      type: 'error',
+      jobId: request.type === 'load' ? undefined : request.jobId,
+      message: (error as Error)?.message || String(error),
+    });
+  }
+};
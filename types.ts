@@ -9,6 +9,99 @@ export interface SubtitleSegment {
   endTime: number;   // in seconds
   text: string;
   words?: Word[];    // Optional word-level timing
+  translation?: string; // The same cue in the project's secondary language
+  speaker?: string;  // Name of the voice speaking this cue
+}
+
+export type TextCase = 'none' | 'upper' | 'lower' | 'title';
+
+// 'custom' places the block at positionY; the safe-* anchors keep clear of platform UI (captions, buttons, progress bar)
+export type CaptionAnchor = 'custom' | 'safe-top' | 'safe-middle' | 'safe-bottom';
+
+// How each word enters or is emphasised while it is spoken
+export type WordAnimation = 'none' | 'pop' | 'bounce' | 'karaoke' | 'typewriter';
+
+// How a whole caption appears and leaves
+export type SegmentTransition = 'none' | 'fade' | 'slide';
+
+// Sizes are in pixels of a 360px wide reference frame and scale with the output width
+// Which lines a bilingual caption shows: the original only, the original over a smaller translation, or the translation only
+export type BilingualMode = 'original' | 'both' | 'translation';
+
+export interface SubtitleStyle {
+  fontFamily: string;   // Family name only; a sans-serif fallback is appended when drawing
+  fontWeight: number;
+  fontSize: number;
+  textCase: TextCase;
+  fillColor: string;
+  highlightColor: string;
+  strokeColor: string;
+  strokeWidth: number;  // Visible outline as a fraction of the font size, 0 = none
+  shadowColor: string;
+  shadowBlur: number;   // 0 with shadowOffsetY 0 = no shadow
+  shadowOffsetY: number;
+  boxColor: string | null; // Rounded background pill behind each line, null = none
+  boxOpacity: number;
+  boxPadding: number;   // Multiple of the font size
+  boxRadius: number;    // Multiple of the font size
+  lineHeight: number;   // Multiple of the font size
+  wordSpacing: number;  // Multiple of the font size
+  anchor: CaptionAnchor;
+  positionY: number;    // Bottom of the caption block as a fraction of the frame height, for anchor 'custom'
+  maxWidth: number;     // Fraction of the frame width a line may use
+  maxLines: number;     // Longer captions page through lines as words are spoken
+  wordAnimation: WordAnimation;
+  segmentTransition: SegmentTransition;
+  bilingual: BilingualMode;  // Segments without a translation always show the original
+  translationScale: number;  // Translated line size as a fraction of fontSize, in 'both' mode
+}
+
+export type OutputAspect = '9:16' | '1:1' | '4:5' | '16:9';
+
+// 'center' and 'pan' crop the source to the output aspect; 'blur' fits it whole over a blurred, zoomed copy
+export type ReframeMode = 'center' | 'pan' | 'blur';
+
+// Centre of the crop as a fraction of the source frame; the crop eases from one keyframe to the next
+export interface PanKeyframe {
+  time: number;
+  x: number;
+  y: number;
+}
+
+export interface ReframeSettings {
+  aspect: OutputAspect;
+  mode: ReframeMode;
+  keyframes: PanKeyframe[];  // Sorted by time; used by mode 'pan'
+}
+
+// How one speaker's captions differ from the shared caption style
+export interface SpeakerStyle {
+  highlightColor: string;
+  positionY: number | null;  // Bottom of the caption block as a fraction of the frame height, null = the style's own placement
+}
+
+// Keyed by the name segments carry in SubtitleSegment.speaker
+export type SpeakerStyles = Record<string, SpeakerStyle>;
+
+// Everything the undo history covers
+export interface EditorDocument {
+  subtitles: SubtitleSegment[];
+  style: SubtitleStyle;
+  reframe: ReframeSettings;
+  speakers: SpeakerStyles;
+}
+
+// Describes an undoable edit; consecutive edits with the same mergeKey inside a short window undo as one
+export interface EditDescription {
+  label: string;
+  mergeKey?: string;
+}
+
+export interface StylePreset {
+  id: string;
+  name: string;
+  builtIn?: boolean;
+  style: SubtitleStyle;
 }
 
 export interface VideoState {
@@ -26,4 +119,160 @@ export enum ProcessingStatus {
   READY = 'READY',
   RENDERING = 'RENDERING',
   ERROR = 'ERROR'
-}
\ No newline at end of file
+}
+
+export type TranscriptionStage = 'loading-model' | 'extracting-audio' | 'uploading' | 'transcribing' | 'formatting';
+
+export interface TranscriptionProgress {
+  stage: TranscriptionStage;
+  message: string;
+  progress?: number; // 0..1 when the stage can measure it
+  loadedBytes?: number; // Model download, when stage is 'loading-model'
+  totalBytes?: number;
+}
+
+export interface SegmentationOptions {
+  maxWords: number;
+  maxChars: number;            // Including spaces
+  maxDuration: number;         // seconds
+  minDuration: number;         // seconds; short cues are held on screen into the following gap
+  pauseThreshold: number;      // seconds of silence that always start a new segment
+  breakOnPunctuation: boolean; // Start a new segment after . ! ? …
+  avoidOrphans: boolean;       // Never leave a single word alone when a length limit forced the break
+}
+
+export type TranscriptionTask = 'transcribe' | 'translate';
+
+export interface AudioPreprocessingOptions {
+  normalize: boolean;    // Bring speech to a consistent loudness before recognition
+  highPassHz?: number;   // Cut rumble below this frequency, undefined = off
+  noiseGateDb?: number;  // Silence frames quieter than this (dBFS, after normalization), undefined = off
+}
+
+export interface TranscriptionOptions {
+  model?: string;      // One of the provider's TranscriptionModel ids, undefined = provider default
+  language?: string;   // ISO 639-1 code, undefined = provider default / auto-detect
+  task?: TranscriptionTask; // 'translate' produces English captions from foreign speech
+  audio?: AudioPreprocessingOptions; // Only used by providers that decode audio locally
+  segmentation?: SegmentationOptions;
+  prompt?: string;     // Names and jargon to spell correctly; only used by providers with capabilities.prompting
+  duration?: number;   // Media length in seconds, when known, so providers can reject timestamps past the end
+  signal?: AbortSignal;
+  onProgress?: (progress: TranscriptionProgress) => void;
+  onPartial?: (segments: SubtitleSegment[]) => void; // Segments finished so far, while transcription runs
+}
+
+export interface TranscriptionModel {
+  id: string;
+  label: string;
+  englishOnly: boolean;
+  quantized: boolean;
+}
+
+export interface TranscriptionResult {
+  segments: SubtitleSegment[];
+  language?: string; // ISO 639-1 code of the spoken language, when known
+}
+
+export interface TranscriptionCapabilities {
+  wordTimings: boolean;     // Fills SubtitleSegment.words
+  translation: boolean;     // Supports task: 'translate'
+  runsLocally: boolean;     // No media leaves the browser
+  requiresApiKey: boolean;
+  prompting: boolean;       // Uses TranscriptionOptions.prompt
+  languages: string[] | 'any';
+}
+
+export interface TranscriptionProvider {
+  id: string;
+  label: string;
+  description: string;
+  capabilities: TranscriptionCapabilities;
+  models?: TranscriptionModel[];
+  defaultModel?: string;
+  // Returns a reason the provider cannot be used right now, or null when it is ready
+  unavailableReason: () => string | null;
+  transcribe: (file: File, options?: TranscriptionOptions) => Promise<TranscriptionResult>;
+}
+
+// What the user picked in the sidebar, before segmentation
+export interface TranscriptionSettings {
+  providerId: string;
+  model?: string;
+  language?: string;
+  task: TranscriptionTask;
+  audio: AudioPreprocessingOptions;
+}
+
+export interface TranslationOptions {
+  sourceLanguage?: string; // ISO 639-1 code, undefined = let the translator detect it
+  targetLanguage: string;  // ISO 639-1 code
+  signal?: AbortSignal;
+  onProgress?: (translated: number, total: number) => void;
+}
+
+export interface Translator {
+  id: string;
+  label: string;
+  description: string;
+  runsLocally: boolean;
+  // Returns a reason the translator cannot be used right now, or null when it is ready
+  unavailableReason: () => string | null;
+  // One translation per input, in the same order
+  translate: (texts: string[], options: TranslationOptions) => Promise<string[]>;
+}
+
+// What the user picked in the sidebar for the secondary language
+export interface TranslationSettings {
+  translatorId: string;
+  targetLanguage: string;
+}
+
+// A find/replace rule for fixing transcription mistakes; without matchCase the replacement follows the found text's capitalisation
+export interface GlossaryRule {
+  find: string;
+  replace: string;
+  regex: boolean;
+  matchCase: boolean;
+}
+
+// Per-project vocabulary: terms are hinted to the transcriber and their spelling enforced, rules fix known mishearings
+export interface Glossary {
+  terms: string[];
+  rules: GlossaryRule[];
+}
+
+export type ProfanityMask = 'asterisks' | 'first-letter' | 'emoji';
+
+// What happens to the soundtrack under a flagged word on export
+export type ProfanityAudio = 'none' | 'mute' | 'bleep';
+
+export interface ProfanitySettings {
+  enabled: boolean;
+  mask: ProfanityMask;
+  audio: ProfanityAudio;
+  extraWords: string[];  // Added to the built-in list; a trailing * matches any ending
+  allowed: string[];     // Ids of individual hits the user un-flagged
+}
+
+// A saved editing session. The source video is stored next to it under the same id.
+export interface Project {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  videoName: string;
+  videoType: string;
+  videoSize: number;
+  duration?: number;
+  language?: string;
+  subtitles: SubtitleSegment[];
+  style: SubtitleStyle;
+  reframe: ReframeSettings;
+  speakers: SpeakerStyles;
+  transcription: TranscriptionSettings;
+  segmentation: SegmentationOptions;
+  glossary: Glossary;
+  profanity: ProfanitySettings;
+  translation: TranslationSettings;
+}
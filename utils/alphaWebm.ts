@@ -0,0 +1,160 @@
+// Minimal WebM (Matroska) writer for VP9 video with an alpha channel.
+// WebCodecs hands the alpha plane back as a second VP9 stream (alphaSideData), which WebM stores in each
+// frame's BlockAdditions; webm-muxer only sets the AlphaMode flag and has no way to write that data.
+
+export interface AlphaWebmFrame {
+  data: Uint8Array;    // VP9 colour frame
+  alpha?: Uint8Array;  // VP9 alpha frame
+  timestamp: number;   // Microseconds
+  keyFrame: boolean;
+}
+
+export interface AlphaWebmOptions {
+  width: number;
+  height: number;
+  frameRate: number;
+  duration: number;    // Seconds
+}
+
+const TIMECODE_SCALE = 1_000_000; // Block times in milliseconds
+const MAX_CLUSTER_SPAN_MS = 30_000; // Block times are 16-bit offsets from their cluster
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  parts.forEach(p => {
+    result.set(p, offset);
+    offset += p.length;
+  });
+  return result;
+};
+
+const idBytes = (id: number): Uint8Array => {
+  const bytes: number[] = [];
+  for (let value = id; value > 0; value = Math.floor(value / 256)) bytes.unshift(value & 0xFF);
+  return new Uint8Array(bytes);
+};
+
+// Element sizes always take 8 bytes: simpler than the shortest form and valid for any size
+const sizeBytes = (size: number): Uint8Array => {
+  const bytes = new Uint8Array(8);
+  bytes[0] = 0x01;
+  for (let i = 7, value = size; i > 0; i--, value = Math.floor(value / 256)) bytes[i] = value & 0xFF;
+  return bytes;
+};
+
+const element = (id: number, ...children: Uint8Array[]): Uint8Array => {
+  const body = concat(children);
+  return concat([idBytes(id), sizeBytes(body.length), body]);
+};
+
+const uint = (id: number, value: number): Uint8Array => {
+  const bytes: number[] = [];
+  for (let v = value; v > 0 || bytes.length === 0; v = Math.floor(v / 256)) bytes.unshift(v & 0xFF);
+  return element(id, new Uint8Array(bytes));
+};
+
+const int = (id: number, value: number): Uint8Array => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setInt32(0, value);
+  return element(id, bytes);
+};
+
+const float = (id: number, value: number): Uint8Array => {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return element(id, bytes);
+};
+
+const text = (id: number, value: string): Uint8Array => element(id, new TextEncoder().encode(value));
+
+// SimpleBlock can't carry BlockAdditions, so every frame is a BlockGroup; non-key frames name the frame they follow
+const blockGroup = (frame: AlphaWebmFrame, relativeMs: number, previousRelativeMs: number): Uint8Array => {
+  const header = new Uint8Array(4);
+  header[0] = 0x81; // Track 1
+  new DataView(header.buffer).setInt16(1, relativeMs);
+  header[3] = 0x00;
+  return element(0xA0,
+    element(0xA1, header, frame.data),
+    ...(frame.alpha ? [element(0x75A1, element(0xA6, uint(0xEE, 1), element(0xA5, frame.alpha)))] : []),
+    ...(frame.keyFrame ? [] : [int(0xFB, previousRelativeMs - relativeMs)]),
+  );
+};
+
+/**
+ * Muxes encoded VP9 frames (in presentation order, starting with a key frame) into a WebM file.
+ * A new cluster starts at every key frame, and each cluster gets a cue so editors can seek.
+ */
+export const muxAlphaWebm = (frames: AlphaWebmFrame[], { width, height, frameRate, duration }: AlphaWebmOptions): Blob => {
+  if (frames.length === 0 || !frames[0].keyFrame) throw new Error('A WebM file must start with a key frame.');
+
+  const header = element(0x1A45DFA3,
+    uint(0x4286, 1),        // EBMLVersion
+    uint(0x42F7, 1),        // EBMLReadVersion
+    uint(0x42F2, 4),        // EBMLMaxIDLength
+    uint(0x42F3, 8),        // EBMLMaxSizeLength
+    text(0x4282, 'webm'),   // DocType
+    uint(0x4287, 4),        // DocTypeVersion
+    uint(0x4285, 2),        // DocTypeReadVersion
+  );
+
+  const info = element(0x1549A966,
+    uint(0x2AD7B1, TIMECODE_SCALE),
+    text(0x4D80, 'Runnadd AI'),  // MuxingApp
+    text(0x5741, 'Runnadd AI'),  // WritingApp
+    float(0x4489, duration * 1000),
+  );
+
+  const tracks = element(0x1654AE6B,
+    element(0xAE,
+      uint(0xD7, 1),             // TrackNumber
+      uint(0x73C5, 1),           // TrackUID
+      uint(0x9C, 0),             // FlagLacing
+      text(0x86, 'V_VP9'),
+      uint(0x83, 1),             // TrackType: video
+      uint(0x23E383, Math.round(1e9 / frameRate)), // DefaultDuration (ns)
+      uint(0x55EE, 1),           // MaxBlockAdditionID
+      element(0xE0,
+        uint(0xB0, width),
+        uint(0xBA, height),
+        uint(0x53C0, 1),         // AlphaMode
+      ),
+    ),
+  );
+
+  const clusters: Uint8Array[] = [];
+  const cuePoints: { timeMs: number; position: number }[] = [];
+  let position = info.length + tracks.length; // Offsets in cues count from the start of the segment body
+  let index = 0;
+  let previousMs = 0;
+  while (index < frames.length) {
+    const clusterMs = Math.round(frames[index].timestamp / 1000);
+    const blocks: Uint8Array[] = [];
+    do {
+      const timeMs = Math.round(frames[index].timestamp / 1000);
+      blocks.push(blockGroup(frames[index], timeMs - clusterMs, previousMs - clusterMs));
+      previousMs = timeMs;
+      index++;
+    } while (
+      index < frames.length &&
+      !frames[index].keyFrame &&
+      Math.round(frames[index].timestamp / 1000) - clusterMs < MAX_CLUSTER_SPAN_MS
+    );
+
+    const cluster = element(0x1F43B675, uint(0xE7, clusterMs), ...blocks);
+    cuePoints.push({ timeMs: clusterMs, position });
+    clusters.push(cluster);
+    position += cluster.length;
+  }
+
+  const cues = element(0x1C53BB6B,
+    ...cuePoints.map(cue => element(0xBB,
+      uint(0xB3, cue.timeMs),
+      element(0xB7, uint(0xF7, 1), uint(0xF1, cue.position)),
+    )),
+  );
+
+  // Clusters are handed over as separate parts, so the frames are never copied into one huge buffer
+  const segmentSize = position + cues.length;
+  return new Blob([header, idBytes(0x18538067), sizeBytes(segmentSize), info, tracks, ...clusters, cues], { type: 'video/webm' });
+};
@@ -0,0 +1,81 @@
+import { ArrayBufferTarget as Mp4Target, Muxer as Mp4Muxer } from 'mp4-muxer';
+import { describe, expect, it } from 'vitest';
+import { ArrayBufferTarget as WebmTarget, Muxer as WebmMuxer } from 'webm-muxer';
+import { EncodedAudioPacket, demuxAudioTrack } from './audioDemuxer';
+
+// AAC-LC, 48kHz, stereo
+const AAC_CONFIG = new Uint8Array([0x11, 0x90]);
+const FRAME_SECONDS = 1024 / 48000;
+
+// Distinct payloads, so a packet read from the wrong offset shows up
+const packet = (i: number) => new Uint8Array(20 + (i % 7)).fill(i % 251);
+
+const collect = async (packets: AsyncGenerator<EncodedAudioPacket>) => {
+  const result: EncodedAudioPacket[] = [];
+  for await (const p of packets) result.push(p);
+  return result;
+};
+
+const buildMp4 = (count: number, fastStart: false | 'in-memory') => {
+  const muxer = new Mp4Muxer({
+    target: new Mp4Target(),
+    audio: { codec: 'aac', numberOfChannels: 2, sampleRate: 48000 },
+    fastStart,
+  });
+  for (let i = 0; i < count; i++) {
+    const meta = i === 0 ? { decoderConfig: { codec: 'mp4a.40.2', numberOfChannels: 2, sampleRate: 48000, description: AAC_CONFIG } } : undefined;
+    muxer.addAudioChunkRaw(packet(i), 'key', Math.round(i * FRAME_SECONDS * 1e6), Math.round(FRAME_SECONDS * 1e6), meta);
+  }
+  muxer.finalize();
+  return new Blob([muxer.target.buffer]);
+};
+
+const buildWebm = (count: number, withVideo: boolean) => {
+  const muxer = new WebmMuxer({
+    target: new WebmTarget(),
+    ...(withVideo ? { video: { codec: 'V_VP9', width: 16, height: 16 } } : {}),
+    audio: { codec: 'A_OPUS', numberOfChannels: 2, sampleRate: 48000 },
+  });
+  for (let i = 0; i < count; i++) {
+    const timestamp = i * 20_000;
+    if (withVideo && i % 5 === 0) muxer.addVideoChunkRaw(new Uint8Array(50).fill(0xEE), i === 0 ? 'key' : 'delta', timestamp);
+    muxer.addAudioChunkRaw(packet(i), 'key', timestamp);
+  }
+  muxer.finalize();
+  return new Blob([muxer.target.buffer]);
+};
+
+describe('demuxAudioTrack', () => {
+  it.each([
+    ['moov first', 'in-memory'],
+    ['moov last', false],
+  ] as const)('reads AAC from an MP4 with its %s', async (_, fastStart) => {
+    const track = await demuxAudioTrack(buildMp4(300, fastStart));
+    expect(track?.config).toMatchObject({ codec: 'mp4a.40.2', sampleRate: 48000, numberOfChannels: 2 });
+    expect(Array.from(new Uint8Array(track!.config.description as ArrayBuffer))).toEqual(Array.from(AAC_CONFIG));
+
+    const packets = await collect(track!.packets());
+    expect(packets).toHaveLength(300);
+    packets.forEach((p, i) => {
+      expect(Array.from(p.data)).toEqual(Array.from(packet(i)));
+      expect(p.timestamp).toBeCloseTo(i * FRAME_SECONDS, 4);
+    });
+  });
+
+  it('reads the audio track of a WebM and skips the video', async () => {
+    const track = await demuxAudioTrack(buildWebm(200, true));
+    expect(track?.config).toMatchObject({ codec: 'opus', sampleRate: 48000, numberOfChannels: 2 });
+
+    const packets = await collect(track!.packets());
+    expect(packets).toHaveLength(200);
+    packets.forEach((p, i) => {
+      expect(Array.from(p.data)).toEqual(Array.from(packet(i)));
+      expect(p.timestamp).toBeCloseTo(i * 0.02, 3);
+    });
+  });
+
+  it('returns null for files it cannot read', async () => {
+    expect(await demuxAudioTrack(new Blob([new TextEncoder().encode('RIFF....WAVEfmt ')]))).toBeNull();
+    expect(await demuxAudioTrack(new Blob([]))).toBeNull();
+  });
+});
@@ -0,0 +1,485 @@
+// Finds the audio track in MP4/MOV and WebM/MKV files and reads its encoded packets a few at a time,
+// so a WebCodecs AudioDecoder can decode long files without the whole file or its PCM in memory.
+
+export interface EncodedAudioPacket {
+  data: Uint8Array;
+  timestamp: number;  // Seconds
+}
+
+export interface DemuxedAudioTrack {
+  config: AudioDecoderConfig;
+  packets: () => AsyncGenerator<EncodedAudioPacket>;
+}
+
+// Bytes fetched per read: big enough to cover many packets, small enough not to matter
+const READ_AHEAD_BYTES = 1024 * 1024;
+
+const readBytes = async (file: Blob, start: number, end: number) =>
+  new Uint8Array(await file.slice(start, Math.min(end, file.size)).arrayBuffer());
+
+const fourCC = (bytes: Uint8Array, offset: number) =>
+  String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+
+const viewOf = (bytes: Uint8Array) => new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  parts.forEach(p => {
+    result.set(p, offset);
+    offset += p.length;
+  });
+  return result;
+};
+
+// The MPEG-4 audio object type from an AudioSpecificConfig, for the codec string (2 = AAC-LC, 5 = HE-AAC)
+const aacCodec = (config: Uint8Array) => {
+  const objectType = config[0] >> 3;
+  return `mp4a.40.${objectType === 31 ? 32 + (((config[0] & 7) << 3) | (config[1] >> 5)) : objectType}`;
+};
+
+// ---- MP4 / MOV ----
+
+interface Mp4Box {
+  type: string;
+  body: number;
+  end: number;
+}
+
+// The boxes directly inside bytes[start..end)
+const readBoxes = (bytes: Uint8Array, start: number, end: number): Mp4Box[] => {
+  const view = viewOf(bytes);
+  const boxes: Mp4Box[] = [];
+  for (let offset = start; offset + 8 <= end;) {
+    let size = view.getUint32(offset);
+    let header = 8;
+    if (size === 1) {
+      size = Number(view.getBigUint64(offset + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header || offset + size > end) break;
+    boxes.push({ type: fourCC(bytes, offset + 4), body: offset + header, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+};
+
+const childBox = (bytes: Uint8Array, parent: Mp4Box | undefined, ...path: string[]): Mp4Box | undefined =>
+  path.reduce<Mp4Box | undefined>((box, type) => box && readBoxes(bytes, box.body, box.end).find(b => b.type === type), parent);
+
+const MP4_TOP_LEVEL = ['ftyp', 'moov', 'mdat', 'free', 'skip', 'wide', 'pnot', 'uuid'];
+
+// Walks the top-level boxes with small reads and returns the whole moov box, which holds every sample table
+const readMoov = async (file: Blob): Promise<Uint8Array | null> => {
+  for (let offset = 0; offset + 8 <= file.size;) {
+    const head = await readBytes(file, offset, offset + 16);
+    const type = fourCC(head, 4);
+    if (offset === 0 && !MP4_TOP_LEVEL.includes(type)) return null;
+    let size = viewOf(head).getUint32(0);
+    if (size === 1 && head.length >= 16) size = Number(viewOf(head).getBigUint64(8));
+    else if (size === 0) size = file.size - offset;
+    if (size < 8) return null;
+    if (type === 'moov') return readBytes(file, offset, offset + size);
+    offset += size;
+  }
+  return null;
+};
+
+interface DescriptorRange {
+  tag: number;
+  body: number;
+  end: number;
+}
+
+const readDescriptor = (bytes: Uint8Array, offset: number): DescriptorRange => {
+  let size = 0;
+  let p = offset + 1;
+  for (let i = 0; i < 4; i++) {
+    const b = bytes[p++];
+    size = (size << 7) | (b & 0x7F);
+    if (!(b & 0x80)) break;
+  }
+  return { tag: bytes[offset], body: p, end: p + size };
+};
+
+// esds: ES_Descriptor > DecoderConfigDescriptor > DecoderSpecificInfo (the AudioSpecificConfig for AAC)
+const readEsds = (bytes: Uint8Array, esds: Mp4Box): { objectType: number; config?: Uint8Array } | null => {
+  const es = readDescriptor(bytes, esds.body + 4);
+  if (es.tag !== 0x03) return null;
+  const flags = bytes[es.body + 2];
+  let p = es.body + 3;
+  if (flags & 0x80) p += 2;
+  if (flags & 0x40) p += 1 + bytes[p];
+  if (flags & 0x20) p += 2;
+  const decoderConfig = readDescriptor(bytes, p);
+  if (decoderConfig.tag !== 0x04) return null;
+  const objectType = bytes[decoderConfig.body];
+  const specific = decoderConfig.body + 13 < decoderConfig.end ? readDescriptor(bytes, decoderConfig.body + 13) : null;
+  return { objectType, config: specific?.tag === 0x05 ? bytes.slice(specific.body, specific.end) : undefined };
+};
+
+// Codec string and decoder description for the first sample entry in stsd, or null for codecs WebCodecs can't take
+const readMp4AudioConfig = (bytes: Uint8Array, stsd: Mp4Box): AudioDecoderConfig | null => {
+  const entry = readBoxes(bytes, stsd.body + 8, stsd.end)[0];
+  if (!entry) return null;
+  const view = viewOf(bytes);
+  // QuickTime sound descriptions v1 and v2 add fields before the child boxes
+  const version = view.getUint16(entry.body + 8);
+  let numberOfChannels = view.getUint16(entry.body + 16);
+  let sampleRate = view.getUint16(entry.body + 24);
+  if (version === 2) {
+    sampleRate = view.getFloat64(entry.body + 32);
+    numberOfChannels = view.getUint32(entry.body + 40);
+  }
+  const children = readBoxes(bytes, entry.body + 28 + (version === 1 ? 16 : version === 2 ? 36 : 0), entry.end);
+  const child = (type: string) => children.find(b => b.type === type);
+
+  if (entry.type === 'mp4a') {
+    const esds = child('esds') ?? childBox(bytes, child('wave'), 'esds');
+    const info = esds && readEsds(bytes, esds);
+    if (!info) return null;
+    if (info.objectType === 0x69 || info.objectType === 0x6B) return { codec: 'mp3', sampleRate, numberOfChannels };
+    if (!info.config) return null;
+    return { codec: aacCodec(info.config), sampleRate, numberOfChannels, description: info.config };
+  }
+  if (entry.type === 'Opus') return { codec: 'opus', sampleRate: 48000, numberOfChannels };
+  if (entry.type === '.mp3') return { codec: 'mp3', sampleRate, numberOfChannels };
+  if (entry.type === 'fLaC') {
+    const dfla = child('dfLa');
+    if (!dfla) return null;
+    const description = concatBytes([new TextEncoder().encode('fLaC'), bytes.subarray(dfla.body + 4, dfla.end)]);
+    return { codec: 'flac', sampleRate, numberOfChannels, description };
+  }
+  return null;
+};
+
+interface SampleTable {
+  offsets: Float64Array;
+  sizes: Uint32Array;
+  times: Float64Array;  // Seconds
+}
+
+const readSampleTable = (bytes: Uint8Array, stbl: Mp4Box, timescale: number): SampleTable | null => {
+  const view = viewOf(bytes);
+  const stts = childBox(bytes, stbl, 'stts');
+  const stsc = childBox(bytes, stbl, 'stsc');
+  const stsz = childBox(bytes, stbl, 'stsz');
+  const stco = childBox(bytes, stbl, 'stco');
+  const co64 = childBox(bytes, stbl, 'co64');
+  if (!stts || !stsc || !stsz || !(stco || co64)) return null;
+
+  const count = view.getUint32(stsz.body + 8);
+  const fixedSize = view.getUint32(stsz.body + 4);
+  const sizes = new Uint32Array(count);
+  for (let i = 0; i < count; i++) sizes[i] = fixedSize || view.getUint32(stsz.body + 12 + i * 4);
+
+  const times = new Float64Array(count);
+  let sample = 0;
+  let time = 0;
+  for (let e = 0, entries = view.getUint32(stts.body + 4); e < entries; e++) {
+    const runLength = view.getUint32(stts.body + 8 + e * 8);
+    const delta = view.getUint32(stts.body + 12 + e * 8);
+    for (let i = 0; i < runLength && sample < count; i++, sample++) {
+      times[sample] = time / timescale;
+      time += delta;
+    }
+  }
+
+  const chunkTable = (stco ?? co64)!;
+  const chunkCount = view.getUint32(chunkTable.body + 4);
+  const chunkOffset = (c: number) => stco
+    ? view.getUint32(stco.body + 8 + c * 4)
+    : Number(view.getBigUint64(chunkTable.body + 8 + c * 8));
+
+  const offsets = new Float64Array(count);
+  const runs = view.getUint32(stsc.body + 4);
+  sample = 0;
+  for (let r = 0; r < runs; r++) {
+    const firstChunk = view.getUint32(stsc.body + 8 + r * 12) - 1;
+    const lastChunk = r + 1 < runs ? view.getUint32(stsc.body + 8 + (r + 1) * 12) - 1 : chunkCount;
+    const perChunk = view.getUint32(stsc.body + 12 + r * 12);
+    for (let c = firstChunk; c < lastChunk; c++) {
+      let offset = chunkOffset(c);
+      for (let i = 0; i < perChunk && sample < count; i++, sample++) {
+        offsets[sample] = offset;
+        offset += sizes[sample];
+      }
+    }
+  }
+  return sample === count ? { offsets, sizes, times } : null;
+};
+
+// Packets that sit back to back in the file (one interleaved chunk, usually) come from a single read
+async function* readMp4Packets(file: Blob, { offsets, sizes, times }: SampleTable): AsyncGenerator<EncodedAudioPacket> {
+  for (let first = 0; first < sizes.length;) {
+    let last = first + 1;
+    while (
+      last < sizes.length &&
+      offsets[last] === offsets[last - 1] + sizes[last - 1] &&
+      offsets[last] + sizes[last] - offsets[first] <= READ_AHEAD_BYTES
+    ) last++;
+    const bytes = await readBytes(file, offsets[first], offsets[last - 1] + sizes[last - 1]);
+    for (let i = first; i < last; i++) {
+      const start = offsets[i] - offsets[first];
+      yield { data: bytes.subarray(start, start + sizes[i]), timestamp: times[i] };
+    }
+    first = last;
+  }
+}
+
+const demuxMp4 = async (file: Blob): Promise<DemuxedAudioTrack | null> => {
+  const bytes = await readMoov(file);
+  if (!bytes) return null;
+  const [moov] = readBoxes(bytes, 0, bytes.length);
+  const view = viewOf(bytes);
+
+  for (const trak of readBoxes(bytes, moov.body, moov.end).filter(b => b.type === 'trak')) {
+    const mdia = childBox(bytes, trak, 'mdia');
+    const hdlr = childBox(bytes, mdia, 'hdlr');
+    const mdhd = childBox(bytes, mdia, 'mdhd');
+    const stbl = childBox(bytes, mdia, 'minf', 'stbl');
+    const stsd = childBox(bytes, stbl, 'stsd');
+    if (!hdlr || !mdhd || !stbl || !stsd || fourCC(bytes, hdlr.body + 8) !== 'soun') continue;
+
+    const timescale = view.getUint32(mdhd.body + (bytes[mdhd.body] === 1 ? 20 : 12));
+    const config = readMp4AudioConfig(bytes, stsd);
+    const table = config && timescale > 0 ? readSampleTable(bytes, stbl, timescale) : null;
+    if (!config || !table) return null;
+    return { config, packets: () => readMp4Packets(file, table) };
+  }
+  return null;
+};
+
+// ---- WebM / Matroska ----
+
+const EBML_ID = 0x1A45DFA3;
+const SEGMENT_ID = 0x18538067;
+const INFO_ID = 0x1549A966;
+const TIMECODE_SCALE_ID = 0x2AD7B1;
+const TRACKS_ID = 0x1654AE6B;
+const CLUSTER_ID = 0x1F43B675;
+const CLUSTER_TIMECODE_ID = 0xE7;
+const BLOCK_GROUP_ID = 0xA0;
+const BLOCK_ID = 0xA1;
+const SIMPLE_BLOCK_ID = 0xA3;
+
+// Elements walked into rather than over; everything that matters sits inside them
+const CONTAINER_IDS = [SEGMENT_ID, CLUSTER_ID, BLOCK_GROUP_ID];
+
+const MATROSKA_CODECS: Record<string, string> = {
+  A_OPUS: 'opus',
+  A_VORBIS: 'vorbis',
+  A_FLAC: 'flac',
+  'A_MPEG/L3': 'mp3',
+};
+
+interface Vint {
+  value: number;
+  length: number;
+  unknown: boolean;  // All value bits set: a size the muxer didn't know (live recordings)
+}
+
+// EBML variable-length integer: element ids keep their length marker, sizes drop it
+const readVint = (bytes: Uint8Array, offset: number, keepMarker: boolean): Vint | null => {
+  const first = bytes[offset];
+  let length = 1;
+  while (length <= 8 && !(first & (0x100 >> length))) length++;
+  if (length > 8 || offset + length > bytes.length) return null;
+  const mask = (0x100 >> length) - 1;
+  let value = keepMarker ? first : first & mask;
+  let unknown = (first & mask) === mask;
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + bytes[offset + i];
+    if (bytes[offset + i] !== 0xFF) unknown = false;
+  }
+  return { value, length, unknown };
+};
+
+interface EbmlElement {
+  id: number;
+  body: number;
+  end: number;
+}
+
+// Children of an element that is already in memory
+const readElements = (bytes: Uint8Array, start: number, end: number): EbmlElement[] => {
+  const elements: EbmlElement[] = [];
+  for (let offset = start; offset < end;) {
+    const id = readVint(bytes, offset, true);
+    const size = id && readVint(bytes, offset + id.length, false);
+    if (!id || !size) break;
+    const body = offset + id.length + size.length;
+    const elementEnd = size.unknown ? end : Math.min(end, body + size.value);
+    elements.push({ id: id.value, body, end: elementEnd });
+    offset = elementEnd;
+  }
+  return elements;
+};
+
+const readUint = (bytes: Uint8Array, { body, end }: { body: number; end: number } = { body: 0, end: bytes.length }) => {
+  let value = 0;
+  for (let i = body; i < end; i++) value = value * 256 + bytes[i];
+  return value;
+};
+
+const readFloat = (bytes: Uint8Array, { body, end }: EbmlElement) =>
+  end - body === 4 ? viewOf(bytes).getFloat32(body) : viewOf(bytes).getFloat64(body);
+
+const readString = (bytes: Uint8Array, { body, end }: EbmlElement) =>
+  new TextDecoder().decode(bytes.subarray(body, end)).replace(/\0+$/, '');
+
+// Keeps one read-ahead window of the file, so walking many small elements doesn't mean many reads
+const createFileReader = (file: Blob) => {
+  let bufferStart = 0;
+  let buffer = new Uint8Array(0);
+  return async (start: number, length: number): Promise<Uint8Array> => {
+    if (start < bufferStart || start + length > bufferStart + buffer.length) {
+      bufferStart = start;
+      buffer = await readBytes(file, start, start + Math.max(length, READ_AHEAD_BYTES));
+    }
+    return buffer.subarray(start - bufferStart, start - bufferStart + length);
+  };
+};
+
+interface WalkedElement extends EbmlElement {
+  start: number;
+  read: () => Promise<Uint8Array>;  // The body
+}
+
+// Walks the file flat: containers are entered, everything else is reported and stepped over
+async function* walkWebm(file: Blob, start: number): AsyncGenerator<WalkedElement> {
+  const read = createFileReader(file);
+  for (let offset = start; offset < file.size;) {
+    const head = await read(offset, 16);
+    const id = readVint(head, 0, true);
+    const size = id && readVint(head, id.length, false);
+    if (!id || !size) return;
+    const body = offset + id.length + size.length;
+    const end = size.unknown ? file.size : Math.min(file.size, body + size.value);
+    yield { id: id.value, start: offset, body, end, read: () => read(body, end - body) };
+    offset = CONTAINER_IDS.includes(id.value) ? body : end;
+  }
+}
+
+interface WebmAudioTrack {
+  number: number;
+  config: AudioDecoderConfig;
+}
+
+const readWebmAudioTrack = (bytes: Uint8Array): WebmAudioTrack | null => {
+  for (const entry of readElements(bytes, 0, bytes.length).filter(e => e.id === 0xAE)) {
+    const fields = readElements(bytes, entry.body, entry.end);
+    const field = (id: number) => fields.find(f => f.id === id);
+    const typeField = field(0x83);
+    const numberField = field(0xD7);
+    const codecField = field(0x86);
+    if (!typeField || readUint(bytes, typeField) !== 2 || !numberField || !codecField) continue;
+
+    const codecId = readString(bytes, codecField);
+    const privateField = field(0x63A2);
+    const description = privateField ? bytes.slice(privateField.body, privateField.end) : undefined;
+    const codec = codecId.startsWith('A_AAC') ? (description ? aacCodec(description) : undefined) : MATROSKA_CODECS[codecId];
+    if (!codec) return null;
+
+    const audio = field(0xE1);
+    const settings = audio ? readElements(bytes, audio.body, audio.end) : [];
+    const rateField = settings.find(s => s.id === 0xB5);
+    const channelsField = settings.find(s => s.id === 0x9F);
+    return {
+      number: readUint(bytes, numberField),
+      config: {
+        codec,
+        sampleRate: rateField ? readFloat(bytes, rateField) : 8000,
+        numberOfChannels: channelsField ? readUint(bytes, channelsField) : 1,
+        // Opus needs its OpusHead only for more than two channels, but taking it always is harmless
+        ...(description && codec !== 'mp3' ? { description } : {}),
+      },
+    };
+  }
+  return null;
+};
+
+// Frame sizes inside a laced block; header is the offset of the lace count byte
+const readLaces = (bytes: Uint8Array, lacing: number, header: number): Uint8Array[] => {
+  const count = bytes[header] + 1;
+  const sizes: number[] = [];
+  let p = header + 1;
+  if (lacing === 0x02) {
+    for (let i = 0; i < count - 1; i++) {
+      let size = 0;
+      while (bytes[p] === 0xFF) size += bytes[p++];
+      sizes.push(size + bytes[p++]);
+    }
+  } else if (lacing === 0x06) {
+    const first = readVint(bytes, p, false)!;
+    sizes.push(first.value);
+    p += first.length;
+    for (let i = 1; i < count - 1; i++) {
+      const diff = readVint(bytes, p, false)!;
+      sizes.push(sizes[i - 1] + diff.value - (Math.pow(2, 7 * diff.length - 1) - 1));
+      p += diff.length;
+    }
+  } else {
+    const size = (bytes.length - p) / count;
+    for (let i = 0; i < count - 1; i++) sizes.push(size);
+  }
+  sizes.push(bytes.length - p - sizes.reduce((sum, s) => sum + s, 0));
+
+  return sizes.map(size => {
+    const frame = bytes.subarray(p, p + size);
+    p += size;
+    return frame;
+  });
+};
+
+async function* readWebmPackets(file: Blob, start: number, track: number, timecodeScale: number): AsyncGenerator<EncodedAudioPacket> {
+  let clusterTime = 0;
+  for await (const element of walkWebm(file, start)) {
+    if (element.id === CLUSTER_TIMECODE_ID) {
+      clusterTime = readUint(await element.read());
+    } else if (element.id === SIMPLE_BLOCK_ID || element.id === BLOCK_ID) {
+      const block = await element.read();
+      const trackNumber = readVint(block, 0, false);
+      if (!trackNumber || trackNumber.value !== track) continue;
+      const header = trackNumber.length;
+      const timestamp = (clusterTime + viewOf(block).getInt16(header)) * timecodeScale / 1e9;
+      const lacing = block[header + 2] & 0x06;
+      const frames = lacing ? readLaces(block, lacing, header + 3) : [block.subarray(header + 3)];
+      // The reader reuses its buffer, so frames are copied before the next read
+      for (const frame of frames) yield { data: frame.slice(), timestamp };
+    }
+  }
+}
+
+const demuxWebm = async (file: Blob): Promise<DemuxedAudioTrack | null> => {
+  let timecodeScale = 1_000_000;
+  let track: WebmAudioTrack | null = null;
+  for await (const element of walkWebm(file, 0)) {
+    if (element.id === INFO_ID) {
+      const info = await element.read();
+      const scale = readElements(info, 0, info.length).find(e => e.id === TIMECODE_SCALE_ID);
+      if (scale) timecodeScale = readUint(info, scale);
+    } else if (element.id === TRACKS_ID) {
+      track = readWebmAudioTrack(await element.read());
+      if (!track) return null;
+    } else if (element.id === CLUSTER_ID) {
+      if (!track) return null;
+      const { number, config } = track;
+      // Clusters follow the headers, so packets are read from the first one on
+      return { config, packets: () => readWebmPackets(file, element.start, number, timecodeScale) };
+    }
+  }
+  return null;
+};
+
+/**
+ * Finds the first audio track of an MP4/MOV or WebM/MKV file and the decoder config for it.
+ * Returns null for other containers and for codecs WebCodecs doesn't decode (PCM, AC-3…).
+ */
+export const demuxAudioTrack = async (file: Blob): Promise<DemuxedAudioTrack | null> => {
+  const head = await readBytes(file, 0, 4);
+  if (head.length === 4 && viewOf(head).getUint32(0) === EBML_ID) return demuxWebm(file);
+  return demuxMp4(file);
+};
@@ -1,14 +1,317 @@
-export const extractAudioData = async (file: File): Promise<Float32Array> => {
-  // Create an AudioContext to decode the file
-  const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({
-    sampleRate: 16000, // Whisper expects 16kHz
+import { AudioPreprocessingOptions } from '../types';
+import { DemuxedAudioTrack, demuxAudioTrack } from './audioDemuxer';
+
+export const TARGET_SAMPLE_RATE = 16000; // Whisper expects 16kHz
+
+export const DEFAULT_AUDIO_PREPROCESSING: AudioPreprocessingOptions = {
+  normalize: true,
+};
+
+const WINDOW_SECONDS = 60;
+// Extra audio rendered before each window so the resampler settles before the samples we keep
+const PRE_ROLL_SECONDS = 0.25;
+const TARGET_RMS = 0.1;   // ≈ -20 dBFS
+const MAX_GAIN = 20;
+const GATE_FRAME_SECONDS = 0.02;
+const MAX_DECODE_QUEUE = 16;
+
+// Decodes every channel of a media file in one go. Whisper asks for 16kHz up front; some browsers ignore the hint and decode at the device rate
+export const decodeAudioFile = async (file: File, sampleRate = TARGET_SAMPLE_RATE): Promise<AudioBuffer> => {
+  const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate });
+  try {
+    const arrayBuffer = await file.arrayBuffer();
+    return await audioContext.decodeAudioData(arrayBuffer);
+  } finally {
+    audioContext.close().catch(() => {});
+  }
+};
+
+// A stretch of mono audio at the rate it was decoded at
+interface MonoWindow {
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+// Average every channel, so speech panned to one side is not lost
+const downmix = (buffer: AudioBuffer, start: number, end: number): Float32Array => {
+  const mono = new Float32Array(end - start);
+  const channels = buffer.numberOfChannels;
+  for (let c = 0; c < channels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = start; i < end; i++) mono[i - start] += data[i] / channels;
+  }
+  return mono;
+};
+
+const downmixAudioData = (data: AudioData): Float32Array => {
+  const mono = new Float32Array(data.numberOfFrames);
+  const plane = new Float32Array(data.numberOfFrames);
+  const channels = data.numberOfChannels;
+  for (let c = 0; c < channels; c++) {
+    data.copyTo(plane, { planeIndex: c, format: 'f32-planar' });
+    for (let i = 0; i < plane.length; i++) mono[i] += plane[i] / channels;
+  }
+  return mono;
+};
+
+// Decodes the demuxed packets with WebCodecs, holding no more than about one window of PCM at a time
+async function* decodeTrackWindows(track: DemuxedAudioTrack): AsyncGenerator<MonoWindow> {
+  const decoded: Float32Array[] = [];
+  let decodedLength = 0;
+  let sampleRate = track.config.sampleRate;
+  let decoderError: Error | null = null;
+
+  const decoder = new AudioDecoder({
+    output: data => {
+      // HE-AAC decodes at twice the rate its config states
+      sampleRate = data.sampleRate;
+      const mono = downmixAudioData(data);
+      data.close();
+      decoded.push(mono);
+      decodedLength += mono.length;
+    },
+    error: e => { decoderError = e; },
+  });
+  decoder.configure(track.config);
+
+  const take = (length: number): Float32Array => {
+    const samples = new Float32Array(length);
+    let offset = 0;
+    while (offset < length) {
+      const part = decoded[0];
+      const used = Math.min(part.length, length - offset);
+      samples.set(part.subarray(0, used), offset);
+      offset += used;
+      if (used === part.length) decoded.shift();
+      else decoded[0] = part.subarray(used);
+    }
+    decodedLength -= length;
+    return samples;
+  };
+
+  try {
+    for await (const packet of track.packets()) {
+      if (decoderError) throw decoderError;
+      decoder.decode(new EncodedAudioChunk({ type: 'key', timestamp: Math.round(packet.timestamp * 1e6), data: packet.data }));
+      // Let the decoder catch up instead of queueing the whole file
+      while (decoder.decodeQueueSize > MAX_DECODE_QUEUE) {
+        await new Promise(resolve => setTimeout(resolve, 1));
+      }
+      while (decodedLength >= WINDOW_SECONDS * sampleRate) {
+        yield { samples: take(WINDOW_SECONDS * sampleRate), sampleRate };
+      }
+    }
+    await decoder.flush();
+    if (decoderError) throw decoderError;
+    while (decodedLength > 0) {
+      yield { samples: take(Math.min(decodedLength, WINDOW_SECONDS * sampleRate)), sampleRate };
+    }
+  } finally {
+    if (decoder.state !== 'closed') decoder.close();
+  }
+}
+
+const canDecodeTrack = async (file: File): Promise<DemuxedAudioTrack | null> => {
+  if (typeof AudioDecoder === 'undefined') return null;
+  try {
+    const track = await demuxAudioTrack(file);
+    return track && (await AudioDecoder.isConfigSupported(track.config)).supported ? track : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Mono windows of about a minute at the source rate. MP4/MOV and WebM/MKV files are demuxed and decoded
+ * window by window with WebCodecs; anything else (or a browser without AudioDecoder) is decoded whole.
+ */
+async function* decodeMonoWindows(file: File): AsyncGenerator<MonoWindow> {
+  const track = await canDecodeTrack(file);
+  let yielded = false;
+  if (track) {
+    try {
+      for await (const decoded of decodeTrackWindows(track)) {
+        yielded = true;
+        yield decoded;
+      }
+      return;
+    } catch (error) {
+      // Windows already handed on can't be taken back; before the first one the whole-file decoder can still take over
+      if (yielded) throw error;
+      console.warn("WebCodecs could not decode the audio, decoding the whole file instead", error);
+    }
+  }
+
+  const buffer = await decodeAudioFile(file);
+  const windowLength = WINDOW_SECONDS * buffer.sampleRate;
+  for (let start = 0; start < buffer.length; start += windowLength) {
+    yield { samples: downmix(buffer, start, Math.min(buffer.length, start + windowLength)), sampleRate: buffer.sampleRate };
+  }
+}
+
+const getNormalizationGain = (rms: number) => rms > 0 ? Math.min(MAX_GAIN, TARGET_RMS / rms) : 1;
+
+const applyGain = (samples: Float32Array, gain: number) => {
+  for (let i = 0; i < samples.length; i++) samples[i] = Math.max(-1, Math.min(1, samples[i] * gain));
+};
+
+// Resamples one mono window to 16kHz with an OfflineAudioContext
+const renderWindow = async (mono: Float32Array, sampleRate: number): Promise<Float32Array> => {
+  const outputLength = Math.ceil(mono.length * TARGET_SAMPLE_RATE / sampleRate);
+  const offline = new OfflineAudioContext(1, outputLength, TARGET_SAMPLE_RATE);
+  const input = offline.createBuffer(1, mono.length, sampleRate);
+  input.copyToChannel(mono, 0);
+
+  const source = offline.createBufferSource();
+  source.buffer = input;
+  source.connect(offline.destination);
+  source.start();
+
+  const rendered = await offline.startRendering();
+  return rendered.getChannelData(0);
+};
+
+// Second-order high-pass (RBJ cookbook) whose state carries over from one window to the next
+const createHighPass = (cutoffHz: number) => {
+  const w = 2 * Math.PI * cutoffHz / TARGET_SAMPLE_RATE;
+  const alpha = Math.sin(w) / Math.SQRT2;
+  const cos = Math.cos(w);
+  const a0 = 1 + alpha;
+  const b0 = (1 + cos) / 2 / a0, b1 = -(1 + cos) / a0, b2 = (1 + cos) / 2 / a0;
+  const a1 = -2 * cos / a0, a2 = (1 - alpha) / a0;
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  return (samples: Float32Array) => {
+    for (let i = 0; i < samples.length; i++) {
+      const x = samples[i];
+      const y = b0 * x + b1 * x1 + b2 * x2 - a1 * y1 - a2 * y2;
+      x2 = x1; x1 = x;
+      y2 = y1; y1 = y;
+      samples[i] = y;
+    }
+  };
+};
+
+// Frame-based gate with a one-frame fade so cut-offs don't click
+const applyNoiseGate = (samples: Float32Array, thresholdDb: number) => {
+  const threshold = Math.pow(10, thresholdDb / 20);
+  const frame = Math.round(GATE_FRAME_SECONDS * TARGET_SAMPLE_RATE);
+  let previousGain = 1;
+  for (let start = 0; start < samples.length; start += frame) {
+    const end = Math.min(samples.length, start + frame);
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+    const gain = Math.sqrt(sum / (end - start)) < threshold ? 0 : 1;
+    for (let i = start; i < end; i++) {
+      const t = (i - start) / (end - start);
+      samples[i] *= previousGain + (gain - previousGain) * t;
+    }
+    previousGain = gain;
+  }
+};
+
+// 16kHz mono windows exactly as decoded, before any filtering or loudness changes
+async function* streamRawAudio(file: File): AsyncGenerator<Float32Array> {
+  let tail = new Float32Array(0);
+  for await (const { samples, sampleRate } of decodeMonoWindows(file)) {
+    if (sampleRate === TARGET_SAMPLE_RATE) {
+      yield samples;
+      continue;
+    }
+    // Render with the end of the previous window in front, so the resampler settles before the samples we keep
+    const preRoll = tail.length;
+    const input = new Float32Array(preRoll + samples.length);
+    input.set(tail);
+    input.set(samples, preRoll);
+    tail = samples.slice(Math.max(0, samples.length - Math.round(PRE_ROLL_SECONDS * sampleRate)));
+
+    const rendered = await renderWindow(input, sampleRate);
+    const skip = Math.round(preRoll * TARGET_SAMPLE_RATE / sampleRate);
+    yield rendered.slice(skip, skip + Math.round(samples.length * TARGET_SAMPLE_RATE / sampleRate));
+  }
+}
+
+// Each file's PCM from streamRawAudio, kept for as long as the File itself so it is only ever decoded once
+const decodedAudio = new WeakMap<File, Float32Array>();
+
+const concatenate = (windows: Float32Array[]): Float32Array => {
+  const joined = new Float32Array(windows.reduce((sum, w) => sum + w.length, 0));
+  let offset = 0;
+  windows.forEach(w => {
+    joined.set(w, offset);
+    offset += w.length;
   });
+  return joined;
+};
+
+// Replays the cached PCM when there is some; otherwise decodes and caches it once the whole file has been read
+async function* streamDecodedAudio(file: File): AsyncGenerator<Float32Array> {
+  const cached = decodedAudio.get(file);
+  if (cached) {
+    const windowLength = WINDOW_SECONDS * TARGET_SAMPLE_RATE;
+    // Copies, since the preprocessing works in place
+    for (let start = 0; start < cached.length; start += windowLength) yield cached.slice(start, start + windowLength);
+    return;
+  }
+  const windows: Float32Array[] = [];
+  for await (const samples of streamRawAudio(file)) {
+    windows.push(samples.slice());
+    yield samples;
+  }
+  decodedAudio.set(file, concatenate(windows));
+}
+
+/**
+ * Decodes a media file into 16kHz mono PCM, yielding it in windows of about a minute as it is decoded,
+ * so long sources reach the transcriber piece by piece. Loudness follows the audio heard so far.
+ */
+export async function* streamAudioData(
+  file: File,
+  options: AudioPreprocessingOptions = DEFAULT_AUDIO_PREPROCESSING
+): AsyncGenerator<Float32Array> {
+  const highPass = options.highPassHz ? createHighPass(options.highPassHz) : null;
+  let sumOfSquares = 0;
+  let sampleCount = 0;
+
+  for await (const samples of streamDecodedAudio(file)) {
+    highPass?.(samples);
+    if (options.normalize) {
+      for (let i = 0; i < samples.length; i++) sumOfSquares += samples[i] * samples[i];
+      sampleCount += samples.length;
+      const gain = getNormalizationGain(sampleCount > 0 ? Math.sqrt(sumOfSquares / sampleCount) : 0);
+      if (gain !== 1) applyGain(samples, gain);
+    }
+    if (options.noiseGateDb !== undefined) applyNoiseGate(samples, options.noiseGateDb);
+
+    yield samples;
+  }
+}
 
-  const arrayBuffer = await file.arrayBuffer();
-  const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
-  
-  // Get raw PCM data from the first channel
-  let audioData = audioBuffer.getChannelData(0);
+/**
+ * 16kHz mono PCM exactly as decoded, for the waveform and speaker detection. Reuses what transcription
+ * decoded when it has run on the same file. The array is shared between callers, so don't modify it.
+ */
+export const getDecodedAudio = async (file: File): Promise<Float32Array> => {
+  if (!decodedAudio.has(file)) {
+    // Reading the stream to the end is what fills the cache
+    for await (const _ of streamDecodedAudio(file)) continue;
+  }
+  return decodedAudio.get(file)!;
+};
 
-  return audioData;
-};
\ No newline at end of file
+/**
+ * Normalization and gating for audio that is already 16kHz mono, such as ffmpeg output in the CLI.
+ * Resampling and the high-pass filter are left to whatever decoded it. Works in place.
+ */
+export const preprocessSamples = (
+  samples: Float32Array,
+  options: AudioPreprocessingOptions = DEFAULT_AUDIO_PREPROCESSING
+): Float32Array => {
+  if (options.normalize) {
+    let sum = 0;
+    for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+    const gain = getNormalizationGain(samples.length > 0 ? Math.sqrt(sum / samples.length) : 0);
+    if (gain !== 1) applyGain(samples, gain);
+  }
+  if (options.noiseGateDb !== undefined) applyNoiseGate(samples, options.noiseGateDb);
+  return samples;
+};
@@ -0,0 +1,102 @@
+import { SegmentTransition, WordAnimation } from '../types';
+
+// Every state here is a pure function of the playback time, so a stuttering preview
+// and the frame-by-frame export land on identical frames for the same timestamp.
+
+export interface WordAnimationState {
+  opacity: number;
+  scale: number;         // Around the word's bottom centre
+  offsetY: number;       // Multiple of the font size, positive moves down
+  fill: number;          // Share of the word painted in the highlight colour, left to right
+  visibleChars: number;  // Characters drawn so far, Infinity for the whole word
+}
+
+export interface SegmentTransitionState {
+  opacity: number;
+  offsetY: number;       // Multiple of the font size, positive moves down
+}
+
+const POP_IN_SECONDS = 0.12;
+const POP_OUT_SECONDS = 0.1;
+const POP_SCALE = 0.18;
+const BOUNCE_SECONDS = 0.35;
+const BOUNCE_HEIGHT = 0.5;
+const TYPEWRITER_MAX_SECONDS = 0.3;
+const TRANSITION_SECONDS = 0.15;
+const SLIDE_DISTANCE = 0.4;
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+// Fraction of `duration` elapsed since `from`, clamped to 0..1
+const progress = (time: number, from: number, duration: number) =>
+  duration > 0 ? clamp01((time - from) / duration) : time >= from ? 1 : 0;
+
+export const easeOutCubic = (t: number) => 1 - Math.pow(1 - t, 3);
+
+// Overshoots to about 1.1 before settling, for the pop
+export const easeOutBack = (t: number) => {
+  const c1 = 1.70158;
+  const c3 = c1 + 1;
+  return 1 + c3 * Math.pow(t - 1, 3) + c1 * Math.pow(t - 1, 2);
+};
+
+export const easeOutBounce = (t: number) => {
+  const n1 = 7.5625;
+  const d1 = 2.75;
+  if (t < 1 / d1) return n1 * t * t;
+  if (t < 2 / d1) return n1 * (t -= 1.5 / d1) * t + 0.75;
+  if (t < 2.5 / d1) return n1 * (t -= 2.25 / d1) * t + 0.9375;
+  return n1 * (t -= 2.625 / d1) * t + 0.984375;
+};
+
+export const getWordAnimationState = (
+  animation: WordAnimation,
+  word: { text: string; start: number; end: number; highlighted: boolean },
+  time: number
+): WordAnimationState => {
+  const state: WordAnimationState = { opacity: 1, scale: 1, offsetY: 0, fill: word.highlighted ? 1 : 0, visibleChars: Infinity };
+  const duration = Math.max(0, word.end - word.start);
+
+  switch (animation) {
+    case 'pop': {
+      if (time < word.start) return state;
+      const popIn = (t: number) => easeOutBack(progress(t, word.start, POP_IN_SECONDS));
+      // Shrink back from wherever the pop got to, so short words don't jump
+      const amount = time < word.end
+        ? popIn(time)
+        : popIn(word.end) * (1 - easeOutCubic(progress(time, word.end, POP_OUT_SECONDS)));
+      return { ...state, scale: 1 + POP_SCALE * amount };
+    }
+    case 'bounce': {
+      if (time < word.start) return { ...state, opacity: 0 };
+      const t = progress(time, word.start, BOUNCE_SECONDS);
+      return { ...state, opacity: clamp01(t * 4), offsetY: -BOUNCE_HEIGHT * (1 - easeOutBounce(t)) };
+    }
+    case 'karaoke':
+      return { ...state, fill: progress(time, word.start, duration) };
+    case 'typewriter': {
+      if (time < word.start) return { ...state, opacity: 0, visibleChars: 0 };
+      const typing = Math.min(TYPEWRITER_MAX_SECONDS, duration);
+      return { ...state, visibleChars: Math.ceil(word.text.length * progress(time, word.start, typing)) };
+    }
+    default:
+      return state;
+  }
+};
+
+export const getSegmentTransitionState = (
+  transition: SegmentTransition,
+  segment: { startTime: number; endTime: number },
+  time: number
+): SegmentTransitionState => {
+  if (transition === 'none') return { opacity: 1, offsetY: 0 };
+  // Very short captions split their time between coming in and going out
+  const duration = Math.min(TRANSITION_SECONDS, (segment.endTime - segment.startTime) / 2);
+  const enter = easeOutCubic(progress(time, segment.startTime, duration));
+  const leave = easeOutCubic(progress(segment.endTime - time, 0, duration));
+  const visibility = Math.min(enter, leave);
+  return {
+    opacity: visibility,
+    offsetY: transition === 'slide' ? (1 - visibility) * SLIDE_DISTANCE : 0,
+  };
+};
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { SubtitleSegment, SubtitleStyle } from '../types';
+import { DEFAULT_SUBTITLE_STYLE, FrameSize, layoutCaption, renderCaptionFrame } from './captionRenderer';
+
+interface DrawnText {
+  text: string;
+  x: number;
+  y: number;
+  scale: number;
+}
+
+// Records where text lands, following the translate/scale calls drawWord makes; glyphs are 0.6em wide
+const createRecordingContext = () => {
+  const drawn: DrawnText[] = [];
+  let transform = { scale: 1, x: 0, y: 0 };
+  const saved: typeof transform[] = [];
+  const context = {
+    font: '',
+    measureText: (text: string) => ({ width: text.length * parseFloat(/(\d+(\.\d+)?)px/.exec(context.font)![1]) * 0.6 }),
+    save: () => { saved.push({ ...transform }); },
+    restore: () => { transform = saved.pop()!; },
+    translate: (x: number, y: number) => {
+      transform = { ...transform, x: transform.x + transform.scale * x, y: transform.y + transform.scale * y };
+    },
+    scale: (s: number) => { transform = { ...transform, scale: transform.scale * s }; },
+    fillText: (text: string, x: number, y: number) => {
+      drawn.push({ text, x: transform.x + transform.scale * x, y: transform.y + transform.scale * y, scale: transform.scale });
+    },
+    strokeText: () => {},
+    beginPath: () => {},
+    roundRect: () => {},
+    rect: () => {},
+    clip: () => {},
+    fill: () => {},
+  };
+  return { ctx: context as unknown as CanvasRenderingContext2D, drawn };
+};
+
+const measure = (text: string, font: string) => text.length * parseFloat(/(\d+(\.\d+)?)px/.exec(font)![1]) * 0.6;
+
+const words = 'the quick brown fox jumps over the lazy dog and keeps running far away'.split(' ');
+const segment: SubtitleSegment = {
+  startTime: 0,
+  endTime: words.length * 0.4,
+  text: words.join(' '),
+  words: words.map((text, i) => ({ text, start: i * 0.4, end: (i + 1) * 0.4 })),
+  translation: 'le renard brun rapide saute par-dessus le chien paresseux',
+};
+
+const style: SubtitleStyle = { ...DEFAULT_SUBTITLE_STYLE, maxLines: 3, boxColor: '#000000', wordAnimation: 'pop' };
+
+// The preview draws at the player's CSS size; the export at the output resolution
+const SIZES: [string, FrameSize, FrameSize][] = [
+  ['9:16', { width: 360, height: 640 }, { width: 1080, height: 1920 }],
+  ['16:9', { width: 640, height: 360 }, { width: 1920, height: 1080 }],
+];
+
+describe('preview and export layout', () => {
+  it.each(SIZES)('breaks lines and places words the same way at %s', (_, preview, output) => {
+    const ratio = output.width / preview.width;
+    [0.1, 1.9, 4.5].forEach(time => {
+      const small = layoutCaption(segment, time, style, preview, measure)!;
+      const large = layoutCaption(segment, time, style, output, measure)!;
+
+      expect(large.lines.map(l => l.words.map(w => w.text))).toEqual(small.lines.map(l => l.words.map(w => w.text)));
+      expect(large.translation!.lines.map(l => l.text)).toEqual(small.translation!.lines.map(l => l.text));
+      expect(large.fontSize).toBeCloseTo(small.fontSize * ratio, 6);
+      large.lines.forEach((line, i) => {
+        expect(line.y).toBeCloseTo(small.lines[i].y * ratio, 6);
+        line.words.forEach((word, j) => {
+          expect(word.x).toBeCloseTo(small.lines[i].words[j].x * ratio, 6);
+          expect(word.highlighted).toBe(small.lines[i].words[j].highlighted);
+        });
+      });
+    });
+  });
+
+  it.each(SIZES)('draws every word at the same relative spot at %s', (_, preview, output) => {
+    const ratio = output.width / preview.width;
+    const previewCanvas = createRecordingContext();
+    const exportCanvas = createRecordingContext();
+    renderCaptionFrame(previewCanvas.ctx, [segment], 2.05, style, preview);
+    renderCaptionFrame(exportCanvas.ctx, [segment], 2.05, style, output);
+
+    expect(exportCanvas.drawn.length).toBeGreaterThan(0);
+    expect(exportCanvas.drawn.map(d => d.text)).toEqual(previewCanvas.drawn.map(d => d.text));
+    exportCanvas.drawn.forEach((d, i) => {
+      expect(d.x).toBeCloseTo(previewCanvas.drawn[i].x * ratio, 6);
+      expect(d.y).toBeCloseTo(previewCanvas.drawn[i].y * ratio, 6);
+      expect(d.scale).toBeCloseTo(previewCanvas.drawn[i].scale, 6);
+    });
+  });
+
+  it('wraps to more than one line, so the comparison covers line breaks', () => {
+    const layout = layoutCaption(segment, 0.1, style, SIZES[0][1], measure)!;
+    expect(layout.lines.length).toBeGreaterThan(1);
+    expect(layout.translation!.lines.length).toBeGreaterThan(1);
+  });
+});
@@ -0,0 +1,380 @@
+import { SpeakerStyles, SubtitleSegment, SubtitleStyle, TextCase } from '../types';
+import { WordAnimationState, getSegmentTransitionState, getWordAnimationState } from './captionAnimation';
+
+// The look both the preview and the export shipped with before styles were configurable
+export const DEFAULT_SUBTITLE_STYLE: SubtitleStyle = {
+  fontFamily: 'Inter',
+  fontWeight: 900,
+  fontSize: 30,
+  textCase: 'upper',
+  fillColor: '#FFFFFF',
+  highlightColor: '#EAB308',
+  strokeColor: '#000000',
+  strokeWidth: 0.08,
+  shadowColor: '#000000',
+  shadowBlur: 0,
+  shadowOffsetY: 0,
+  boxColor: null,
+  boxOpacity: 0.8,
+  boxPadding: 0.25,
+  boxRadius: 0.3,
+  lineHeight: 1.2,
+  wordSpacing: 0.3,
+  anchor: 'custom',
+  positionY: 0.8,
+  maxWidth: 0.9,
+  maxLines: 2,
+  wordAnimation: 'none',
+  segmentTransition: 'none',
+  bilingual: 'both',
+  translationScale: 0.7,
+};
+
+// Regions of a 9:16 frame that TikTok, Reels and Shorts leave free of their own UI
+export const SAFE_AREA_TOP = 0.14;
+export const SAFE_AREA_BOTTOM = 0.74;
+
+export const REFERENCE_WIDTH = 360;
+const MIN_STROKE_PX = 2; // At reference width
+
+export interface FrameSize {
+  width: number;
+  height: number;
+}
+
+// Returns the advance width of text drawn with a CSS font shorthand
+export type TextMeasurer = (text: string, font: string) => number;
+
+export interface WordLayout {
+  index: number;       // Position in the segment's word list
+  text: string;
+  x: number;           // Left edge
+  width: number;
+  highlighted: boolean;
+  start: number;
+  end: number;
+  animation: WordAnimationState;
+}
+
+export interface LineLayout {
+  x: number;           // Left edge of the first word
+  y: number;           // Bottom of the line (textBaseline 'bottom')
+  width: number;
+  height: number;
+  words: WordLayout[];
+}
+
+// A translated line: drawn whole, since its words have no timings of their own
+export interface TextLineLayout {
+  x: number;
+  y: number;           // Bottom of the line
+  width: number;
+  height: number;
+  text: string;
+}
+
+export interface TranslationLayout {
+  font: string;
+  fontSize: number;
+  strokeWidth: number;
+  lines: TextLineLayout[];
+}
+
+export interface CaptionLayout {
+  font: string;
+  fontSize: number;
+  scale: number;       // Frame width / reference width
+  strokeWidth: number; // Canvas lineWidth; half of it sits outside the glyph
+  lines: LineLayout[]; // Empty when only the translation is shown
+  translation: TranslationLayout | null; // Below the original lines, or alone in 'translation' mode
+  style: SubtitleStyle;
+  opacity: number;     // Segment transition, multiplied into every word and box
+}
+
+export const getActiveSegment = (subtitles: SubtitleSegment[], time: number) =>
+  subtitles.find(s => time >= s.startTime && time <= s.endTime);
+
+export const getSegmentWords = (segment: SubtitleSegment): string[] =>
+  segment.words ? segment.words.map(w => w.text) : segment.text.split(' ').filter(Boolean);
+
+// Index of the last word that has started, -1 before the first one
+export const getHighlightedIndex = (segment: SubtitleSegment, time: number): number => {
+  if (segment.words) {
+    // Precise word-level highlighting: highlight as soon as a word starts
+    return segment.words.filter(w => time >= w.start).length - 1;
+  }
+  // Fallback: Linear interpolation
+  const duration = segment.endTime - segment.startTime;
+  const progress = Math.max(0, Math.min(1, (time - segment.startTime) / duration));
+  return Math.floor(progress * getSegmentWords(segment).length);
+};
+
+// Word timings for drawing; segments without them share their time out evenly, matching getHighlightedIndex
+const getWordTimings = (segment: SubtitleSegment): { start: number; end: number }[] => {
+  if (segment.words) return segment.words;
+  const count = getSegmentWords(segment).length;
+  const step = (segment.endTime - segment.startTime) / Math.max(1, count);
+  return Array.from({ length: count }, (_, i) => ({
+    start: segment.startTime + i * step,
+    end: segment.startTime + (i + 1) * step,
+  }));
+};
+
+export const applyTextCase = (text: string, textCase: TextCase): string => {
+  switch (textCase) {
+    case 'upper':
+      return text.toUpperCase();
+    case 'lower':
+      return text.toLowerCase();
+    case 'title':
+      return text.replace(/\S+/g, w => w.charAt(0).toUpperCase() + w.slice(1).toLowerCase());
+    default:
+      return text;
+  }
+};
+
+export const buildFont = (style: SubtitleStyle, fontSize: number) =>
+  `${style.fontWeight} ${fontSize}px "${style.fontFamily}", sans-serif`;
+
+// Bottom edge of a caption block of the given height
+const resolveBlockBottom = (style: SubtitleStyle, frame: FrameSize, blockHeight: number) => {
+  switch (style.anchor) {
+    case 'safe-top':
+      return frame.height * SAFE_AREA_TOP + blockHeight;
+    case 'safe-middle':
+      return frame.height / 2 + blockHeight / 2;
+    case 'safe-bottom':
+      return frame.height * SAFE_AREA_BOTTOM;
+    default:
+      return frame.height * style.positionY;
+  }
+};
+
+// Shrinks the font when a single word is wider than a line, rather than letting it overflow
+const fitFont = (style: SubtitleStyle, fontSize: number, texts: string[], maxLineWidth: number, measure: TextMeasurer) => {
+  let font = buildFont(style, fontSize);
+  let widths = texts.map(t => measure(t, font));
+  const widest = Math.max(...widths);
+  if (widest > maxLineWidth) {
+    fontSize *= maxLineWidth / widest;
+    font = buildFont(style, fontSize);
+    widths = texts.map(t => measure(t, font));
+  }
+  return { fontSize, font, widths };
+};
+
+// Greedy wrap into rows of word indices
+const wrapRows = (widths: number[], spacing: number, maxLineWidth: number): number[][] => {
+  const rows: number[][] = [];
+  let row: number[] = [];
+  let rowWidth = 0;
+  widths.forEach((width, i) => {
+    const added = row.length === 0 ? width : rowWidth + spacing + width;
+    if (row.length > 0 && added > maxLineWidth) {
+      rows.push(row);
+      row = [i];
+      rowWidth = width;
+    } else {
+      row.push(i);
+      rowWidth = added;
+    }
+  });
+  rows.push(row);
+  return rows;
+};
+
+const getStrokeWidth = (style: SubtitleStyle, fontSize: number, scale: number) =>
+  style.strokeWidth > 0 ? Math.max(MIN_STROKE_PX * scale, fontSize * style.strokeWidth) * 2 : 0;
+
+// Wraps a translation into centred lines; `y` is filled in once the whole block is placed
+const layoutTranslation = (
+  text: string,
+  style: SubtitleStyle,
+  baseFontSize: number,
+  scale: number,
+  frame: FrameSize,
+  measure: TextMeasurer
+): TranslationLayout => {
+  const texts = applyTextCase(text, style.textCase).split(/\s+/).filter(Boolean);
+  const maxLineWidth = frame.width * style.maxWidth;
+  const { fontSize, font, widths } = fitFont(style, baseFontSize, texts, maxLineWidth, measure);
+  const spacing = fontSize * style.wordSpacing;
+  const lineHeight = fontSize * style.lineHeight;
+  const lines = wrapRows(widths, spacing, maxLineWidth).map(indices => {
+    const width = indices.reduce((sum, i) => sum + widths[i], 0) + spacing * (indices.length - 1);
+    return { x: (frame.width - width) / 2, y: 0, width, height: lineHeight, text: indices.map(i => texts[i]).join(' ') };
+  });
+  return { font, fontSize, strokeWidth: getStrokeWidth(style, fontSize, scale), lines };
+};
+
+/**
+ * Positions every word of the segment active at `time` inside a frame.
+ * Pure apart from `measure`, so the preview and the export get the same result for the same inputs.
+ */
+export const layoutCaption = (
+  segment: SubtitleSegment,
+  time: number,
+  style: SubtitleStyle,
+  frame: FrameSize,
+  measure: TextMeasurer
+): CaptionLayout | null => {
+  const translationText = style.bilingual !== 'original' ? segment.translation?.trim() : undefined;
+  const showOriginal = !translationText || style.bilingual === 'both';
+  const texts = showOriginal ? getSegmentWords(segment).map(w => applyTextCase(w, style.textCase)) : [];
+  if (texts.length === 0 && !translationText) return null;
+
+  const scale = frame.width / REFERENCE_WIDTH;
+  const maxLineWidth = frame.width * style.maxWidth;
+  const { fontSize, font, widths } = fitFont(style, style.fontSize * scale, texts, maxLineWidth, measure);
+
+  const spacing = fontSize * style.wordSpacing;
+  const highlightedIndex = getHighlightedIndex(segment, time);
+  const timings = getWordTimings(segment);
+  const transition = getSegmentTransitionState(style.segmentTransition, segment, time);
+
+  // Too many lines: show the page of maxLines that holds the word being spoken
+  const rows = texts.length > 0 ? wrapRows(widths, spacing, maxLineWidth) : [];
+  const maxLines = Math.max(1, style.maxLines);
+  const activeRow = Math.max(0, rows.findIndex(r => r.includes(Math.max(0, highlightedIndex))));
+  const pageStart = Math.floor(activeRow / maxLines) * maxLines;
+  const visibleRows = rows.slice(pageStart, pageStart + maxLines);
+
+  // Shown alone, the translation takes the full caption size
+  const translation = translationText
+    ? layoutTranslation(translationText, style, fontSize * (showOriginal ? style.translationScale : 1), scale, frame, measure)
+    : null;
+  const translationHeight = translation ? translation.lines.reduce((sum, line) => sum + line.height, 0) : 0;
+
+  const lineHeight = fontSize * style.lineHeight;
+  const blockBottom = resolveBlockBottom(style, frame, visibleRows.length * lineHeight + translationHeight) + transition.offsetY * fontSize;
+  const bottom = blockBottom - translationHeight;
+  translation?.lines.forEach((line, i) => { line.y = bottom + (i + 1) * line.height; });
+
+  const lines = visibleRows.map((indices, lineIndex) => {
+    const width = indices.reduce((sum, i) => sum + widths[i], 0) + spacing * (indices.length - 1);
+    const lineX = (frame.width - width) / 2;
+    let x = lineX;
+    const words = indices.map(i => {
+      const { start, end } = timings[i];
+      const highlighted = i <= highlightedIndex;
+      const animation = getWordAnimationState(style.wordAnimation, { text: texts[i], start, end, highlighted }, time);
+      const word: WordLayout = { index: i, text: texts[i], x, width: widths[i], highlighted, start, end, animation };
+      x += widths[i] + spacing;
+      return word;
+    });
+    return { x: lineX, y: bottom - (visibleRows.length - 1 - lineIndex) * lineHeight, width, height: lineHeight, words };
+  });
+
+  return { font, fontSize, scale, strokeWidth: getStrokeWidth(style, fontSize, scale), lines, translation, style, opacity: transition.opacity };
+};
+
+const drawBoxes = (ctx: CanvasRenderingContext2D, layout: CaptionLayout) => {
+  const { style, fontSize } = layout;
+  if (!style.boxColor) return;
+  const padding = fontSize * style.boxPadding;
+  ctx.save();
+  ctx.globalAlpha = style.boxOpacity * layout.opacity;
+  ctx.fillStyle = style.boxColor;
+  [...layout.lines, ...(layout.translation?.lines ?? [])].forEach(line => {
+    ctx.beginPath();
+    ctx.roundRect(line.x - padding, line.y - line.height, line.width + padding * 2, line.height, fontSize * style.boxRadius);
+    ctx.fill();
+  });
+  ctx.restore();
+};
+
+const drawWord = (ctx: CanvasRenderingContext2D, layout: CaptionLayout, line: LineLayout, word: WordLayout) => {
+  const { style, fontSize } = layout;
+  const { animation } = word;
+  const text = word.text.slice(0, animation.visibleChars);
+  if (!text || animation.opacity <= 0) return;
+
+  ctx.save();
+  ctx.globalAlpha = layout.opacity * animation.opacity;
+  // Scale around the bottom centre so the word grows in place
+  ctx.translate(word.x + word.width / 2, line.y + animation.offsetY * fontSize);
+  ctx.scale(animation.scale, animation.scale);
+  const x = -word.width / 2;
+
+  // Stroke first so the fill covers its inner half, like CSS paint-order: stroke fill
+  if (layout.strokeWidth > 0) ctx.strokeText(text, x, 0);
+  ctx.fillStyle = animation.fill >= 1 ? style.highlightColor : style.fillColor;
+  ctx.fillText(text, x, 0);
+
+  // Partly sung words get the highlight clipped to the part already spoken
+  if (animation.fill > 0 && animation.fill < 1) {
+    ctx.shadowColor = 'transparent';
+    ctx.beginPath();
+    ctx.rect(x, -line.height * 2, word.width * animation.fill, line.height * 3);
+    ctx.clip();
+    ctx.fillStyle = style.highlightColor;
+    ctx.fillText(text, x, 0);
+  }
+  ctx.restore();
+};
+
+export const drawCaption = (ctx: CanvasRenderingContext2D, layout: CaptionLayout) => {
+  const { style } = layout;
+  if (layout.opacity <= 0) return;
+  drawBoxes(ctx, layout);
+
+  ctx.save();
+  ctx.font = layout.font;
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'bottom';
+  ctx.lineJoin = 'round';
+  ctx.lineWidth = layout.strokeWidth;
+  ctx.strokeStyle = style.strokeColor;
+  if (style.shadowBlur > 0 || style.shadowOffsetY !== 0) {
+    ctx.shadowColor = style.shadowColor;
+    ctx.shadowBlur = style.shadowBlur * layout.scale;
+    ctx.shadowOffsetY = style.shadowOffsetY * layout.scale;
+  }
+
+  layout.lines.forEach(line => line.words.forEach(word => drawWord(ctx, layout, line, word)));
+
+  const { translation } = layout;
+  if (translation) {
+    ctx.globalAlpha = layout.opacity;
+    ctx.font = translation.font;
+    ctx.lineWidth = translation.strokeWidth;
+    ctx.fillStyle = style.fillColor;
+    translation.lines.forEach(line => {
+      if (translation.strokeWidth > 0) ctx.strokeText(line.text, line.x, line.y);
+      ctx.fillText(line.text, line.x, line.y);
+    });
+  }
+  ctx.restore();
+};
+
+export const createCanvasMeasurer = (ctx: CanvasRenderingContext2D): TextMeasurer => (text, font) => {
+  ctx.font = font;
+  return ctx.measureText(text).width;
+};
+
+// The segment's speaker's highlight colour and placement, over the shared style
+export const applySpeakerStyle = (style: SubtitleStyle, segment: SubtitleSegment, speakers?: SpeakerStyles): SubtitleStyle => {
+  const own = segment.speaker ? speakers?.[segment.speaker] : undefined;
+  if (!own) return style;
+  return {
+    ...style,
+    highlightColor: own.highlightColor,
+    ...(own.positionY !== null ? { anchor: 'custom' as const, positionY: own.positionY } : {}),
+  };
+};
+
+// Lays out and draws whatever caption is active at `time`; shared by the preview overlay and the export loop
+export const renderCaptionFrame = (
+  ctx: CanvasRenderingContext2D,
+  subtitles: SubtitleSegment[],
+  time: number,
+  style: SubtitleStyle,
+  frame: FrameSize,
+  speakers?: SpeakerStyles
+): CaptionLayout | null => {
+  const segment = getActiveSegment(subtitles, time);
+  if (!segment) return null;
+  const layout = layoutCaption(segment, time, applySpeakerStyle(style, segment, speakers), frame, createCanvasMeasurer(ctx));
+  if (layout) drawCaption(ctx, layout);
+  return layout;
+};
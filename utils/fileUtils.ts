@@ -1,18 +1,12 @@
-export const fileToBase64 = (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => {
-      if (typeof reader.result === 'string') {
-        // Remove the Data-URI prefix (e.g. "data:video/mp4;base64,") to get raw base64
-        const base64Content = reader.result.split(',')[1];
-        resolve(base64Content);
-      } else {
-        reject(new Error('Failed to convert file to base64'));
-      }
-    };
-    reader.onerror = (error) => reject(error);
-  });
+// Reads the bytes directly rather than through FileReader, so this also works in Node
+export const fileToBase64 = async (file: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = '';
+  // String.fromCharCode takes the bytes as arguments, so feed it in slices that stay under the call stack limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
 };
 
 export const formatTime = (seconds: number): string => {
@@ -20,4 +14,35 @@ export const formatTime = (seconds: number): string => {
   const secs = Math.floor(seconds % 60);
   const ms = Math.floor((seconds % 1) * 100);
   return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}.${ms.toString().padStart(2, '0')}`;
-};
\ No newline at end of file
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+// Duration from the file's own metadata, read on a detached element so it doesn't depend on the player having loaded.
+// Undefined when the browser can't tell (some recordings only report Infinity until played through)
+export const readMediaDuration = (file: Blob): Promise<number | undefined> =>
+  new Promise(resolve => {
+    const url = URL.createObjectURL(file);
+    const video = document.createElement('video');
+    const done = (duration?: number) => {
+      // Emptying the source can fire another error, which must not land here again
+      video.onloadedmetadata = video.onerror = null;
+      video.removeAttribute('src');
+      video.load();
+      URL.revokeObjectURL(url);
+      resolve(duration !== undefined && Number.isFinite(duration) ? duration : undefined);
+    };
+    video.preload = 'metadata';
+    video.onloadedmetadata = () => done(video.duration);
+    video.onerror = () => done();
+    video.src = url;
+  });
@@ -0,0 +1,47 @@
+// Google Fonts offered in the style panel, with the weights each family actually ships
+export const GOOGLE_FONTS: Record<string, number[]> = {
+  'Inter': [400, 600, 800, 900],
+  'Montserrat': [400, 600, 800, 900],
+  'Poppins': [400, 600, 800, 900],
+  'Roboto': [400, 700, 900],
+  'Oswald': [400, 600, 700],
+  'Anton': [400],
+  'Bebas Neue': [400],
+  'Bangers': [400],
+};
+
+const requestedStylesheets = new Set<string>();
+const customFonts = new Set<string>();
+
+export const listCustomFonts = () => Array.from(customFonts);
+
+// Resolves once the family/weight can be measured and drawn on canvas
+export const ensureFontLoaded = async (family: string, weight: number): Promise<void> => {
+  const weights = GOOGLE_FONTS[family];
+  if (weights && !requestedStylesheets.has(family)) {
+    requestedStylesheets.add(family);
+    const link = document.createElement('link');
+    link.rel = 'stylesheet';
+    link.href = `https://fonts.googleapis.com/css2?family=${encodeURIComponent(family)}:wght@${weights.join(';')}&display=swap`;
+    document.head.appendChild(link);
+    await new Promise<void>(resolve => {
+      link.onload = () => resolve();
+      link.onerror = () => resolve();
+    });
+  }
+  try {
+    await document.fonts.load(`${weight} 32px "${family}"`);
+  } catch (e) {
+    console.warn(`Font "${family}" could not be loaded, falling back to sans-serif`, e);
+  }
+};
+
+// Registers an uploaded TTF/OTF/WOFF file under its file name and returns the family name to use
+export const loadCustomFont = async (file: File): Promise<string> => {
+  const family = file.name.replace(/\.(ttf|otf|woff2?)$/i, '');
+  const face = new FontFace(family, await file.arrayBuffer());
+  await face.load();
+  document.fonts.add(face);
+  customFonts.add(family);
+  return family;
+};
@@ -0,0 +1,129 @@
+import { Glossary, GlossaryRule, SubtitleSegment } from '../types';
+import { isRecord } from './subtitleParsers';
+import { updateSegmentText } from './wordTimings';
+
+export const EMPTY_GLOSSARY: Glossary = { terms: [], rules: [] };
+
+export interface ReplaceOptions {
+  regex: boolean;
+  matchCase: boolean;   // Without it matching ignores case and the replacement follows the found text's case
+  wholeWord: boolean;
+}
+
+export interface ReplaceResult {
+  subtitles: SubtitleSegment[];
+  count: number;
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Throws with a readable message when `find` is not a valid regular expression
+export const compilePattern = (find: string, { regex, matchCase, wholeWord }: ReplaceOptions): RegExp => {
+  const source = regex ? find : escapeRegExp(find);
+  // \b only knows ASCII word characters, so look at the neighbouring characters' Unicode classes instead
+  const bounded = wholeWord ? `(?<![\\p{L}\\p{N}])(?:${source})(?![\\p{L}\\p{N}])` : source;
+  try {
+    return new RegExp(bounded, matchCase ? 'gu' : 'giu');
+  } catch (e) {
+    throw new Error(`"${find}" is not a valid pattern: ${(e as Error).message}`);
+  }
+};
+
+// "RUN AD" -> "RUNNADD", "Run ad" -> "Runnadd"; anything else keeps the replacement as typed, so "iPhone" survives
+const followCase = (found: string, replacement: string) => {
+  const letters = found.replace(/[^\p{L}]/gu, '');
+  if (letters.length > 1 && letters === letters.toUpperCase() && letters !== letters.toLowerCase()) return replacement.toUpperCase();
+  const first = letters[0];
+  if (first && first !== first.toLowerCase() && replacement) return replacement[0].toUpperCase() + replacement.slice(1);
+  return replacement;
+};
+
+const replaceInText = (text: string, pattern: RegExp, replacement: string, options: ReplaceOptions) => {
+  let count = 0;
+  // The same pattern without 'g', to expand $1-style references against a single match
+  const single = new RegExp(pattern.source, pattern.flags.replace('g', ''));
+  const next = text.replace(pattern, (found: string) => {
+    count++;
+    const expanded = options.regex ? found.replace(single, replacement) : replacement;
+    return options.matchCase ? expanded : followCase(found, expanded);
+  });
+  return { text: next, count };
+};
+
+// Indices of segments with at least one match, and the total number of matches
+export const findInSubtitles = (subtitles: SubtitleSegment[], find: string, options: ReplaceOptions) => {
+  const pattern = compilePattern(find, options);
+  const segments: number[] = [];
+  let total = 0;
+  subtitles.forEach((segment, index) => {
+    const matches = segment.text.match(pattern)?.filter(m => m.length > 0).length ?? 0;
+    if (matches > 0) segments.push(index);
+    total += matches;
+  });
+  return { segments, total };
+};
+
+// Rewrites matching text in every segment; word timings are reconciled so karaoke and the timeline stay right
+export const replaceInSubtitles = (
+  subtitles: SubtitleSegment[],
+  find: string,
+  replacement: string,
+  options: ReplaceOptions
+): ReplaceResult => {
+  if (!find) return { subtitles, count: 0 };
+  const pattern = compilePattern(find, options);
+  let count = 0;
+  const next = subtitles.map(segment => {
+    const result = replaceInText(segment.text, pattern, replacement, options);
+    if (result.count === 0 || result.text === segment.text) return segment;
+    count += result.count;
+    return updateSegmentText(segment, result.text);
+  });
+  return { subtitles: count > 0 ? next : subtitles, count };
+};
+
+export const validateGlossaryRule = (rule: GlossaryRule): string | null => {
+  if (!rule.find) return 'Enter the text to find.';
+  try {
+    compilePattern(rule.find, { regex: rule.regex, matchCase: rule.matchCase, wholeWord: !rule.regex });
+    return null;
+  } catch (e) {
+    return (e as Error).message;
+  }
+};
+
+// Terms enforce their own spelling; rules run after them, in order. Invalid rules are skipped.
+export const applyGlossary = (subtitles: SubtitleSegment[], glossary: Glossary): ReplaceResult => {
+  const termRules: GlossaryRule[] = glossary.terms.map(term => ({ find: term, replace: term, regex: false, matchCase: false }));
+  return [...termRules, ...glossary.rules].reduce<ReplaceResult>((result, rule) => {
+    if (validateGlossaryRule(rule)) return result;
+    // Plain rules match whole words, so "Al" doesn't rewrite "Always"
+    const applied = replaceInSubtitles(result.subtitles, rule.find, rule.replace, { regex: rule.regex, matchCase: rule.matchCase, wholeWord: !rule.regex });
+    return { subtitles: applied.subtitles, count: result.count + applied.count };
+  }, { subtitles, count: 0 });
+};
+
+// Spellings to hint to a transcriber that accepts a prompt
+export const buildGlossaryPrompt = (glossary: Glossary): string | undefined => {
+  const spellings = new Set<string>(glossary.terms);
+  glossary.rules.forEach(rule => {
+    if (!rule.regex && rule.replace.trim()) spellings.add(rule.replace.trim());
+  });
+  return spellings.size > 0 ? Array.from(spellings).join(', ') : undefined;
+};
+
+export const parseGlossaryTerms = (text: string): string[] =>
+  Array.from(new Set(text.split(/[,\n]/).map(t => t.trim()).filter(Boolean)));
+
+// For glossaries read from storage or a bundle
+export const sanitizeGlossary = (input: unknown): Glossary => {
+  const source = isRecord(input) ? input : {};
+  return {
+    terms: Array.isArray(source.terms) ? source.terms.filter((t): t is string => typeof t === 'string' && t.trim() !== '') : [],
+    rules: Array.isArray(source.rules)
+      ? source.rules
+          .filter((r): r is Record<string, unknown> & { find: string; replace: string } => isRecord(r) && typeof r.find === 'string' && typeof r.replace === 'string')
+          .map(r => ({ find: r.find, replace: r.replace, regex: r.regex === true, matchCase: r.matchCase === true }))
+      : [],
+  };
+};
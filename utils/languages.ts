@@ -0,0 +1,29 @@
+// Languages offered in the sidebar, keyed by the ISO 639-1 codes both Whisper and Gemini understand
+export const LANGUAGE_NAMES: Record<string, string> = {
+  en: 'English',
+  hi: 'Hindi',
+  es: 'Spanish',
+  pt: 'Portuguese',
+  fr: 'French',
+  de: 'German',
+  it: 'Italian',
+  nl: 'Dutch',
+  ru: 'Russian',
+  uk: 'Ukrainian',
+  pl: 'Polish',
+  tr: 'Turkish',
+  ar: 'Arabic',
+  ur: 'Urdu',
+  bn: 'Bengali',
+  ta: 'Tamil',
+  te: 'Telugu',
+  mr: 'Marathi',
+  id: 'Indonesian',
+  vi: 'Vietnamese',
+  th: 'Thai',
+  ja: 'Japanese',
+  ko: 'Korean',
+  zh: 'Chinese',
+};
+
+export const getLanguageName = (code?: string) => (code && LANGUAGE_NAMES[code]) || code || 'Unknown';
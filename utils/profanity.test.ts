@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { ProfanitySettings, SubtitleSegment } from '../types';
+import { DEFAULT_PROFANITY_SETTINGS, findProfanity, maskProfanity, maskToken } from './profanity';
+
+const settings = (overrides: Partial<ProfanitySettings> = {}): ProfanitySettings => ({
+  ...DEFAULT_PROFANITY_SETTINGS,
+  enabled: true,
+  ...overrides,
+});
+
+const timed: SubtitleSegment = {
+  startTime: 0,
+  endTime: 2,
+  text: 'well damn, that hurt',
+  words: [
+    { text: 'well', start: 0, end: 0.4 },
+    { text: 'damn,', start: 0.5, end: 0.9 },
+    { text: 'that', start: 1, end: 1.4 },
+    { text: 'hurt', start: 1.5, end: 2 },
+  ],
+};
+
+describe('findProfanity', () => {
+  it('finds nothing while the filter is off', () => {
+    expect(findProfanity([timed], DEFAULT_PROFANITY_SETTINGS)).toEqual([]);
+  });
+
+  it('matches listed words whatever their case and punctuation, timed by their word', () => {
+    expect(findProfanity([timed], settings())).toEqual([
+      { id: '0.00:1:damn', segmentIndex: 0, tokenIndex: 1, text: 'damn,', start: 0.5, end: 0.9, flagged: true },
+    ]);
+    expect(findProfanity([{ startTime: 0, endTime: 1, text: 'DAMN!' }], settings())).toHaveLength(1);
+  });
+
+  it('matches any ending of a word listed with a trailing *, and extra words', () => {
+    const segment: SubtitleSegment = { startTime: 0, endTime: 3, text: 'shitty weather, frick it' };
+    expect(findProfanity([segment], settings()).map(h => h.text)).toEqual(['shitty']);
+    expect(findProfanity([segment], settings({ extraWords: ['frick'] })).map(h => h.text)).toEqual(['shitty', 'frick']);
+  });
+
+  it('estimates timings when the caption has no words that line up', () => {
+    const [hit] = findProfanity([{ startTime: 0, endTime: 2, text: 'aa damn' }], settings());
+    expect(hit.start).toBeCloseTo(2 * (2 / 6));
+    expect(hit.end).toBeCloseTo(2);
+  });
+
+  it('keeps hits the user allowed, but unflagged', () => {
+    expect(findProfanity([timed], settings({ allowed: ['0.00:1:damn'] }))[0].flagged).toBe(false);
+  });
+});
+
+describe('maskToken', () => {
+  it('masks letters and leaves the punctuation around them', () => {
+    expect(maskToken('"damn!"', 'asterisks')).toBe('"****!"');
+    expect(maskToken('damn,', 'first-letter')).toBe('d***,');
+    expect(maskToken('(damn)', 'emoji')).toBe('(🤬)');
+  });
+});
+
+describe('maskProfanity', () => {
+  it('masks the text and the matching word of flagged hits only', () => {
+    const subtitles = [timed, { ...timed, startTime: 3, endTime: 5, words: undefined }];
+    const hits = findProfanity(subtitles, settings({ allowed: ['3.00:1:damn'] }));
+    const [first, second] = maskProfanity(subtitles, hits, settings());
+    expect(first.text).toBe('well ****, that hurt');
+    expect(first.words!.map(w => w.text)).toEqual(['well', '****,', 'that', 'hurt']);
+    expect(first.words![1].start).toBe(0.5);
+    expect(second).toBe(subtitles[1]);
+  });
+
+  it('drops words that don\'t line up with the text rather than leave them unmasked', () => {
+    const segment = { ...timed, words: timed.words!.slice(0, 3) };
+    const [masked] = maskProfanity([segment], findProfanity([segment], settings()), settings());
+    expect(masked.text).toBe('well ****, that hurt');
+    expect(masked.words).toBeUndefined();
+  });
+
+  it('returns the captions untouched when the filter is off', () => {
+    const hits = findProfanity([timed], settings());
+    const subtitles = [timed];
+    expect(maskProfanity(subtitles, hits, DEFAULT_PROFANITY_SETTINGS)).toBe(subtitles);
+  });
+});
@@ -0,0 +1,205 @@
+import { ProfanityAudio, ProfanityMask, ProfanitySettings, SubtitleSegment, Word } from '../types';
+import { estimateWordTimings } from './segmenter';
+import { isRecord } from './subtitleParsers';
+import { TimeRange } from './waveform';
+
+// Common English swear words; a trailing * matches any ending ("fuck*" covers "fucking")
+export const DEFAULT_PROFANITY_WORDS = [
+  'arse*', 'arsehole*', 'ass', 'asshole*', 'bastard*', 'bitch*', 'bollock*', 'bullshit*', 'cock', 'cocks', 'cocksucker*',
+  'crap', 'crappy', 'cunt*', 'damn', 'damned', 'dick', 'dicks', 'dickhead*', 'fuck*', 'motherfuck*', 'piss', 'pissed',
+  'prick*', 'shit*', 'slut*', 'twat*', 'wank*', 'whore*',
+];
+
+const PROFANITY_MASKS: ProfanityMask[] = ['asterisks', 'first-letter', 'emoji'];
+const PROFANITY_AUDIO: ProfanityAudio[] = ['none', 'mute', 'bleep'];
+
+export const DEFAULT_PROFANITY_SETTINGS: ProfanitySettings = {
+  enabled: false,
+  mask: 'asterisks',
+  audio: 'none',
+  extraWords: [],
+  allowed: [],
+};
+
+const MASK_EMOJI = '🤬';
+const BLEEP_FREQUENCY = 1000;
+const BLEEP_GAIN = 0.25;
+const EDGE_FADE_SECONDS = 0.005;  // Ramps in and out so cuts don't click
+
+export interface ProfanityHit {
+  id: string;            // Stable across re-renders while the caption's start and wording stay put
+  segmentIndex: number;
+  tokenIndex: number;    // Position among the caption's whitespace-separated tokens
+  text: string;
+  start: number;
+  end: number;
+  flagged: boolean;      // False once the user un-flags it
+}
+
+const normalize = (token: string) => token.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '');
+
+const buildMatcher = (words: string[]) => {
+  const exact = new Set<string>();
+  const prefixes: string[] = [];
+  words.forEach(word => {
+    const entry = word.trim().toLowerCase();
+    if (!entry) return;
+    if (entry.endsWith('*')) prefixes.push(entry.slice(0, -1));
+    else exact.add(entry);
+  });
+  return (token: string) => {
+    const key = normalize(token);
+    return key.length > 0 && (exact.has(key) || prefixes.some(prefix => prefix && key.startsWith(prefix)));
+  };
+};
+
+const tokensOf = (text: string) => text.split(/\s+/).filter(Boolean);
+
+// Word timings line up with tokens when the counts match, which reconciled edits keep true
+const timingsFor = (segment: SubtitleSegment, tokens: string[]): Word[] =>
+  segment.words && segment.words.length === tokens.length
+    ? segment.words
+    : estimateWordTimings(tokens.join(' '), segment.startTime, segment.endTime);
+
+export const findProfanity = (subtitles: SubtitleSegment[], settings: ProfanitySettings): ProfanityHit[] => {
+  if (!settings.enabled) return [];
+  const isProfane = buildMatcher([...DEFAULT_PROFANITY_WORDS, ...settings.extraWords]);
+  const allowed = new Set(settings.allowed);
+  const hits: ProfanityHit[] = [];
+  subtitles.forEach((segment, segmentIndex) => {
+    const tokens = tokensOf(segment.text);
+    const timings = timingsFor(segment, tokens);
+    tokens.forEach((token, tokenIndex) => {
+      if (!isProfane(token)) return;
+      const id = `${segment.startTime.toFixed(2)}:${tokenIndex}:${normalize(token)}`;
+      const timing = timings[tokenIndex];
+      hits.push({ id, segmentIndex, tokenIndex, text: token, start: timing.start, end: timing.end, flagged: !allowed.has(id) });
+    });
+  });
+  return hits;
+};
+
+// Masks the letters of a token, leaving punctuation around it alone
+export const maskToken = (token: string, mask: ProfanityMask) => {
+  const match = /^([^\p{L}\p{N}]*)(.*?)([^\p{L}\p{N}]*)$/u.exec(token);
+  if (!match) return token;
+  const [, before, core, after] = match;
+  const masked = mask === 'emoji'
+    ? MASK_EMOJI
+    : mask === 'first-letter'
+      ? core.slice(0, 1) + core.slice(1).replace(/[\p{L}\p{N}]/gu, '*')
+      : core.replace(/[\p{L}\p{N}]/gu, '*');
+  return before + masked + after;
+};
+
+// Captions as they should be shown and exported; the document itself keeps the real words
+export const maskProfanity = (subtitles: SubtitleSegment[], hits: ProfanityHit[], settings: ProfanitySettings): SubtitleSegment[] => {
+  const flagged = hits.filter(hit => hit.flagged);
+  if (!settings.enabled || flagged.length === 0) return subtitles;
+  const bySegment = new Map<number, Set<number>>();
+  flagged.forEach(hit => bySegment.set(hit.segmentIndex, (bySegment.get(hit.segmentIndex) ?? new Set()).add(hit.tokenIndex)));
+
+  return subtitles.map((segment, index) => {
+    const masked = bySegment.get(index);
+    if (!masked) return segment;
+    const tokens = tokensOf(segment.text).map((token, i) => (masked.has(i) ? maskToken(token, settings.mask) : token));
+    const { words, ...rest } = segment;
+    // Words that don't line up with the tokens can't be masked one for one, and exports would show them
+    // unmasked; the caption goes without, like any other caption whose words are unknown
+    if (!words || words.length !== tokens.length) return { ...rest, text: tokens.join(' ') };
+    return { ...rest, text: tokens.join(' '), words: words.map((word, i) => (masked.has(i) ? { ...word, text: tokens[i] } : word)) };
+  });
+};
+
+export const getCensoredRanges = (hits: ProfanityHit[]): TimeRange[] =>
+  hits.filter(hit => hit.flagged && hit.end > hit.start).map(hit => ({ start: hit.start, end: hit.end }));
+
+/**
+ * Silences or bleeps the given ranges in place. Each channel is faded out and back in over a few
+ * milliseconds, and the bleep is faded the same way, so the edits don't click.
+ */
+export const censorAudio = (channels: Float32Array[], sampleRate: number, ranges: TimeRange[], mode: 'mute' | 'bleep') => {
+  const fade = Math.max(1, Math.round(EDGE_FADE_SECONDS * sampleRate));
+  ranges.forEach(({ start, end }) => {
+    const from = Math.max(0, Math.floor(start * sampleRate));
+    channels.forEach(data => {
+      const to = Math.min(data.length, Math.ceil(end * sampleRate));
+      for (let i = from; i < to; i++) {
+        // 0 at the edges of the range, 1 inside it once the fade is done
+        const envelope = Math.min(1, (i - from) / fade, (to - 1 - i) / fade);
+        const tone = mode === 'bleep' ? Math.sin((2 * Math.PI * BLEEP_FREQUENCY * i) / sampleRate) * BLEEP_GAIN * envelope : 0;
+        data[i] = data[i] * (1 - envelope) + tone;
+      }
+    });
+  });
+};
+
+export interface LiveCensor {
+  track: MediaStreamTrack;               // The censored audio, to record in place of the original
+  start: (sourceTime: number) => void;   // Call as playback starts from sourceTime
+  close: () => void;
+}
+
+/**
+ * censorAudio for audio captured while it plays, as the MediaRecorder export does: the track runs through
+ * a gain that dips over each range and a tone that fades in under it, both scheduled on the audio clock.
+ */
+export const createLiveCensor = (track: MediaStreamTrack, ranges: TimeRange[], mode: 'mute' | 'bleep'): LiveCensor => {
+  const context = new AudioContext();
+  const output = context.createMediaStreamDestination();
+  const speech = context.createGain();
+  context.createMediaStreamSource(new MediaStream([track])).connect(speech).connect(output);
+  const bleep = context.createGain();
+  bleep.gain.value = 0;
+  const tone = context.createOscillator();
+  tone.frequency.value = BLEEP_FREQUENCY;
+  tone.connect(bleep).connect(output);
+  tone.start();
+
+  // Ramps a gain from `outside` to `inside` and back over [from, to], like censorAudio's envelope
+  const dip = (gain: AudioParam, outside: number, inside: number, from: number, to: number) => {
+    const fade = Math.min(EDGE_FADE_SECONDS, (to - from) / 2);
+    gain.setValueAtTime(outside, from);
+    gain.linearRampToValueAtTime(inside, from + fade);
+    gain.setValueAtTime(inside, to - fade);
+    gain.linearRampToValueAtTime(outside, to);
+  };
+
+  return {
+    track: output.stream.getAudioTracks()[0],
+    start: sourceTime => {
+      context.resume().catch(() => {});
+      const now = context.currentTime;
+      // Automation events must not overlap, so overlapping ranges are merged first
+      const merged: TimeRange[] = [];
+      [...ranges].sort((a, b) => a.start - b.start).forEach(range => {
+        const last = merged[merged.length - 1];
+        if (last && range.start <= last.end) last.end = Math.max(last.end, range.end);
+        else merged.push({ ...range });
+      });
+      merged.forEach(({ start, end }) => {
+        if (end <= sourceTime) return;
+        const from = now + Math.max(0, start - sourceTime);
+        const to = now + (end - sourceTime);
+        dip(speech.gain, 1, 0, from, to);
+        if (mode === 'bleep') dip(bleep.gain, 0, BLEEP_GAIN, from, to);
+      });
+    },
+    close: () => {
+      tone.stop();
+      context.close().catch(() => {});
+    },
+  };
+};
+
+// For settings read from storage or a bundle
+export const sanitizeProfanity = (input: unknown): ProfanitySettings => {
+  const source = isRecord(input) ? input : {};
+  return {
+    enabled: source.enabled === true,
+    mask: PROFANITY_MASKS.find(mask => mask === source.mask) ?? DEFAULT_PROFANITY_SETTINGS.mask,
+    audio: PROFANITY_AUDIO.find(audio => audio === source.audio) ?? DEFAULT_PROFANITY_SETTINGS.audio,
+    extraWords: Array.isArray(source.extraWords) ? source.extraWords.filter((w): w is string => typeof w === 'string' && w.trim() !== '') : [],
+    allowed: Array.isArray(source.allowed) ? source.allowed.filter((id): id is string => typeof id === 'string') : [],
+  };
+};
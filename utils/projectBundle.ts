@@ -0,0 +1,142 @@
+import { AudioPreprocessingOptions, Project, SegmentationOptions, TranscriptionSettings, TranslationSettings } from '../types';
+import { DEFAULT_AUDIO_PREPROCESSING } from './audioUtils';
+import { DEFAULT_SEGMENTATION_OPTIONS } from './segmenter';
+import { SubtitleParseError, isFiniteNumber, isRecord, parseJson } from './subtitleParsers';
+import { sanitizeGlossary } from './glossary';
+import { sanitizeProfanity } from './profanity';
+import { sanitizeReframe } from './reframe';
+import { sanitizeSpeakers } from './speakers';
+import { sanitizeStyle } from './stylePresets';
+
+export const PROJECT_BUNDLE_EXTENSION = '.autosub';
+export const PROJECT_BUNDLE_MIME_TYPE = 'application/x-autosub';
+
+// Layout: 8-byte magic, little-endian uint32 manifest length, UTF-8 JSON manifest, then the raw video bytes
+const MAGIC = 'AUTOSUB\0';
+const HEADER_BYTES = MAGIC.length + 4;
+const BUNDLE_VERSION = 1;
+
+interface BundleManifest {
+  format: 'autosub';
+  version: number;
+  project: Omit<Project, 'id'>;
+}
+
+// A manifest as read back from disk: the envelope is checked, every project field is still checked on its own
+interface StoredManifest {
+  format: 'autosub';
+  version: number;
+  project: Record<string, unknown>;
+}
+
+const isStoredManifest = (value: unknown): value is StoredManifest =>
+  isRecord(value) && value.format === 'autosub' && isFiniteNumber(value.version) && isRecord(value.project);
+
+export const createProjectBundle = (project: Project, video: Blob): Blob => {
+  const { id, ...rest } = project;
+  const manifest: BundleManifest = { format: 'autosub', version: BUNDLE_VERSION, project: rest };
+  const json = new TextEncoder().encode(JSON.stringify(manifest));
+
+  const header = new Uint8Array(HEADER_BYTES);
+  header.set(new TextEncoder().encode(MAGIC), 0);
+  new DataView(header.buffer).setUint32(MAGIC.length, json.length, true);
+  return new Blob([header, json, video], { type: PROJECT_BUNDLE_MIME_TYPE });
+};
+
+const readRecord = (input: unknown): Record<string, unknown> => (isRecord(input) ? input : {});
+
+const copyOption = <K extends keyof SegmentationOptions>(options: SegmentationOptions, source: Record<string, unknown>, key: K) => {
+  const value = source[key];
+  if (typeof value === typeof options[key]) options[key] = value as SegmentationOptions[K];
+};
+
+const readSegmentation = (input: unknown): SegmentationOptions => {
+  const options = { ...DEFAULT_SEGMENTATION_OPTIONS };
+  const source = readRecord(input);
+  (Object.keys(options) as (keyof SegmentationOptions)[]).forEach(key => copyOption(options, source, key));
+  return options;
+};
+
+const readAudio = (input: unknown): AudioPreprocessingOptions => {
+  const source = readRecord(input);
+  return {
+    normalize: typeof source.normalize === 'boolean' ? source.normalize : DEFAULT_AUDIO_PREPROCESSING.normalize,
+    highPassHz: isFiniteNumber(source.highPassHz) ? source.highPassHz : undefined,
+    noiseGateDb: isFiniteNumber(source.noiseGateDb) ? source.noiseGateDb : undefined,
+  };
+};
+
+const readTranscription = (input: unknown): TranscriptionSettings => {
+  const source = readRecord(input);
+  return {
+    providerId: typeof source.providerId === 'string' ? source.providerId : 'whisper',
+    model: typeof source.model === 'string' ? source.model : undefined,
+    language: typeof source.language === 'string' ? source.language : undefined,
+    task: source.task === 'translate' ? 'translate' : 'transcribe',
+    audio: readAudio(source.audio),
+  };
+};
+
+const readTranslation = (input: unknown): TranslationSettings => {
+  const source = readRecord(input);
+  return {
+    translatorId: typeof source.translatorId === 'string' ? source.translatorId : 'gemini',
+    targetLanguage: typeof source.targetLanguage === 'string' && source.targetLanguage ? source.targetLanguage : 'en',
+  };
+};
+
+/**
+ * Reads a bundle written by createProjectBundle. The project gets a fresh id, so importing
+ * the same file twice never overwrites a project the user has kept editing.
+ */
+export const parseProjectBundle = async (file: File, id: string): Promise<{ project: Project; video: Blob }> => {
+  const header = new Uint8Array(await file.slice(0, HEADER_BYTES).arrayBuffer());
+  if (header.length < HEADER_BYTES || new TextDecoder().decode(header.slice(0, MAGIC.length)) !== MAGIC) {
+    throw new Error(`"${file.name}" is not a ${PROJECT_BUNDLE_EXTENSION} project bundle.`);
+  }
+  const manifestLength = new DataView(header.buffer).getUint32(MAGIC.length, true);
+  const manifestEnd = HEADER_BYTES + manifestLength;
+  if (manifestEnd > file.size) throw new Error(`"${file.name}" is truncated.`);
+
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(await file.slice(HEADER_BYTES, manifestEnd).text());
+  } catch (e) {
+    throw new Error(`"${file.name}" has a damaged project manifest (${(e as Error).message}).`);
+  }
+  if (!isStoredManifest(manifest)) {
+    throw new Error(`"${file.name}" has no project in it.`);
+  }
+  if (manifest.version > BUNDLE_VERSION) {
+    throw new Error(`"${file.name}" was saved by a newer version of Runnadd AI.`);
+  }
+
+  const source = manifest.project;
+  const { subtitles, issues } = parseJson(JSON.stringify(source.subtitles ?? []));
+  if (issues.length > 0) throw new SubtitleParseError(file.name, issues);
+
+  const videoType = typeof source.videoType === 'string' ? source.videoType : 'video/mp4';
+  const video = file.slice(manifestEnd, file.size, videoType);
+  const now = Date.now();
+  const project: Project = {
+    id,
+    name: typeof source.name === 'string' && source.name.trim() ? source.name.trim() : file.name.replace(/\.autosub$/i, ''),
+    createdAt: typeof source.createdAt === 'number' ? source.createdAt : now,
+    updatedAt: now,
+    videoName: typeof source.videoName === 'string' ? source.videoName : 'video',
+    videoType,
+    videoSize: video.size,
+    duration: isFiniteNumber(source.duration) ? source.duration : undefined,
+    language: typeof source.language === 'string' ? source.language : undefined,
+    subtitles: subtitles.sort((a, b) => a.startTime - b.startTime),
+    style: sanitizeStyle(source.style ?? {}),
+    reframe: sanitizeReframe(source.reframe),
+    speakers: sanitizeSpeakers(source.speakers),
+    transcription: readTranscription(source.transcription),
+    segmentation: readSegmentation(source.segmentation),
+    glossary: sanitizeGlossary(source.glossary),
+    profanity: sanitizeProfanity(source.profanity),
+    translation: readTranslation(source.translation),
+  };
+  return { project, video };
+};
@@ -0,0 +1,137 @@
+import { OutputAspect, PanKeyframe, ReframeMode, ReframeSettings } from '../types';
+import { FrameSize } from './captionRenderer';
+import { isFiniteNumber, isRecord } from './subtitleParsers';
+
+export const OUTPUT_ASPECTS: OutputAspect[] = ['9:16', '1:1', '4:5', '16:9'];
+const REFRAME_MODES: ReframeMode[] = ['center', 'pan', 'blur'];
+
+// Matches the preview the app has always shown: vertical, centre-cropped
+export const DEFAULT_REFRAME_SETTINGS: ReframeSettings = { aspect: '9:16', mode: 'center', keyframes: [] };
+
+const BLUR_FRACTION = 0.04;       // Background blur radius as a fraction of the output width
+const BACKGROUND_OVERSCAN = 1.1;  // Zoom the background a little so the blur doesn't fade at the edges
+const BACKGROUND_DIM = 0.35;
+
+export interface SourceRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+export const getAspectRatio = (aspect: OutputAspect) => {
+  const [width, height] = aspect.split(':').map(Number);
+  return width / height;
+};
+
+// Largest rectangle of the given aspect ratio that fits inside the source
+const getCropSize = (sourceWidth: number, sourceHeight: number, ratio: number) =>
+  sourceWidth / sourceHeight > ratio
+    ? { width: sourceHeight * ratio, height: sourceHeight }
+    : { width: sourceWidth, height: sourceWidth / ratio };
+
+// Output frame at full source detail: the crop itself, or for 'blur' a frame whose long edge matches the source's
+export const getReframedSize = (sourceWidth: number, sourceHeight: number, settings: ReframeSettings): FrameSize => {
+  const ratio = getAspectRatio(settings.aspect);
+  if (settings.mode !== 'blur') {
+    const crop = getCropSize(sourceWidth, sourceHeight, ratio);
+    return { width: Math.round(crop.width), height: Math.round(crop.height) };
+  }
+  const longEdge = Math.max(sourceWidth, sourceHeight);
+  return ratio >= 1
+    ? { width: longEdge, height: Math.round(longEdge / ratio) }
+    : { width: Math.round(longEdge * ratio), height: longEdge };
+};
+
+const easeInOut = (t: number) => t * t * (3 - 2 * t);
+
+// Crop centre at `time`; holds the first and last keyframes and eases between the others
+export const interpolatePan = (keyframes: PanKeyframe[], time: number): { x: number; y: number } => {
+  if (keyframes.length === 0) return { x: 0.5, y: 0.5 };
+  if (time <= keyframes[0].time) return { x: keyframes[0].x, y: keyframes[0].y };
+  for (let i = 0; i < keyframes.length - 1; i++) {
+    const from = keyframes[i];
+    const to = keyframes[i + 1];
+    if (time < to.time) {
+      const t = easeInOut((time - from.time) / (to.time - from.time));
+      return { x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t };
+    }
+  }
+  const last = keyframes[keyframes.length - 1];
+  return { x: last.x, y: last.y };
+};
+
+export const getCropRect = (sourceWidth: number, sourceHeight: number, settings: ReframeSettings, time: number): SourceRect => {
+  const { width, height } = getCropSize(sourceWidth, sourceHeight, getAspectRatio(settings.aspect));
+  const centre = settings.mode === 'pan' ? interpolatePan(settings.keyframes, time) : { x: 0.5, y: 0.5 };
+  return {
+    x: clamp(centre.x * sourceWidth - width / 2, 0, sourceWidth - width),
+    y: clamp(centre.y * sourceHeight - height / 2, 0, sourceHeight - height),
+    width,
+    height,
+  };
+};
+
+const drawCentred = (ctx: CanvasRenderingContext2D, source: CanvasImageSource, sourceWidth: number, sourceHeight: number, frame: FrameSize, scale: number) => {
+  const width = sourceWidth * scale;
+  const height = sourceHeight * scale;
+  ctx.drawImage(source, (frame.width - width) / 2, (frame.height - height) / 2, width, height);
+};
+
+/**
+ * Fills the whole output frame with the source frame at `time`, reframed per the settings. The preview and
+ * the export both draw through here, so what is framed in the editor is what gets exported.
+ */
+export const drawReframedFrame = (
+  ctx: CanvasRenderingContext2D,
+  source: CanvasImageSource,
+  sourceWidth: number,
+  sourceHeight: number,
+  frame: FrameSize,
+  settings: ReframeSettings,
+  time: number
+) => {
+  if (sourceWidth === 0 || sourceHeight === 0) return;
+
+  if (settings.mode === 'blur') {
+    const cover = Math.max(frame.width / sourceWidth, frame.height / sourceHeight);
+    const fit = Math.min(frame.width / sourceWidth, frame.height / sourceHeight);
+    ctx.save();
+    // Browsers without canvas filters get a dimmed, unblurred background instead
+    ctx.filter = `blur(${Math.round(frame.width * BLUR_FRACTION)}px)`;
+    drawCentred(ctx, source, sourceWidth, sourceHeight, frame, cover * BACKGROUND_OVERSCAN);
+    ctx.filter = 'none';
+    ctx.fillStyle = `rgba(0, 0, 0, ${BACKGROUND_DIM})`;
+    ctx.fillRect(0, 0, frame.width, frame.height);
+    ctx.restore();
+    drawCentred(ctx, source, sourceWidth, sourceHeight, frame, fit);
+    return;
+  }
+
+  const crop = getCropRect(sourceWidth, sourceHeight, settings, time);
+  ctx.drawImage(source, crop.x, crop.y, crop.width, crop.height, 0, 0, frame.width, frame.height);
+};
+
+// Sets the pan at `time`, replacing a keyframe within `tolerance` seconds of it instead of stacking a new one
+export const setPanKeyframe = (keyframes: PanKeyframe[], keyframe: PanKeyframe, tolerance: number): PanKeyframe[] => {
+  const next = keyframes.filter(k => Math.abs(k.time - keyframe.time) > tolerance);
+  return [...next, keyframe].sort((a, b) => a.time - b.time);
+};
+
+// For settings read from storage or a bundle; anything malformed falls back to the default
+export const sanitizeReframe = (input: unknown): ReframeSettings => {
+  if (!isRecord(input)) return DEFAULT_REFRAME_SETTINGS;
+  const keyframes: PanKeyframe[] = Array.isArray(input.keyframes)
+    ? input.keyframes
+        .filter((k): k is PanKeyframe => isRecord(k) && [k.time, k.x, k.y].every(isFiniteNumber))
+        .map(k => ({ time: Math.max(0, k.time), x: clamp(k.x, 0, 1), y: clamp(k.y, 0, 1) }))
+        .sort((a, b) => a.time - b.time)
+    : [];
+  return {
+    aspect: OUTPUT_ASPECTS.find(aspect => aspect === input.aspect) ?? DEFAULT_REFRAME_SETTINGS.aspect,
+    mode: REFRAME_MODES.find(mode => mode === input.mode) ?? DEFAULT_REFRAME_SETTINGS.mode,
+    keyframes,
+  };
+};
@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { withRetry } from './retry';
+
+// Fails `failures` times, then resolves with the attempt number
+const flaky = (failures: number) => vi.fn(async (attempt: number) => {
+  if (attempt <= failures) throw new Error(`failure ${attempt}`);
+  return attempt;
+});
+
+describe('withRetry', () => {
+  // No jitter, so the delays are exactly the backoff
+  beforeEach(() => { vi.spyOn(Math, 'random').mockReturnValue(0.5); });
+  afterEach(() => { vi.restoreAllMocks(); });
+
+  it('doubles the delay after every failure, up to maxDelayMs', async () => {
+    const delays: number[] = [];
+    const task = flaky(4);
+    const result = await withRetry(task, { attempts: 5, baseDelayMs: 1, maxDelayMs: 4, onRetry: (_, __, delay) => delays.push(delay) });
+    expect(result).toBe(5);
+    expect(task).toHaveBeenCalledTimes(5);
+    expect(delays).toEqual([1, 2, 4, 4]);
+  });
+
+  it('gives up after the last attempt and rethrows its error', async () => {
+    const task = flaky(10);
+    await expect(withRetry(task, { attempts: 3, baseDelayMs: 1 })).rejects.toThrow('failure 3');
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('rethrows at once when shouldRetry turns the error down', async () => {
+    const task = flaky(10);
+    const shouldRetry = vi.fn(() => false);
+    await expect(withRetry(task, { baseDelayMs: 1, shouldRetry })).rejects.toThrow('failure 1');
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(shouldRetry).toHaveBeenCalledOnce();
+  });
+
+  it('never retries an AbortError', async () => {
+    const abort = new DOMException('Cancelled', 'AbortError');
+    const task = vi.fn(async () => { throw abort; });
+    await expect(withRetry(task, { baseDelayMs: 1 })).rejects.toBe(abort);
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops waiting for the next attempt as soon as the signal aborts', async () => {
+    const controller = new AbortController();
+    const task = flaky(10);
+    const run = withRetry(task, { baseDelayMs: 60_000, signal: controller.signal, onRetry: () => controller.abort('cancelled') });
+    await expect(run).rejects.toBe('cancelled');
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not start when the signal is already aborted', async () => {
+    const task = flaky(0);
+    await expect(withRetry(task, { signal: AbortSignal.abort('cancelled') })).rejects.toBe('cancelled');
+    expect(task).not.toHaveBeenCalled();
+  });
+});
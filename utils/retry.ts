@@ -0,0 +1,42 @@
+export interface RetryOptions {
+  attempts?: number;      // Including the first try
+  baseDelayMs?: number;   // Doubled after every failure, with jitter
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+  shouldRetry?: (error: unknown) => boolean;
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+// Resolves after `ms`, or rejects as soon as the signal aborts
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Runs `task` until it succeeds, backing off exponentially between attempts.
+ * Cancellation is never retried, and the last error is rethrown once attempts run out.
+ */
+export const withRetry = async <T>(task: (attempt: number) => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { attempts = 4, baseDelayMs = 1000, maxDelayMs = 16000, signal, shouldRetry = () => true, onRetry } = options;
+  for (let attempt = 1; ; attempt++) {
+    signal?.throwIfAborted();
+    try {
+      return await task(attempt);
+    } catch (error: any) {
+      if (error?.name === 'AbortError' || signal?.aborted || attempt >= attempts || !shouldRetry(error)) throw error;
+      const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1)) * (0.75 + Math.random() * 0.5);
+      onRetry?.(error, attempt, delay);
+      await sleep(delay, signal);
+    }
+  }
+};
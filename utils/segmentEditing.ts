@@ -0,0 +1,185 @@
+import { SubtitleSegment, Word } from '../types';
+import { estimateWordTimings } from './segmenter';
+
+// Shortest segment or word the editor will produce by dragging
+export const MIN_SEGMENT_SECONDS = 0.1;
+const MIN_WORD_SECONDS = 0.02;
+const NEW_SEGMENT_SECONDS = 1.5;
+
+export type SegmentEdge = 'start' | 'end';
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const sortByStart = (subtitles: SubtitleSegment[]) => [...subtitles].sort((a, b) => a.startTime - b.startTime);
+
+const replaceAt = (subtitles: SubtitleSegment[], index: number, segment: SubtitleSegment) =>
+  subtitles.map((s, i) => (i === index ? segment : s));
+
+// Words of a segment, estimated from its text when the provider gave none
+const wordsOf = (segment: SubtitleSegment): Word[] =>
+  segment.words ?? estimateWordTimings(segment.text, segment.startTime, segment.endTime);
+
+// Room a segment may occupy without overlapping its neighbours
+export const getSegmentBounds = (subtitles: SubtitleSegment[], index: number, duration: number) => ({
+  min: index > 0 ? subtitles[index - 1].endTime : 0,
+  max: index < subtitles.length - 1 ? subtitles[index + 1].startTime : Math.max(duration, subtitles[index].endTime),
+});
+
+export const findSegmentAt = (subtitles: SubtitleSegment[], time: number) =>
+  subtitles.findIndex(s => time >= s.startTime && time <= s.endTime);
+
+// Index of the first segment starting after `time` (direction 1) or the last one starting before it (-1)
+export const findAdjacentSegment = (subtitles: SubtitleSegment[], time: number, direction: 1 | -1): number => {
+  // A small margin so repeated presses move on instead of landing on the current start again
+  const margin = 0.01;
+  if (direction === 1) return subtitles.findIndex(s => s.startTime > time + margin);
+  for (let i = subtitles.length - 1; i >= 0; i--) {
+    if (subtitles[i].startTime < time - margin) return i;
+  }
+  return -1;
+};
+
+export const moveSegment = (subtitles: SubtitleSegment[], index: number, startTime: number, duration: number): SubtitleSegment[] => {
+  const segment = subtitles[index];
+  const length = segment.endTime - segment.startTime;
+  const { min, max } = getSegmentBounds(subtitles, index, duration);
+  const start = clamp(startTime, min, max - length);
+  const delta = start - segment.startTime;
+  return replaceAt(subtitles, index, {
+    ...segment,
+    startTime: start,
+    endTime: start + length,
+    words: segment.words?.map(w => ({ ...w, start: w.start + delta, end: w.end + delta })),
+  });
+};
+
+export const resizeSegment = (
+  subtitles: SubtitleSegment[],
+  index: number,
+  edge: SegmentEdge,
+  time: number,
+  duration: number
+): SubtitleSegment[] => {
+  const segment = subtitles[index];
+  const { min, max } = getSegmentBounds(subtitles, index, duration);
+  const startTime = edge === 'start' ? clamp(time, min, segment.endTime - MIN_SEGMENT_SECONDS) : segment.startTime;
+  const endTime = edge === 'end' ? clamp(time, segment.startTime + MIN_SEGMENT_SECONDS, max) : segment.endTime;
+  // Words stay where they were spoken; only the ones the new edge cuts into are trimmed
+  const words = segment.words?.map(w => {
+    const start = clamp(w.start, startTime, endTime - MIN_WORD_SECONDS);
+    return { ...w, start, end: clamp(w.end, start + MIN_WORD_SECONDS, endTime) };
+  });
+  return replaceAt(subtitles, index, { ...segment, startTime, endTime, words });
+};
+
+// Moves a word's start; the previous word gives up or takes over the time in between
+export const nudgeWord = (subtitles: SubtitleSegment[], index: number, wordIndex: number, time: number): SubtitleSegment[] => {
+  const segment = subtitles[index];
+  if (!segment.words) return subtitles;
+  const words = [...segment.words];
+  const word = words[wordIndex];
+  const previous = words[wordIndex - 1];
+  const min = previous ? previous.start + MIN_WORD_SECONDS : segment.startTime;
+  const start = clamp(time, min, word.end - MIN_WORD_SECONDS);
+  words[wordIndex] = { ...word, start };
+  if (previous && (previous.end > start || previous.end === word.start)) {
+    words[wordIndex - 1] = { ...previous, end: start };
+  }
+  return replaceAt(subtitles, index, { ...segment, words });
+};
+
+export const splitSegment = (subtitles: SubtitleSegment[], index: number, time: number): SubtitleSegment[] => {
+  const segment = subtitles[index];
+  if (time <= segment.startTime + MIN_SEGMENT_SECONDS || time >= segment.endTime - MIN_SEGMENT_SECONDS) return subtitles;
+
+  const words = wordsOf(segment);
+  // A word belongs to the half its midpoint falls in
+  let cut = words.findIndex(w => (w.start + w.end) / 2 >= time);
+  if (cut === -1) cut = words.length;
+  const before = words.slice(0, cut);
+  const after = words.slice(cut);
+
+  // Translations have no timings, so they are cut at the same share of their words as the original
+  const translationWords = segment.translation?.split(/\s+/).filter(Boolean);
+  const translationCut = translationWords ? Math.round(translationWords.length * (cut / Math.max(1, words.length))) : 0;
+
+  const half = (part: Word[], startTime: number, endTime: number, translation?: string[]): SubtitleSegment => ({
+    startTime,
+    endTime,
+    text: part.map(w => w.text).join(' '),
+    ...(segment.words ? { words: part.map(w => ({ ...w, start: clamp(w.start, startTime, endTime), end: clamp(w.end, startTime, endTime) })) } : {}),
+    ...(translation ? { translation: translation.join(' ') } : {}),
+    ...(segment.speaker ? { speaker: segment.speaker } : {}),
+  });
+
+  return [
+    ...subtitles.slice(0, index),
+    half(before, segment.startTime, time, translationWords?.slice(0, translationCut)),
+    half(after, time, segment.endTime, translationWords?.slice(translationCut)),
+    ...subtitles.slice(index + 1),
+  ];
+};
+
+// Joins a segment with the one after it
+export const mergeSegments = (subtitles: SubtitleSegment[], index: number): SubtitleSegment[] => {
+  const first = subtitles[index];
+  const second = subtitles[index + 1];
+  if (!first || !second) return subtitles;
+  const merged: SubtitleSegment = {
+    startTime: first.startTime,
+    endTime: second.endTime,
+    text: `${first.text.trim()} ${second.text.trim()}`.trim(),
+    // Keep word timings if either side had real ones
+    ...(first.words || second.words ? { words: [...wordsOf(first), ...wordsOf(second)] } : {}),
+    ...(first.translation !== undefined || second.translation !== undefined
+      ? { translation: `${first.translation?.trim() ?? ''} ${second.translation?.trim() ?? ''}`.trim() }
+      : {}),
+    // The merged caption is credited to whoever spoke first
+    ...(first.speaker || second.speaker ? { speaker: first.speaker || second.speaker } : {}),
+  };
+  return [...subtitles.slice(0, index), merged, ...subtitles.slice(index + 2)];
+};
+
+// Adds an empty caption at `time`, in whatever room the neighbours leave; returns null when there is none
+export const insertSegment = (
+  subtitles: SubtitleSegment[],
+  time: number,
+  duration: number,
+  text = 'New caption'
+): { subtitles: SubtitleSegment[]; index: number } | null => {
+  if (findSegmentAt(subtitles, time) !== -1) return null;
+  const nextStart = subtitles.find(s => s.startTime > time)?.startTime ?? Math.max(duration, time + NEW_SEGMENT_SECONDS);
+  const endTime = Math.min(time + NEW_SEGMENT_SECONDS, nextStart);
+  if (endTime - time < MIN_SEGMENT_SECONDS) return null;
+  const sorted = sortByStart([...subtitles, { startTime: time, endTime, text }]);
+  return { subtitles: sorted, index: sorted.findIndex(s => s.startTime === time) };
+};
+
+export const deleteSegment = (subtitles: SubtitleSegment[], index: number): SubtitleSegment[] =>
+  subtitles.filter((_, i) => i !== index);
+
+// Nearest target within `tolerance` seconds, or the time unchanged
+export const snapTime = (time: number, targets: number[], tolerance: number): number => {
+  let best = time;
+  let bestDistance = tolerance;
+  targets.forEach(target => {
+    const distance = Math.abs(target - time);
+    if (distance <= bestDistance) {
+      best = target;
+      bestDistance = distance;
+    }
+  });
+  return best;
+};
+
+// Captions for a clip cut from `start` to `end`: anything overlapping is kept, trimmed to the clip and shifted to start at 0
+export const clipSubtitlesToRange = (subtitles: SubtitleSegment[], start: number, end: number): SubtitleSegment[] =>
+  subtitles
+    .filter(s => s.endTime > start && s.startTime < end)
+    .map(s => ({
+      ...s,
+      startTime: Math.max(s.startTime, start) - start,
+      endTime: Math.min(s.endTime, end) - start,
+      // Words outside the clip stay in the caption text, pinned to its edges, so the caption reads the same
+      words: s.words?.map(w => ({ ...w, start: clamp(w.start, start, end) - start, end: clamp(w.end, start, end) - start })),
+    }));
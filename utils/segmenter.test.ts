@@ -0,0 +1,194 @@
+import { describe, expect, it } from 'vitest';
+import { SegmentationOptions, SubtitleSegment, Word } from '../types';
+import { DEFAULT_SEGMENTATION_OPTIONS, resegmentSubtitles, segmentWords } from './segmenter';
+
+// Back-to-back words of equal length, starting at 0
+const wordsOf = (text: string, wordDuration = 0.2): Word[] =>
+  text.split(' ').map((t, i) => ({ text: t, start: i * wordDuration, end: (i + 1) * wordDuration }));
+
+// Every rule off, so each test switches on only the one it checks
+const options = (overrides: Partial<SegmentationOptions> = {}): SegmentationOptions => ({
+  maxWords: 100,
+  maxChars: 1000,
+  maxDuration: 100,
+  minDuration: 0,
+  pauseThreshold: 10,
+  breakOnPunctuation: false,
+  avoidOrphans: false,
+  ...overrides,
+});
+
+const texts = (segments: SubtitleSegment[]) => segments.map(s => s.text);
+
+describe('segmentWords', () => {
+  it('returns nothing for no words or only blank ones', () => {
+    expect(segmentWords([])).toEqual([]);
+    expect(segmentWords([{ text: '  ', start: 0, end: 1 }])).toEqual([]);
+  });
+
+  it('keeps each segment within maxWords', () => {
+    const segments = segmentWords(wordsOf('one two three four five six seven'), options({ maxWords: 3 }));
+    expect(texts(segments)).toEqual(['one two three', 'four five six', 'seven']);
+  });
+
+  it('keeps each segment within maxChars', () => {
+    const segments = segmentWords(wordsOf('abcd efgh ijkl mnop'), options({ maxChars: 9 }));
+    expect(texts(segments)).toEqual(['abcd efgh', 'ijkl mnop']);
+  });
+
+  it('keeps each segment within maxDuration', () => {
+    const segments = segmentWords(wordsOf('a b c d e', 0.5), options({ maxDuration: 1 }));
+    expect(texts(segments)).toEqual(['a b', 'c d', 'e']);
+    segments.forEach(s => expect(s.endTime - s.startTime).toBeLessThanOrEqual(1));
+  });
+
+  it('lets a single word longer than a limit stand alone', () => {
+    const segments = segmentWords(wordsOf('extraordinarily long'), options({ maxChars: 5 }));
+    expect(texts(segments)).toEqual(['extraordinarily', 'long']);
+  });
+
+  it('starts a new segment after a pause', () => {
+    const words: Word[] = [
+      { text: 'before', start: 0, end: 0.4 },
+      { text: 'the', start: 0.4, end: 0.6 },
+      { text: 'pause', start: 2, end: 2.4 },
+    ];
+    expect(texts(segmentWords(words, options({ pauseThreshold: 0.8 })))).toEqual(['before the', 'pause']);
+    expect(texts(segmentWords(words, options({ pauseThreshold: 2 })))).toEqual(['before the pause']);
+  });
+
+  it('starts a new segment after a sentence ends', () => {
+    const words = wordsOf('Hello there. How are you?');
+    expect(texts(segmentWords(words, options({ breakOnPunctuation: true })))).toEqual(['Hello there.', 'How are you?']);
+    expect(texts(segmentWords(words, options()))).toEqual(['Hello there. How are you?']);
+  });
+
+  it('recognises closing quotes and non-Latin sentence ends', () => {
+    const words = wordsOf('He said "stop." 好。 Then left');
+    expect(texts(segmentWords(words, options({ breakOnPunctuation: true })))).toEqual(['He said "stop."', '好。', 'Then left']);
+  });
+
+  it('does not break on punctuation before minDuration has passed', () => {
+    const words = wordsOf('Hi. Nice to meet you.');
+    expect(texts(segmentWords(words, options({ breakOnPunctuation: true, minDuration: 0.5 }))))
+      .toEqual(['Hi. Nice to meet you.']);
+  });
+
+  it('moves a word over instead of leaving an orphan at a limit', () => {
+    const words = wordsOf('one two three four five six seven');
+    const segments = segmentWords(words, options({ maxWords: 3, avoidOrphans: true }));
+    expect(texts(segments)).toEqual(['one two three', 'four five', 'six seven']);
+    expect(segments[1].endTime).toBeCloseTo(words[4].end);
+    expect(segments[2].startTime).toBeCloseTo(words[5].start);
+  });
+
+  it('keeps an orphan that follows a pause or a short segment', () => {
+    const afterPause: Word[] = [...wordsOf('one two three'), { text: 'four', start: 5, end: 5.2 }];
+    expect(texts(segmentWords(afterPause, options({ maxWords: 3, pauseThreshold: 1, avoidOrphans: true }))))
+      .toEqual(['one two three', 'four']);
+    expect(texts(segmentWords(wordsOf('one two three'), options({ maxWords: 2, avoidOrphans: true }))))
+      .toEqual(['one two', 'three']);
+  });
+
+  it('holds a short segment for minDuration', () => {
+    const words: Word[] = [
+      { text: 'Yes.', start: 0, end: 0.2 },
+      { text: 'Later', start: 5, end: 5.5 },
+    ];
+    const [first] = segmentWords(words, options({ minDuration: 0.6, pauseThreshold: 1 }));
+    expect(first.endTime).toBeCloseTo(0.6);
+  });
+
+  it('stops the hold-over at the start of the next segment', () => {
+    const words: Word[] = [
+      { text: 'Yes.', start: 0, end: 0.2 },
+      { text: 'No.', start: 0.4, end: 0.6 },
+    ];
+    const segments = segmentWords(words, options({ minDuration: 1, pauseThreshold: 0.1 }));
+    expect(texts(segments)).toEqual(['Yes.', 'No.']);
+    expect(segments[0].endTime).toBeCloseTo(0.4);
+    expect(segments[1].endTime).toBeCloseTo(1.4);
+  });
+
+  it('keeps the word timings on each segment', () => {
+    const words = wordsOf('one two three');
+    const [segment] = segmentWords(words, options());
+    expect(segment.words).toEqual(words);
+    expect(segment.startTime).toBe(0);
+    expect(segment.endTime).toBeCloseTo(0.6);
+  });
+
+  it('uses the defaults when no options are given', () => {
+    const segments = segmentWords(wordsOf('one two three four five six seven eight nine ten eleven twelve'));
+    segments.forEach(s => {
+      expect(s.words!.length).toBeLessThanOrEqual(DEFAULT_SEGMENTATION_OPTIONS.maxWords);
+      expect(s.text.length).toBeLessThanOrEqual(DEFAULT_SEGMENTATION_OPTIONS.maxChars);
+    });
+  });
+});
+
+describe('resegmentSubtitles', () => {
+  it('splits existing captions with new options', () => {
+    const subtitles = segmentWords(wordsOf('one two three four'), options());
+    expect(texts(resegmentSubtitles(subtitles, options({ maxWords: 2 })))).toEqual(['one two', 'three four']);
+  });
+
+  it('splits captions without word timings on estimated ones, but leaves them without words', () => {
+    const subtitles: SubtitleSegment[] = [{ startTime: 0, endTime: 2, text: 'aa bb cc dd' }];
+    const segments = resegmentSubtitles(subtitles, options({ maxWords: 2 }));
+    expect(texts(segments)).toEqual(['aa bb', 'cc dd']);
+    expect(segments[0].endTime).toBeCloseTo(1);
+    expect(segments[1].startTime).toBeCloseTo(1);
+    segments.forEach(s => expect(s.words).toBeUndefined());
+  });
+
+  it('keeps real word timings next to captions that have none', () => {
+    const timed = segmentWords(wordsOf('one two'), options())[0];
+    const subtitles: SubtitleSegment[] = [timed, { startTime: 5, endTime: 6, text: 'three four' }];
+    const segments = resegmentSubtitles(subtitles, options({ pauseThreshold: 1 }));
+    expect(texts(segments)).toEqual(['one two', 'three four']);
+    expect(segments[0].words).toEqual(timed.words);
+    expect(segments[1].words).toBeUndefined();
+  });
+
+  it('cuts each translation at the same share of words as its caption', () => {
+    const subtitles: SubtitleSegment[] = [
+      { startTime: 0, endTime: 2, text: 'aa bb cc dd', translation: 'un deux trois quatre' },
+      { startTime: 2, endTime: 3, text: 'ee ff', translation: 'cinq six' },
+    ];
+    const segments = resegmentSubtitles(subtitles, options({ maxWords: 3 }));
+    expect(segments.map(s => [s.text, s.translation])).toEqual([
+      ['aa bb cc', 'un deux trois'],
+      ['dd ee ff', 'quatre cinq six'],
+    ]);
+  });
+
+  it('leaves captions that were never translated without a translation', () => {
+    const subtitles: SubtitleSegment[] = [
+      { startTime: 0, endTime: 1, text: 'aa bb', translation: 'un deux' },
+      { startTime: 5, endTime: 6, text: 'cc dd' },
+    ];
+    const segments = resegmentSubtitles(subtitles, options({ pauseThreshold: 1 }));
+    expect(segments.map(s => s.translation)).toEqual(['un deux', undefined]);
+  });
+
+  it('breaks where the speaker changes and keeps each turn\'s speaker', () => {
+    const subtitles: SubtitleSegment[] = [
+      { startTime: 0, endTime: 1, text: 'aa bb', speaker: 'Ana' },
+      { startTime: 1, endTime: 2, text: 'cc dd', speaker: 'Ben' },
+      { startTime: 2, endTime: 3, text: 'ee ff', speaker: 'Ben' },
+    ];
+    const segments = resegmentSubtitles(subtitles, options({ maxWords: 3 }));
+    expect(segments.map(s => [s.text, s.speaker])).toEqual([['aa bb', 'Ana'], ['cc dd ee', 'Ben'], ['ff', 'Ben']]);
+  });
+
+  it('holds the last cue of a turn for minDuration only up to the next turn', () => {
+    const subtitles: SubtitleSegment[] = [
+      { startTime: 0, endTime: 0.2, text: 'aa', speaker: 'Ana' },
+      { startTime: 0.3, endTime: 1, text: 'bb', speaker: 'Ben' },
+    ];
+    const segments = resegmentSubtitles(subtitles, options({ minDuration: 1 }));
+    expect(segments[0].endTime).toBeCloseTo(0.3);
+    expect(segments[1].endTime).toBeCloseTo(1.3);
+  });
+});
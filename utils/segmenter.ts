@@ -0,0 +1,190 @@
+import { SegmentationOptions, SubtitleSegment, Word } from '../types';
+
+export const DEFAULT_SEGMENTATION_OPTIONS: SegmentationOptions = {
+  maxWords: 5,
+  maxChars: 32,
+  maxDuration: 3,
+  minDuration: 0.6,
+  pauseThreshold: 0.8,
+  breakOnPunctuation: true,
+  avoidOrphans: true,
+};
+
+type BreakReason = 'limit' | 'pause' | 'punctuation' | 'end';
+
+interface WordGroup {
+  words: Word[];
+  breakAfter: BreakReason;
+}
+
+const SENTENCE_END = /[.!?…。！？]["'”’)\]]*$/;
+
+const joinWords = (words: Word[]) => words.map(w => w.text).join(' ');
+
+const fitsLimits = (words: Word[], options: SegmentationOptions) =>
+  words.length <= options.maxWords &&
+  joinWords(words).length <= options.maxChars &&
+  words[words.length - 1].end - words[0].start <= options.maxDuration;
+
+const groupWords = (words: Word[], options: SegmentationOptions): WordGroup[] => {
+  const groups: WordGroup[] = [];
+  let current: Word[] = [];
+
+  const flush = (reason: BreakReason) => {
+    if (current.length > 0) groups.push({ words: current, breakAfter: reason });
+    current = [];
+  };
+
+  words.forEach((word, i) => {
+    // Hard limits are checked before adding, so a segment never exceeds them (unless one word alone does)
+    if (current.length > 0 && !fitsLimits([...current, word], options)) flush('limit');
+    current.push(word);
+
+    const next = words[i + 1];
+    if (!next) return;
+    if (next.start - word.end > options.pauseThreshold) {
+      flush('pause');
+    } else if (
+      options.breakOnPunctuation &&
+      SENTENCE_END.test(word.text) &&
+      word.end - current[0].start >= options.minDuration
+    ) {
+      flush('punctuation');
+    }
+  });
+  flush('end');
+
+  return groups;
+};
+
+// A one-word segment caused by a length limit borrows the last word of the segment before it.
+// Merging is not an option: the limit is exactly what stopped the word joining that segment.
+const fixOrphans = (groups: WordGroup[], options: SegmentationOptions): WordGroup[] => {
+  const result: WordGroup[] = [];
+  groups.forEach(group => {
+    const prev = result[result.length - 1];
+    if (group.words.length !== 1 || !prev || prev.breakAfter !== 'limit' || prev.words.length < 3) {
+      result.push(group);
+      return;
+    }
+    const balanced = [prev.words[prev.words.length - 1], ...group.words];
+    if (!fitsLimits(balanced, options)) {
+      result.push(group);
+      return;
+    }
+    result[result.length - 1] = { words: prev.words.slice(0, -1), breakAfter: 'limit' };
+    result.push({ words: balanced, breakAfter: group.breakAfter });
+  });
+  return result;
+};
+
+/**
+ * Splits a flat, time-ordered list of words into subtitle segments.
+ * Pure: the same words and options always produce the same segments.
+ */
+export const segmentWords = (words: Word[], options: SegmentationOptions = DEFAULT_SEGMENTATION_OPTIONS): SubtitleSegment[] => {
+  const cleanWords = words
+    .map(w => ({ ...w, text: w.text.trim() }))
+    .filter(w => w.text.length > 0);
+  if (cleanWords.length === 0) return [];
+
+  let groups = groupWords(cleanWords, options);
+  if (options.avoidOrphans) groups = fixOrphans(groups, options);
+
+  return groups.map((group, i) => {
+    const startTime = group.words[0].start;
+    let endTime = group.words[group.words.length - 1].end;
+
+    // Hold short cues for minDuration, without running into the next one
+    if (endTime - startTime < options.minDuration) {
+      const nextStart = groups[i + 1]?.words[0].start ?? Infinity;
+      endTime = Math.max(endTime, Math.min(startTime + options.minDuration, nextStart));
+    }
+
+    return {
+      startTime,
+      endTime,
+      text: joinWords(group.words),
+      words: group.words,
+    };
+  });
+};
+
+// Spreads a segment's text over its time range, weighting each word by its length
+export const estimateWordTimings = (text: string, startTime: number, endTime: number): Word[] => {
+  const texts = text.split(/\s+/).filter(Boolean);
+  const totalChars = texts.reduce((sum, t) => sum + t.length, 0);
+  const span = endTime - startTime;
+  let cursor = startTime;
+  return texts.map(t => {
+    const start = cursor;
+    cursor += totalChars > 0 ? span * (t.length / totalChars) : 0;
+    return { text: t, start, end: cursor };
+  });
+};
+
+interface SourcedWord extends Word {
+  // Index of the caption the word came from
+  source: number;
+  estimated?: boolean;
+}
+
+// Hands each old caption's translation to the new segments holding its words, cut at the same share of
+// its words as each segment got; splitSegment cuts translations the same way
+const carryTranslations = (subtitles: SubtitleSegment[], groups: SourcedWord[][]): (string | undefined)[] => {
+  const totals = new Map<number, number>();
+  groups.flat().forEach(w => totals.set(w.source, (totals.get(w.source) ?? 0) + 1));
+  const taken = new Map<number, number>();
+  return groups.map(group => {
+    const sources = [...new Set(group.map(w => w.source))].filter(source => subtitles[source].translation !== undefined);
+    if (sources.length === 0) return undefined;
+    return sources
+      .map(source => {
+        const translationWords = subtitles[source].translation!.split(/\s+/).filter(Boolean);
+        const total = totals.get(source)!;
+        const before = taken.get(source) ?? 0;
+        const count = group.filter(w => w.source === source).length;
+        taken.set(source, before + count);
+        const from = Math.round(translationWords.length * (before / total));
+        const to = Math.round(translationWords.length * ((before + count) / total));
+        return translationWords.slice(from, to).join(' ');
+      })
+      .filter(Boolean)
+      .join(' ');
+  });
+};
+
+// Re-runs segmentation over existing subtitles, so option changes apply without transcribing again.
+// Captions without word timings are split on estimated ones, but don't get them: exports would show them as real.
+export const resegmentSubtitles = (subtitles: SubtitleSegment[], options: SegmentationOptions): SubtitleSegment[] => {
+  const words: SourcedWord[] = subtitles.flatMap((sub, source) =>
+    sub.words && sub.words.length > 0
+      ? sub.words.map(w => ({ ...w, source }))
+      : estimateWordTimings(sub.text, sub.startTime, sub.endTime).map(w => ({ ...w, source, estimated: true }))
+  );
+
+  // Each speaker's turn is segmented on its own, so no segment runs from one speaker into the next
+  const turns: SourcedWord[][] = [];
+  words.forEach((word, i) => {
+    if (i === 0 || subtitles[word.source].speaker !== subtitles[words[i - 1].source].speaker) turns.push([]);
+    turns[turns.length - 1].push(word);
+  });
+  const resegmented = turns.flatMap(turn => segmentWords(turn, options));
+
+  const translations = carryTranslations(subtitles, resegmented.map(segment => segment.words as SourcedWord[]));
+  return resegmented.map((segment, i) => {
+    const { words: grouped, ...rest } = segment;
+    const sourced = grouped as SourcedWord[];
+    const { speaker } = subtitles[sourced[0].source];
+    const translation = translations[i];
+    // The minDuration hold stops at the next segment within a turn; the last one of a turn stops at the next turn
+    const nextStart = resegmented[i + 1]?.startTime ?? Infinity;
+    return {
+      ...rest,
+      endTime: Math.max(sourced[sourced.length - 1].end, Math.min(segment.endTime, nextStart)),
+      ...(sourced.some(w => w.estimated) ? {} : { words: sourced.map(({ source: _, ...word }) => word) }),
+      ...(translation !== undefined ? { translation } : {}),
+      ...(speaker ? { speaker } : {}),
+    };
+  });
+};
@@ -0,0 +1,271 @@
+import { SpeakerStyle, SpeakerStyles, SubtitleSegment } from '../types';
+import { TARGET_SAMPLE_RATE, getDecodedAudio } from './audioUtils';
+import { isColor } from './stylePresets';
+import { isFiniteNumber, isRecord } from './subtitleParsers';
+
+// Highlight colours handed to speakers in the order they are found
+export const SPEAKER_COLORS = ['#EAB308', '#38BDF8', '#F472B6', '#4ADE80', '#FB923C', '#A78BFA'];
+export const MAX_SPEAKERS = SPEAKER_COLORS.length;
+
+const FRAME_SIZE = 512;          // 32 ms at 16 kHz, analysed back to back
+const MEL_BANDS = 24;
+const CEPSTRA = 12;              // c1..c12; c0 is loudness, which says more about the mic than the voice
+const MIN_FREQ = 80;
+const MAX_FREQ = 7600;
+const MAX_FRAMES_PER_SEGMENT = 200;
+const SILENT_FRAME_RMS = 0.003;  // About -50 dBFS
+const MIN_VOICED_FRAMES = 3;
+// With 'auto', the best split must be at least this clear (silhouette score) to count as more than one voice;
+// one voice reading varied text scores around 0.3, distinct voices well above 0.5
+const MIN_SILHOUETTE = 0.4;
+const KMEANS_ITERATIONS = 30;
+
+export const speakerName = (index: number) => `Speaker ${index + 1}`;
+
+export const defaultSpeakerStyle = (index: number): SpeakerStyle => ({
+  highlightColor: SPEAKER_COLORS[index % SPEAKER_COLORS.length],
+  positionY: null,
+});
+
+// In-place iterative radix-2 FFT; `re.length` must be a power of two
+const fft = (re: Float64Array, im: Float64Array) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k), sin = Math.sin(angle * k);
+        const a = start + k, b = a + size / 2;
+        const tRe = re[b] * cos - im[b] * sin;
+        const tIm = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+      }
+    }
+  }
+};
+
+const toMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+const fromMel = (mel: number) => 700 * (10 ** (mel / 2595) - 1);
+
+// Triangular filters over the FFT bins, evenly spaced on the mel scale
+const buildMelFilters = (sampleRate: number): Float64Array[] => {
+  const bins = FRAME_SIZE / 2 + 1;
+  const low = toMel(MIN_FREQ), high = toMel(Math.min(MAX_FREQ, sampleRate / 2));
+  const edges = Array.from({ length: MEL_BANDS + 2 }, (_, i) => (fromMel(low + ((high - low) * i) / (MEL_BANDS + 1)) * FRAME_SIZE) / sampleRate);
+  return Array.from({ length: MEL_BANDS }, (_, band) => {
+    const weights = new Float64Array(bins);
+    const [left, centre, right] = [edges[band], edges[band + 1], edges[band + 2]];
+    for (let bin = Math.ceil(left); bin <= Math.floor(right) && bin < bins; bin++) {
+      weights[bin] = bin <= centre ? (bin - left) / (centre - left) : (right - bin) / (right - centre);
+    }
+    return weights;
+  });
+};
+
+const HANN = Float64Array.from({ length: FRAME_SIZE }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (FRAME_SIZE - 1)));
+
+// Mel-cepstral coefficients of one frame, or null when the frame is too quiet to say anything about the voice
+const frameCepstra = (samples: Float32Array, offset: number, filters: Float64Array[]): Float64Array | null => {
+  const re = new Float64Array(FRAME_SIZE), im = new Float64Array(FRAME_SIZE);
+  let energy = 0;
+  for (let i = 0; i < FRAME_SIZE; i++) {
+    const value = samples[offset + i] ?? 0;
+    energy += value * value;
+    re[i] = value * HANN[i];
+  }
+  if (Math.sqrt(energy / FRAME_SIZE) < SILENT_FRAME_RMS) return null;
+  fft(re, im);
+
+  const logBands = filters.map(weights => {
+    let sum = 0;
+    for (let bin = 0; bin < weights.length; bin++) if (weights[bin] > 0) sum += weights[bin] * (re[bin] * re[bin] + im[bin] * im[bin]);
+    return Math.log(sum + 1e-10);
+  });
+  const cepstra = new Float64Array(CEPSTRA);
+  for (let c = 1; c <= CEPSTRA; c++) {
+    let sum = 0;
+    for (let b = 0; b < MEL_BANDS; b++) sum += logBands[b] * Math.cos((Math.PI * c * (b + 0.5)) / MEL_BANDS);
+    cepstra[c - 1] = sum;
+  }
+  return cepstra;
+};
+
+// Average voice colour of each segment: mean cepstra over its voiced frames, null when it has too few
+export const computeSpeakerFeatures = (samples: Float32Array, sampleRate: number, subtitles: SubtitleSegment[]): (Float64Array | null)[] => {
+  const filters = buildMelFilters(sampleRate);
+  return subtitles.map(segment => {
+    const first = Math.max(0, Math.floor(segment.startTime * sampleRate));
+    const last = Math.min(samples.length - FRAME_SIZE, Math.floor(segment.endTime * sampleRate) - FRAME_SIZE);
+    const frames = Math.floor((last - first) / FRAME_SIZE) + 1;
+    if (frames <= 0) return null;
+    // Long segments are sampled evenly rather than analysed frame by frame
+    const step = Math.max(1, Math.ceil(frames / MAX_FRAMES_PER_SEGMENT));
+    const mean = new Float64Array(CEPSTRA);
+    let voiced = 0;
+    for (let f = 0; f < frames; f += step) {
+      const cepstra = frameCepstra(samples, first + f * FRAME_SIZE, filters);
+      if (!cepstra) continue;
+      cepstra.forEach((value, i) => { mean[i] += value; });
+      voiced++;
+    }
+    if (voiced < MIN_VOICED_FRAMES) return null;
+    return mean.map(value => value / voiced);
+  });
+};
+
+const distance = (a: Float64Array, b: Float64Array) => {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) ** 2;
+  return Math.sqrt(sum);
+};
+
+// Deterministic k-means: farthest-point seeding from the first point, so the same audio always gives the same speakers
+const kMeans = (points: Float64Array[], k: number): number[] => {
+  const centres = [points[0]];
+  while (centres.length < k) {
+    let farthest = 0, farthestDistance = -1;
+    points.forEach((p, i) => {
+      const nearest = Math.min(...centres.map(c => distance(p, c)));
+      if (nearest > farthestDistance) { farthest = i; farthestDistance = nearest; }
+    });
+    centres.push(points[farthest]);
+  }
+
+  let labels = points.map(() => 0);
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    const next = points.map(p => {
+      let best = 0;
+      centres.forEach((c, i) => { if (distance(p, c) < distance(p, centres[best])) best = i; });
+      return best;
+    });
+    const settled = next.every((label, i) => label === labels[i]);
+    labels = next;
+    centres.forEach((_, c) => {
+      const members = points.filter((_, i) => labels[i] === c);
+      if (members.length === 0) return;
+      centres[c] = members[0].map((_, d) => members.reduce((sum, m) => sum + m[d], 0) / members.length);
+    });
+    if (settled && iteration > 0) break;
+  }
+  return labels;
+};
+
+// Mean silhouette: near 1 when every point sits far closer to its own cluster than to the next one
+const silhouette = (points: Float64Array[], labels: number[], k: number): number => {
+  let total = 0;
+  points.forEach((p, i) => {
+    const sums = new Array(k).fill(0), counts = new Array(k).fill(0);
+    points.forEach((q, j) => {
+      if (i === j) return;
+      sums[labels[j]] += distance(p, q);
+      counts[labels[j]]++;
+    });
+    const own = counts[labels[i]] > 0 ? sums[labels[i]] / counts[labels[i]] : 0;
+    const other = Math.min(...sums.map((s, c) => (c === labels[i] || counts[c] === 0 ? Infinity : s / counts[c])));
+    total += counts[labels[i]] === 0 || !Number.isFinite(other) ? 0 : (other - own) / Math.max(own, other);
+  });
+  return total / points.length;
+};
+
+/**
+ * Groups segments by voice. Returns a cluster index per segment, numbered in order of first appearance.
+ * Segments too short or quiet to measure take the label of the nearest measured segment before them.
+ */
+export const clusterSpeakers = (features: (Float64Array | null)[], count: number | 'auto'): number[] => {
+  const measured = features.flatMap((f, i) => (f ? [i] : []));
+  if (measured.length === 0) return features.map(() => 0);
+  // Cepstra share one scale (log energy), so distances are taken on them as they are
+  const points = measured.map(i => features[i]!);
+
+  let labels = points.map(() => 0);
+  if (count === 'auto') {
+    let bestScore = MIN_SILHOUETTE;
+    for (let k = 2; k <= Math.min(MAX_SPEAKERS, points.length - 1); k++) {
+      const candidate = kMeans(points, k);
+      const score = silhouette(points, candidate, k);
+      if (score > bestScore) { bestScore = score; labels = candidate; }
+    }
+  } else if (count > 1 && points.length >= count) {
+    labels = kMeans(points, count);
+  }
+
+  const bySegment: number[] = [];
+  let last = labels[0];
+  features.forEach((_, i) => {
+    const index = measured.indexOf(i);
+    if (index !== -1) last = labels[index];
+    bySegment.push(last);
+  });
+
+  // Renumber so the first voice heard is speaker 0
+  const order: number[] = [];
+  bySegment.forEach(label => { if (!order.includes(label)) order.push(label); });
+  return bySegment.map(label => order.indexOf(label));
+};
+
+/**
+ * Labels every segment with a speaker, using the same decoded audio as the waveform.
+ * Returns the labelled segments and a style for each speaker found; one voice leaves the segments unlabelled.
+ */
+export const detectSpeakers = async (
+  file: File,
+  subtitles: SubtitleSegment[],
+  count: number | 'auto'
+): Promise<{ subtitles: SubtitleSegment[]; speakers: SpeakerStyles }> => {
+  const samples = await getDecodedAudio(file);
+  const labels = clusterSpeakers(computeSpeakerFeatures(samples, TARGET_SAMPLE_RATE, subtitles), count);
+  const found = Math.max(0, ...labels) + 1;
+  if (found < 2) return { subtitles: subtitles.map(({ speaker, ...segment }) => segment), speakers: {} };
+
+  const speakers: SpeakerStyles = {};
+  for (let i = 0; i < found; i++) speakers[speakerName(i)] = defaultSpeakerStyle(i);
+  return { subtitles: subtitles.map((segment, i) => ({ ...segment, speaker: speakerName(labels[i]) })), speakers };
+};
+
+// Speakers in order of first appearance, followed by any that have a style but no captions yet
+export const listSpeakers = (subtitles: SubtitleSegment[], speakers: SpeakerStyles): string[] => {
+  const names: string[] = [];
+  subtitles.forEach(s => { if (s.speaker && !names.includes(s.speaker)) names.push(s.speaker); });
+  Object.keys(speakers).forEach(name => { if (!names.includes(name)) names.push(name); });
+  return names;
+};
+
+// Renames across every segment and the style table; merging into an existing name keeps that speaker's style
+export const renameSpeaker = (
+  subtitles: SubtitleSegment[],
+  speakers: SpeakerStyles,
+  from: string,
+  to: string
+): { subtitles: SubtitleSegment[]; speakers: SpeakerStyles } => {
+  const { [from]: style, ...rest } = speakers;
+  return {
+    subtitles: subtitles.map(s => (s.speaker === from ? { ...s, speaker: to } : s)),
+    speakers: { ...rest, [to]: rest[to] ?? style ?? defaultSpeakerStyle(Object.keys(rest).length) },
+  };
+};
+
+// For speaker tables read from storage or a bundle
+export const sanitizeSpeakers = (input: unknown): SpeakerStyles => {
+  if (!isRecord(input) || Array.isArray(input)) return {};
+  const speakers: SpeakerStyles = {};
+  Object.entries(input).forEach(([name, value], index) => {
+    if (!name.trim() || !isRecord(value)) return;
+    speakers[name] = {
+      highlightColor: isColor(value.highlightColor) ? value.highlightColor : defaultSpeakerStyle(index).highlightColor,
+      positionY: isFiniteNumber(value.positionY) ? value.positionY : null,
+    };
+  });
+  return speakers;
+};
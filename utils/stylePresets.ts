@@ -0,0 +1,174 @@
+import { StylePreset, SubtitleStyle } from '../types';
+import { DEFAULT_SUBTITLE_STYLE } from './captionRenderer';
+import { isRecord } from './subtitleParsers';
+
+const USER_PRESETS_KEY = 'runnadd.stylePresets.v1';
+
+const preset = (id: string, name: string, overrides: Partial<SubtitleStyle>): StylePreset => ({
+  id,
+  name,
+  builtIn: true,
+  style: { ...DEFAULT_SUBTITLE_STYLE, ...overrides },
+});
+
+export const BUILT_IN_PRESETS: StylePreset[] = [
+  preset('runnadd-classic', 'Runnadd Classic', {}),
+  // Heavy uppercase with a green pop, as seen on business/motivation clips
+  preset('bold-green', 'Bold Green', {
+    fontFamily: 'Montserrat',
+    fontWeight: 900,
+    fontSize: 32,
+    highlightColor: '#22C55E',
+    strokeWidth: 0.1,
+    shadowBlur: 6,
+    shadowOffsetY: 3,
+    maxLines: 1,
+    anchor: 'safe-middle',
+    wordAnimation: 'pop',
+  }),
+  // Chunky comic lettering used by challenge/vlog channels
+  preset('comic-punch', 'Comic Punch', {
+    fontFamily: 'Bangers',
+    fontWeight: 400,
+    fontSize: 38,
+    highlightColor: '#EF4444',
+    strokeWidth: 0.12,
+    shadowBlur: 0,
+    shadowOffsetY: 4,
+    wordSpacing: 0.25,
+    maxLines: 1,
+    wordAnimation: 'bounce',
+    segmentTransition: 'slide',
+  }),
+  // Sentence-case text on a dark pill, common on explainer and study content
+  preset('clean-pill', 'Clean Pill', {
+    fontFamily: 'Poppins',
+    fontWeight: 600,
+    fontSize: 22,
+    textCase: 'none',
+    highlightColor: '#FACC15',
+    strokeWidth: 0,
+    boxColor: '#000000',
+    boxOpacity: 0.75,
+    anchor: 'safe-bottom',
+    wordAnimation: 'karaoke',
+    segmentTransition: 'fade',
+  }),
+  // Quiet lowercase with a soft shadow for podcasts and interviews
+  preset('podcast-soft', 'Podcast Soft', {
+    fontFamily: 'Inter',
+    fontWeight: 800,
+    fontSize: 24,
+    textCase: 'lower',
+    highlightColor: '#A78BFA',
+    strokeWidth: 0,
+    shadowBlur: 12,
+    shadowOffsetY: 2,
+    shadowColor: '#000000',
+    maxLines: 2,
+    wordAnimation: 'typewriter',
+    segmentTransition: 'fade',
+  }),
+  preset('headline-bebas', 'Headline', {
+    fontFamily: 'Bebas Neue',
+    fontWeight: 400,
+    fontSize: 44,
+    highlightColor: '#38BDF8',
+    strokeWidth: 0.06,
+    wordSpacing: 0.2,
+    anchor: 'safe-top',
+    maxLines: 1,
+  }),
+];
+
+type FieldCheck<T> = (value: unknown) => value is T;
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+const oneOf = <T extends string>(...values: T[]): FieldCheck<T> => (value): value is T => values.includes(value as T);
+
+// What the canvas and the ASS export both understand: #rgb, #rrggbb, rgb() or rgba()
+const COLOR_PATTERN = /^(#[0-9a-f]{3}|#[0-9a-f]{6}|rgba?\(\s*\d{1,3}\s*,\s*\d{1,3}\s*,\s*\d{1,3}\s*(,\s*(0|1|0?\.\d+)\s*)?\))$/i;
+
+export const isColor = (value: unknown): value is string => typeof value === 'string' && COLOR_PATTERN.test(value);
+
+const STYLE_FIELDS: { [K in keyof SubtitleStyle]: FieldCheck<SubtitleStyle[K]> } = {
+  fontFamily: isString,
+  fontWeight: isNumber,
+  fontSize: isNumber,
+  textCase: oneOf('none', 'upper', 'lower', 'title'),
+  fillColor: isColor,
+  highlightColor: isColor,
+  strokeColor: isColor,
+  strokeWidth: isNumber,
+  shadowColor: isColor,
+  shadowBlur: isNumber,
+  shadowOffsetY: isNumber,
+  boxColor: (value): value is string | null => value === null || isColor(value),
+  boxOpacity: isNumber,
+  boxPadding: isNumber,
+  boxRadius: isNumber,
+  lineHeight: isNumber,
+  wordSpacing: isNumber,
+  anchor: oneOf('custom', 'safe-top', 'safe-middle', 'safe-bottom'),
+  positionY: isNumber,
+  maxWidth: isNumber,
+  maxLines: isNumber,
+  wordAnimation: oneOf('none', 'pop', 'bounce', 'karaoke', 'typewriter'),
+  segmentTransition: oneOf('none', 'fade', 'slide'),
+  bilingual: oneOf('original', 'both', 'translation'),
+  translationScale: isNumber,
+};
+
+const copyField = <K extends keyof SubtitleStyle>(style: SubtitleStyle, source: Record<string, unknown>, key: K) => {
+  const value = source[key];
+  if (value === undefined) return;
+  if (!STYLE_FIELDS[key](value)) throw new Error(`Preset field "${key}" has an invalid value.`);
+  style[key] = value;
+};
+
+// Copies every known key whose value has the right type, so shared JSON can't smuggle in junk
+export const sanitizeStyle = (input: unknown): SubtitleStyle => {
+  if (!isRecord(input)) throw new Error('Preset has no "style" object.');
+  const style: SubtitleStyle = { ...DEFAULT_SUBTITLE_STYLE };
+  (Object.keys(STYLE_FIELDS) as (keyof SubtitleStyle)[]).forEach(key => copyField(style, input, key));
+  return style;
+};
+
+export const presetToJson = (stylePreset: StylePreset): string =>
+  JSON.stringify({ name: stylePreset.name, style: stylePreset.style }, null, 2) + '\n';
+
+export const parsePresetJson = (json: string): StylePreset => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    throw new Error(`Preset is not valid JSON (${(e as Error).message}).`);
+  }
+  const source = isRecord(data) ? data : {};
+  const name = typeof source.name === 'string' && source.name.trim() ? source.name.trim() : 'Imported Style';
+  return { id: `user-${Date.now()}`, name, style: sanitizeStyle(source.style) };
+};
+
+export const loadUserPresets = (): StylePreset[] => {
+  try {
+    const raw = localStorage.getItem(USER_PRESETS_KEY);
+    if (!raw) return [];
+    const list = JSON.parse(raw);
+    if (!Array.isArray(list)) return [];
+    return list.flatMap((entry: unknown) => {
+      if (!isRecord(entry)) return [];
+      try {
+        return [{ id: String(entry.id), name: String(entry.name), style: sanitizeStyle(entry.style) }];
+      } catch {
+        return [];
+      }
+    });
+  } catch {
+    return [];
+  }
+};
+
+export const saveUserPresets = (presets: StylePreset[]) => {
+  localStorage.setItem(USER_PRESETS_KEY, JSON.stringify(presets.filter(p => !p.builtIn)));
+};
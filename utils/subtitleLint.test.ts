@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { SubtitleSegment } from '../types';
+import { DEFAULT_LINT_OPTIONS, LintRule, fixAllSubtitles, fixSubtitles, lintSubtitles } from './subtitleLint';
+
+const cue = (startTime: number, endTime: number, text: string): SubtitleSegment => ({ startTime, endTime, text });
+
+const rulesOf = (subtitles: SubtitleSegment[]) => lintSubtitles(subtitles).map(i => [i.index, i.rule, i.severity]);
+
+const issuesFor = (subtitles: SubtitleSegment[], rule: LintRule) => lintSubtitles(subtitles).filter(i => i.rule === rule);
+
+const LONG_TEXT = 'this caption goes on and on with far more words than anybody could read comfortably in one go on screen';
+
+describe('lintSubtitles', () => {
+  it('finds nothing wrong with comfortable captions', () => {
+    expect(lintSubtitles([cue(0, 2, 'Hello there'), cue(2, 4, 'General Kenobi')])).toEqual([]);
+  });
+
+  it('reports empty captions as errors, and nothing else about them', () => {
+    expect(rulesOf([cue(0, 2, 'fine'), cue(2, 2, '   ')])).toEqual([[1, 'empty', 'error']]);
+  });
+
+  it('reports zero-length and inverted captions as errors', () => {
+    const issues = lintSubtitles([cue(1, 1, 'zero'), cue(3, 2, 'backwards')]);
+    expect(issues.map(i => [i.index, i.rule, i.severity, i.message])).toEqual([
+      [0, 'inverted', 'error', 'Caption has zero length'],
+      [1, 'inverted', 'error', 'Caption ends before it starts'],
+    ]);
+  });
+
+  it('reports an overlap on the earlier caption, ignoring rounding noise', () => {
+    expect(rulesOf([cue(0, 2.5, 'first one'), cue(2, 4, 'second one')])).toEqual([[0, 'overlap', 'error']]);
+    expect(rulesOf([cue(0, 2.0005, 'first one'), cue(2, 4, 'second one')])).toEqual([]);
+  });
+
+  it('warns about captions on screen too briefly', () => {
+    expect(rulesOf([cue(0, 0.2, 'Hi')])).toEqual([[0, 'too-short', 'warning']]);
+  });
+
+  it('warns about captions too fast to read', () => {
+    expect(rulesOf([cue(0, 1, 'a sentence far too long to read in a second')])).toEqual([[0, 'reading-speed', 'warning']]);
+  });
+
+  it('warns about captions with too many characters or on screen too long', () => {
+    expect(rulesOf([cue(0, 6.9, LONG_TEXT)])).toEqual([[0, 'too-long', 'warning']]);
+    expect(rulesOf([cue(0, 8, 'slow')])).toEqual([[0, 'too-long', 'warning']]);
+  });
+});
+
+describe('fixSubtitles', () => {
+  it('drop-empty removes the empty captions', () => {
+    const fixed = fixSubtitles([cue(0, 1, 'one'), cue(1, 2, ' '), cue(2, 3, 'three')], 'drop-empty');
+    expect(issuesFor(fixed, 'empty')).toEqual([]);
+    expect(fixed.map(s => s.text)).toEqual(['one', 'three']);
+  });
+
+  it('clamp-overlaps ends each caption where the next begins, words included', () => {
+    const first = { ...cue(0, 3, 'first one'), words: [{ text: 'first', start: 0, end: 1 }, { text: 'one', start: 1, end: 3 }] };
+    const fixed = fixSubtitles([first, cue(2, 4, 'second one'), cue(3.5, 5, 'third one')], 'clamp-overlaps');
+    expect(issuesFor(fixed, 'overlap')).toEqual([]);
+    expect(fixed.map(s => s.endTime)).toEqual([2, 3.5, 5]);
+    expect(fixed[0].words![1]).toEqual({ text: 'one', start: 1, end: 2 });
+  });
+
+  it('split-long halves long captions until each part fits, keeping the translation', () => {
+    const fixed = fixSubtitles([{ ...cue(0, 20, LONG_TEXT), translation: 'une traduction assez longue elle aussi' }], 'split-long');
+    expect(issuesFor(fixed, 'too-long')).toEqual([]);
+    expect(fixed.length).toBeGreaterThan(2);
+    expect(fixed.map(s => s.text).join(' ')).toBe(LONG_TEXT);
+    expect(fixed.map(s => s.translation).filter(Boolean).join(' ')).toBe('une traduction assez longue elle aussi');
+  });
+
+  it('extend-into-gaps lengthens short and fast captions into the free time around them', () => {
+    const fixed = fixSubtitles([cue(0, 0.1, 'Hi'), cue(2, 2.5, 'a sentence that takes a while to read'), cue(5, 6, 'end')], 'extend-into-gaps');
+    expect(issuesFor(fixed, 'too-short')).toEqual([]);
+    expect(issuesFor(fixed, 'reading-speed')).toEqual([]);
+    expect(issuesFor(fixed, 'overlap')).toEqual([]);
+  });
+
+  it('extend-into-gaps borrows from the gap before when the next caption is close', () => {
+    const fixed = fixSubtitles([cue(0, 1, 'one'), cue(3, 3.1, 'Hi'), cue(3.1, 4, 'next')], 'extend-into-gaps');
+    expect(issuesFor(fixed, 'too-short')).toEqual([]);
+    expect(fixed[1].endTime).toBe(3.1);
+    expect(fixed[1].startTime).toBeCloseTo(3.1 - DEFAULT_LINT_OPTIONS.minDuration);
+  });
+
+  it('puts inverted captions the right way round before fixing', () => {
+    const fixed = fixSubtitles([cue(3, 2, 'backwards'), cue(0, 1, 'first')], 'drop-empty');
+    expect(fixed.map(s => [s.text, s.startTime, s.endTime])).toEqual([['first', 0, 1], ['backwards', 2, 3]]);
+  });
+});
+
+describe('fixAllSubtitles', () => {
+  it('leaves no errors in a messy document', () => {
+    const fixed = fixAllSubtitles([cue(0, 3, 'first one'), cue(1, 1, ''), cue(2, 4, 'second one'), cue(5, 25, LONG_TEXT)]);
+    expect(lintSubtitles(fixed).filter(i => i.severity === 'error')).toEqual([]);
+    expect(issuesFor(fixed, 'too-long')).toEqual([]);
+  });
+});
@@ -0,0 +1,176 @@
+import { SubtitleSegment } from '../types';
+import { estimateWordTimings } from './segmenter';
+import { splitSegment } from './segmentEditing';
+
+export type LintSeverity = 'error' | 'warning';
+
+export type LintRule = 'empty' | 'inverted' | 'overlap' | 'too-short' | 'reading-speed' | 'too-long';
+
+export type LintFix = 'drop-empty' | 'clamp-overlaps' | 'extend-into-gaps' | 'split-long';
+
+export interface LintIssue {
+  index: number;
+  rule: LintRule;
+  severity: LintSeverity;
+  message: string;
+}
+
+export interface LintOptions {
+  minDuration: number;        // Seconds; shorter cues flash past
+  maxCharsPerSecond: number;  // Comfortable reading speed
+  maxChars: number;           // Roughly two full lines
+  maxDuration: number;        // Seconds
+}
+
+export const DEFAULT_LINT_OPTIONS: LintOptions = {
+  minDuration: 0.3,
+  maxCharsPerSecond: 20,
+  maxChars: 84,
+  maxDuration: 7,
+};
+
+// The one-click fix that resolves each rule; every fix also repairs inverted timings first
+export const LINT_FIX_FOR_RULE: Record<LintRule, LintFix> = {
+  empty: 'drop-empty',
+  inverted: 'extend-into-gaps',
+  overlap: 'clamp-overlaps',
+  'too-short': 'extend-into-gaps',
+  'reading-speed': 'extend-into-gaps',
+  'too-long': 'split-long',
+};
+
+export const LINT_FIX_LABELS: Record<LintFix, string> = {
+  'drop-empty': 'Drop empty captions',
+  'clamp-overlaps': 'Clamp overlaps',
+  'extend-into-gaps': 'Extend short captions',
+  'split-long': 'Split long captions',
+};
+
+// Applied in this order by fixAllSubtitles; splitting before extending gives the halves room to grow
+const FIX_ORDER: LintFix[] = ['drop-empty', 'clamp-overlaps', 'split-long', 'extend-into-gaps'];
+
+// Timing differences smaller than this are rounding noise from timestamp formats
+const TIMING_EPSILON = 0.001;
+
+const readingChars = (text: string) => text.replace(/\s+/g, ' ').trim().length;
+
+export const lintSubtitles = (subtitles: SubtitleSegment[], options: LintOptions = DEFAULT_LINT_OPTIONS): LintIssue[] => {
+  const issues: LintIssue[] = [];
+  subtitles.forEach((segment, index) => {
+    const chars = readingChars(segment.text);
+    if (chars === 0) {
+      issues.push({ index, rule: 'empty', severity: 'error', message: 'Caption has no text' });
+      return;
+    }
+    const duration = segment.endTime - segment.startTime;
+    if (duration <= 0) {
+      issues.push({
+        index,
+        rule: 'inverted',
+        severity: 'error',
+        message: duration === 0 ? 'Caption has zero length' : 'Caption ends before it starts',
+      });
+      return;
+    }
+
+    const next = subtitles[index + 1];
+    if (next && segment.endTime > next.startTime + TIMING_EPSILON) {
+      issues.push({ index, rule: 'overlap', severity: 'error', message: `Overlaps the next caption by ${(segment.endTime - next.startTime).toFixed(2)}s` });
+    }
+    if (duration + TIMING_EPSILON < options.minDuration) {
+      issues.push({ index, rule: 'too-short', severity: 'warning', message: `Only on screen for ${Math.round(duration * 1000)}ms` });
+    }
+    const cps = chars / (duration + TIMING_EPSILON);
+    if (cps > options.maxCharsPerSecond) {
+      issues.push({ index, rule: 'reading-speed', severity: 'warning', message: `${cps.toFixed(1)} characters per second is hard to read` });
+    }
+    if (chars > options.maxChars || duration > options.maxDuration) {
+      issues.push({
+        index,
+        rule: 'too-long',
+        severity: 'warning',
+        message: chars > options.maxChars ? `${chars} characters is more than fits on screen` : `${duration.toFixed(1)}s is long for one caption`,
+      });
+    }
+  });
+  return issues;
+};
+
+// Swaps inverted timings and sorts, so every fix starts from well-formed cues
+const normalize = (subtitles: SubtitleSegment[]): SubtitleSegment[] =>
+  subtitles
+    .map(s => (s.endTime < s.startTime ? { ...s, startTime: s.endTime, endTime: s.startTime } : s))
+    .sort((a, b) => a.startTime - b.startTime);
+
+const clampOverlaps = (subtitles: SubtitleSegment[]): SubtitleSegment[] =>
+  subtitles.map((segment, index) => {
+    const next = subtitles[index + 1];
+    if (!next || segment.endTime <= next.startTime + TIMING_EPSILON) return segment;
+    const endTime = Math.max(segment.startTime, next.startTime);
+    return {
+      ...segment,
+      endTime,
+      words: segment.words?.map(w => ({ ...w, start: Math.min(w.start, endTime), end: Math.min(w.end, endTime) })),
+    };
+  });
+
+// Lengthens cues that are too short or too fast to read, into the free time after them and then before them
+const extendIntoGaps = (subtitles: SubtitleSegment[], options: LintOptions): SubtitleSegment[] => {
+  const result = [...subtitles];
+  result.forEach((segment, index) => {
+    const chars = readingChars(segment.text);
+    if (chars === 0) return;
+    const needed = Math.max(options.minDuration, chars / options.maxCharsPerSecond);
+    const duration = segment.endTime - segment.startTime;
+    if (duration >= needed) return;
+
+    const nextStart = result[index + 1]?.startTime ?? Infinity;
+    const prevEnd = result[index - 1]?.endTime ?? 0;
+    const endTime = Math.max(segment.endTime, Math.min(segment.startTime + needed, nextStart));
+    const startTime = Math.min(segment.startTime, Math.max(endTime - needed, prevEnd));
+    result[index] = { ...segment, startTime, endTime };
+  });
+  return result;
+};
+
+// Splits a cue at the word boundary that best halves its text, recursively until each part is short enough
+const splitLong = (segment: SubtitleSegment, options: LintOptions): SubtitleSegment[] => {
+  const chars = readingChars(segment.text);
+  const duration = segment.endTime - segment.startTime;
+  if (chars <= options.maxChars && duration <= options.maxDuration) return [segment];
+
+  const words = segment.words ?? estimateWordTimings(segment.text, segment.startTime, segment.endTime);
+  if (words.length < 2) return [segment];
+  let best = 1;
+  let bestDifference = Infinity;
+  let before = 0;
+  for (let k = 1; k < words.length; k++) {
+    before += words[k - 1].text.length + 1;
+    const difference = Math.abs(before - (chars - before));
+    if (difference < bestDifference) {
+      best = k;
+      bestDifference = difference;
+    }
+  }
+  const time = (words[best - 1].end + words[best].start) / 2;
+  const halves = splitSegment([segment], 0, time);
+  if (halves.length < 2) return [segment];
+  return halves.flatMap(half => splitLong(half, options));
+};
+
+export const fixSubtitles = (subtitles: SubtitleSegment[], fix: LintFix, options: LintOptions = DEFAULT_LINT_OPTIONS): SubtitleSegment[] => {
+  const input = normalize(subtitles);
+  switch (fix) {
+    case 'drop-empty':
+      return input.filter(s => readingChars(s.text) > 0);
+    case 'clamp-overlaps':
+      return clampOverlaps(input);
+    case 'extend-into-gaps':
+      return extendIntoGaps(input, options);
+    case 'split-long':
+      return input.flatMap(s => splitLong(s, options));
+  }
+};
+
+export const fixAllSubtitles = (subtitles: SubtitleSegment[], options: LintOptions = DEFAULT_LINT_OPTIONS): SubtitleSegment[] =>
+  FIX_ORDER.reduce((current, fix) => fixSubtitles(current, fix, options), subtitles);
@@ -0,0 +1,265 @@
+import { describe, expect, it } from 'vitest';
+import { SubtitleParseError, parseAss, parseJson, parseSrt, parseSubtitles, parseTimestamp, parseVtt } from './subtitleParsers';
+
+const lines = (...content: string[]) => content.join('\n');
+
+const ASS_HEADER = [
+  '[Script Info]',
+  'ScriptType: v4.00+',
+  '',
+  '[Events]',
+  'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+];
+
+const parseErrorOf = (run: () => unknown): SubtitleParseError => {
+  try {
+    run();
+  } catch (e) {
+    if (e instanceof SubtitleParseError) return e;
+    throw e;
+  }
+  throw new Error('Expected a SubtitleParseError');
+};
+
+describe('parseTimestamp', () => {
+  it('reads every timestamp shape the formats use', () => {
+    expect(parseTimestamp('01:02:03,456')).toBeCloseTo(3723.456);
+    expect(parseTimestamp('01:02:03.456')).toBeCloseTo(3723.456);
+    expect(parseTimestamp('02:03.5')).toBeCloseTo(123.5);
+    expect(parseTimestamp('0:00:01.05')).toBeCloseTo(1.05);
+  });
+
+  it('rejects out-of-range minutes or seconds and garbage', () => {
+    expect(parseTimestamp('00:60:00,000')).toBeNull();
+    expect(parseTimestamp('00:00:60,000')).toBeNull();
+    expect(parseTimestamp('soon')).toBeNull();
+  });
+});
+
+describe('parseSrt', () => {
+  it('reads cues, with or without the counter line, and strips formatting', () => {
+    const { subtitles, issues } = parseSrt(lines(
+      '1',
+      '00:00:01,000 --> 00:00:02,500',
+      '<i>Hello</i> {\\an8}there',
+      'world',
+      '',
+      '00:00:03,000 --> 00:00:04,000',
+      'Again',
+    ));
+    expect(issues).toEqual([]);
+    expect(subtitles).toEqual([
+      { startTime: 1, endTime: 2.5, text: 'Hello there world' },
+      { startTime: 3, endTime: 4, text: 'Again' },
+    ]);
+  });
+
+  it('reports malformed cues by line and keeps the good ones', () => {
+    const { subtitles, issues } = parseSrt(lines(
+      '1',
+      'no timing here',
+      '',
+      '2',
+      '00:00:05,000 --> 00:00:04,000',
+      'Backwards',
+      '',
+      '3',
+      '00:00:xx,000 --> 00:00:07,000',
+      'Broken',
+      '',
+      '4',
+      '00:00:08,000 --> 00:00:09,000',
+      '',
+      '5',
+      '00:00:10,000 --> 00:00:11,000',
+      'Fine',
+    ));
+    expect(issues).toEqual([
+      { line: 1, message: 'Missing "-->" timing line' },
+      { line: 5, message: 'Cue ends before it starts' },
+      { line: 9, message: 'Invalid timestamp, expected HH:MM:SS,mmm --> HH:MM:SS,mmm' },
+      { line: 13, message: 'Cue has no text' },
+    ]);
+    expect(subtitles.map(s => s.text)).toEqual(['Fine']);
+  });
+});
+
+describe('parseVtt', () => {
+  it('requires the WEBVTT header', () => {
+    expect(parseVtt('00:00:01.000 --> 00:00:02.000\nHi').issues).toEqual([{ line: 1, message: 'File must start with "WEBVTT"' }]);
+  });
+
+  it('skips NOTE, STYLE and REGION blocks and ignores cue settings', () => {
+    const { subtitles, issues } = parseVtt(lines(
+      'WEBVTT',
+      '',
+      'NOTE written by hand',
+      '',
+      'STYLE',
+      '::cue { color: yellow }',
+      '',
+      'intro',
+      '00:00:01.000 --> 00:00:02.000 align:start line:10%',
+      'Fish &amp; chips',
+    ));
+    expect(issues).toEqual([]);
+    expect(subtitles).toEqual([{ startTime: 1, endTime: 2, text: 'Fish & chips' }]);
+  });
+
+  it('reads the speaker from a <v> voice span, with or without a class', () => {
+    const { subtitles } = parseVtt(lines(
+      'WEBVTT',
+      '',
+      '00:00:01.000 --> 00:00:02.000',
+      '<v Ana>Hello</v>',
+      '',
+      '00:00:03.000 --> 00:00:04.000',
+      '<v.loud Ben Smith>Hi there',
+    ));
+    expect(subtitles.map(s => [s.text, s.speaker])).toEqual([['Hello', 'Ana'], ['Hi there', 'Ben Smith']]);
+  });
+
+  it('times words from inline timestamps, spreading untagged words over their run', () => {
+    const { subtitles } = parseVtt(lines(
+      'WEBVTT',
+      '',
+      '00:00:01.000 --> 00:00:03.000',
+      'Hello big <00:00:02.000>world',
+    ));
+    expect(subtitles[0].text).toBe('Hello big world');
+    expect(subtitles[0].words).toEqual([
+      { text: 'Hello', start: 1, end: 1.5 },
+      { text: 'big', start: 1.5, end: 2 },
+      { text: 'world', start: 2, end: 3 },
+    ]);
+  });
+
+  it('leaves cues without inline timestamps without words', () => {
+    const { subtitles } = parseVtt('WEBVTT\n\n00:00:01.000 --> 00:00:02.000\nplain');
+    expect(subtitles[0].words).toBeUndefined();
+  });
+});
+
+describe('parseAss', () => {
+  it('reads dialogue, keeping commas in the text and turning \\N into spaces', () => {
+    const { subtitles, issues } = parseAss(lines(
+      ...ASS_HEADER,
+      'Comment: 0,0:00:00.00,0:00:01.00,Default,,0,0,0,,ignored',
+      'Dialogue: 0,0:00:01.00,0:00:02.50,Default,Ana,0,0,0,,{\\an8}Well, hello\\Nthere',
+    ));
+    expect(issues).toEqual([]);
+    expect(subtitles).toEqual([{ startTime: 1, endTime: 2.5, text: 'Well, hello there' }]);
+  });
+
+  it('reads \\k karaoke into words, joining syllables without a space between them', () => {
+    const { subtitles } = parseAss(lines(
+      ...ASS_HEADER,
+      'Dialogue: 0,0:00:01.00,0:00:03.00,Default,,0,0,0,,{\\k50}Hel{\\kf30}lo {\\k20}{\\K40}big world',
+    ));
+    expect(subtitles[0].text).toBe('Hello big world');
+    const words = subtitles[0].words!;
+    expect(words.map(w => w.text)).toEqual(['Hello', 'big', 'world']);
+    expect(words[0].start).toBeCloseTo(1);
+    expect(words[0].end).toBeCloseTo(1.8);
+    // After the empty 0.2s pause, one 0.4s span covers both words
+    expect(words[1].start).toBeCloseTo(2);
+    expect(words[1].end).toBeCloseTo(2.2);
+    expect(words[2].start).toBeCloseTo(2.2);
+    expect(words[2].end).toBeCloseTo(2.4);
+  });
+
+  it('reports dialogue before the Format line, missing fields and bad times', () => {
+    const { issues } = parseAss(lines(
+      '[Events]',
+      'Dialogue: 0,0:00:01.00,0:00:02.00,Default,,0,0,0,,too early',
+      'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+      'Dialogue: 0,0:00:01.00,0:00:02.00',
+      'Dialogue: 0,0:00:03.00,0:00:02.00,Default,,0,0,0,,backwards',
+      'Dialogue: 0,0:00:03.00,0:00:04.00,Default,,0,0,0,,{\\b1}',
+    ));
+    expect(issues).toEqual([
+      { line: 2, message: 'Dialogue before the [Events] Format line' },
+      { line: 4, message: 'Expected 10 fields, found 3' },
+      { line: 5, message: 'Cue ends before it starts' },
+      { line: 6, message: 'Dialogue has no text' },
+    ]);
+  });
+
+  it('reports a file without any dialogue', () => {
+    expect(parseAss('[Script Info]\nTitle: empty').issues).toEqual([{ line: 1, message: 'No Dialogue lines found in an [Events] section' }]);
+  });
+});
+
+describe('parseJson', () => {
+  it('reads a bare array or a { subtitles } object, keeping only known fields', () => {
+    const entry = {
+      startTime: 1,
+      endTime: 2,
+      text: 'Hi',
+      words: [{ text: 'Hi', start: 1, end: 2, confidence: 0.9 }],
+      translation: 'Salut',
+      speaker: '  Ana ',
+      colour: 'red',
+    };
+    const expected = [{ startTime: 1, endTime: 2, text: 'Hi', words: [{ text: 'Hi', start: 1, end: 2 }], translation: 'Salut', speaker: 'Ana' }];
+    expect(parseJson(JSON.stringify([entry])).subtitles).toEqual(expected);
+    expect(parseJson(JSON.stringify({ subtitles: [entry] })).subtitles).toEqual(expected);
+  });
+
+  it('drops a blank speaker and a non-string translation', () => {
+    const { subtitles } = parseJson(JSON.stringify([{ startTime: 0, endTime: 1, text: 'a', speaker: ' ', translation: 3 }]));
+    expect(subtitles).toEqual([{ startTime: 0, endTime: 1, text: 'a' }]);
+  });
+
+  it('reports entries with the wrong shape by their number', () => {
+    const { subtitles, issues } = parseJson(JSON.stringify([
+      { startTime: '0', endTime: 1, text: 'a' },
+      { startTime: 0, endTime: 1 },
+      { startTime: 2, endTime: 1, text: 'c' },
+      { startTime: 0, endTime: 1, text: 'd', words: [{ text: 'd', start: 0 }] },
+      null,
+      { startTime: 0, endTime: 1, text: 'ok' },
+    ]));
+    expect(issues).toEqual([
+      { line: 1, message: 'Entry 1 needs numeric startTime/endTime and a text string' },
+      { line: 2, message: 'Entry 2 needs numeric startTime/endTime and a text string' },
+      { line: 3, message: 'Cue ends before it starts' },
+      { line: 4, message: 'Entry 4 has malformed words' },
+      { line: 5, message: 'Entry 5 needs numeric startTime/endTime and a text string' },
+    ]);
+    expect(subtitles.map(s => s.text)).toEqual(['ok']);
+  });
+
+  it('reports invalid JSON and the wrong top-level shape', () => {
+    expect(parseJson('{').issues[0].message).toMatch(/^Invalid JSON/);
+    expect(parseJson('{"cues": []}').issues).toEqual([{ line: 1, message: 'Expected an array of subtitle segments' }]);
+  });
+});
+
+describe('parseSubtitles', () => {
+  it('picks the parser from the extension, or sniffs the content', () => {
+    const srt = '1\n00:00:02,000 --> 00:00:03,000\nSecond\n\n2\n00:00:00,000 --> 00:00:01,000\nFirst\n';
+    expect(parseSubtitles(srt, 'captions.SRT').map(s => s.text)).toEqual(['First', 'Second']);
+    expect(parseSubtitles('WEBVTT\n\n00:00:01.000 --> 00:00:02.000\nHi', 'captions.txt')[0].text).toBe('Hi');
+    expect(parseSubtitles('[{"startTime":0,"endTime":1,"text":"Hi"}]', 'download')[0].text).toBe('Hi');
+  });
+
+  it('throws a SubtitleParseError naming the file and listing the issues', () => {
+    const error = parseErrorOf(() => parseSubtitles('1\n00:00:05,000 --> 00:00:04,000\nBackwards', 'bad.srt'));
+    expect(error.name).toBe('SubtitleParseError');
+    expect(error.issues).toEqual([{ line: 2, message: 'Cue ends before it starts' }]);
+    expect(error.message).toBe('Could not read captions from "bad.srt":\nLine 2: Cue ends before it starts');
+  });
+
+  it('throws for a file with no captions in it', () => {
+    expect(parseErrorOf(() => parseSubtitles('WEBVTT\n', 'empty.vtt')).issues).toEqual([{ line: 1, message: 'File contains no captions' }]);
+  });
+
+  it('shows at most five issues in the message', () => {
+    const cues = Array.from({ length: 7 }, (_, i) => `${i + 1}\nnot a timing line`).join('\n\n');
+    const error = parseErrorOf(() => parseSubtitles(cues, 'bad.srt'));
+    expect(error.issues).toHaveLength(7);
+    expect(error.message.split('\n')).toHaveLength(7);
+    expect(error.message).toMatch(/…and 2 more$/);
+  });
+});
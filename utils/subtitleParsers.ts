@@ -0,0 +1,364 @@
+import { SubtitleSegment, Word } from '../types';
+import { SubtitleFormat } from './subtitleSerializers';
+
+export interface SubtitleParseIssue {
+  line: number;      // 1-based line in the source file
+  message: string;
+}
+
+export class SubtitleParseError extends Error {
+  issues: SubtitleParseIssue[];
+
+  constructor(fileName: string, issues: SubtitleParseIssue[]) {
+    const details = issues.slice(0, 5).map(i => `Line ${i.line}: ${i.message}`).join('\n');
+    const more = issues.length > 5 ? `\n…and ${issues.length - 5} more` : '';
+    super(`Could not read captions from "${fileName}":\n${details}${more}`);
+    this.name = 'SubtitleParseError';
+    this.issues = issues;
+  }
+}
+
+interface ParseResult {
+  subtitles: SubtitleSegment[];
+  issues: SubtitleParseIssue[];
+}
+
+export const CAPTION_FILE_EXTENSIONS = ['.srt', '.vtt', '.ass', '.ssa', '.json'];
+
+export const isCaptionFile = (file: File) =>
+  CAPTION_FILE_EXTENSIONS.some(ext => file.name.toLowerCase().endsWith(ext));
+
+// Accepts HH:MM:SS,mmm / HH:MM:SS.mmm / MM:SS.mmm / H:MM:SS.cc
+const TIMESTAMP_PATTERN = /^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d{1,3}))?$/;
+
+export const parseTimestamp = (value: string): number | null => {
+  const match = TIMESTAMP_PATTERN.exec(value.trim());
+  if (!match) return null;
+  const [, h, m, s, frac] = match;
+  const minutes = parseInt(m, 10);
+  const seconds = parseInt(s, 10);
+  if (minutes > 59 || seconds > 59) return null;
+  // Pad so ".5" means 500ms and ".05" means 50ms
+  const fraction = frac ? parseInt(frac.padEnd(3, '0'), 10) / 1000 : 0;
+  return (h ? parseInt(h, 10) : 0) * 3600 + minutes * 60 + seconds + fraction;
+};
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+
+const stripMarkupTags = (text: string) => text.replace(/<[^>]*>/g, '');
+
+const joinCueText = (text: string) => text.split(/\s+/).filter(Boolean).join(' ');
+
+// Spread a run of words evenly across [start, end]
+const spreadWords = (texts: string[], start: number, end: number): Word[] => {
+  const step = texts.length > 0 ? (end - start) / texts.length : 0;
+  return texts.map((text, i) => ({ text, start: start + step * i, end: start + step * (i + 1) }));
+};
+
+// Splits a file into blocks separated by blank lines, remembering the line each block starts on
+const splitBlocks = (content: string) => {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const blocks: { startLine: number; lines: string[] }[] = [];
+  let current: { startLine: number; lines: string[] } | null = null;
+  lines.forEach((line, i) => {
+    if (line.trim() === '') {
+      if (current) blocks.push(current);
+      current = null;
+    } else {
+      if (!current) current = { startLine: i + 1, lines: [] };
+      current.lines.push(line);
+    }
+  });
+  if (current) blocks.push(current);
+  return blocks;
+};
+
+const parseTimingLine = (line: string) => {
+  const [left, right] = line.split('-->');
+  if (right === undefined) return null;
+  const start = parseTimestamp(left);
+  // WebVTT allows cue settings after the end time
+  const end = parseTimestamp(right.trim().split(/\s+/)[0] || '');
+  return { start, end };
+};
+
+const validateTiming = (start: number | null, end: number | null, line: number, issues: SubtitleParseIssue[]) => {
+  if (start === null || end === null) {
+    issues.push({ line, message: 'Invalid timestamp, expected HH:MM:SS,mmm --> HH:MM:SS,mmm' });
+    return false;
+  }
+  if (end < start) {
+    issues.push({ line, message: 'Cue ends before it starts' });
+    return false;
+  }
+  return true;
+};
+
+export const parseSrt = (content: string): ParseResult => {
+  const subtitles: SubtitleSegment[] = [];
+  const issues: SubtitleParseIssue[] = [];
+
+  splitBlocks(content).forEach(block => {
+    // The numeric counter line is optional in the wild
+    const timingIndex = block.lines.findIndex(l => l.includes('-->'));
+    if (timingIndex === -1 || timingIndex > 1) {
+      issues.push({ line: block.startLine, message: 'Missing "-->" timing line' });
+      return;
+    }
+    const timingLineNumber = block.startLine + timingIndex;
+    const timing = parseTimingLine(block.lines[timingIndex]);
+    if (!timing || !validateTiming(timing.start, timing.end, timingLineNumber, issues)) return;
+
+    // Drop HTML-ish formatting and ASS-style position overrides some SRT files carry
+    const text = joinCueText(stripMarkupTags(block.lines.slice(timingIndex + 1).join(' ')).replace(/\{\\[^}]*\}/g, ''));
+    if (!text) {
+      issues.push({ line: timingLineNumber, message: 'Cue has no text' });
+      return;
+    }
+    subtitles.push({ startTime: timing.start!, endTime: timing.end!, text });
+  });
+
+  return { subtitles, issues };
+};
+
+// Turns "<00:00:01.000>Hello <00:00:01.500>world" into timed words
+const parseVttWords = (raw: string, start: number, end: number): Word[] | undefined => {
+  const parts = raw.split(/<(\d[\d:.]*)>/);
+  if (parts.length < 3) return undefined;
+
+  const runs: { texts: string[]; start: number }[] = [];
+  let cursor = start;
+  for (let i = 0; i < parts.length; i += 2) {
+    if (i > 0) cursor = parseTimestamp(parts[i - 1]) ?? cursor;
+    const texts = decodeEntities(stripMarkupTags(parts[i])).split(/\s+/).filter(Boolean);
+    if (texts.length > 0) runs.push({ texts, start: cursor });
+  }
+
+  return runs.flatMap((run, i) => spreadWords(run.texts, run.start, i < runs.length - 1 ? runs[i + 1].start : end));
+};
+
+export const parseVtt = (content: string): ParseResult => {
+  const subtitles: SubtitleSegment[] = [];
+  const issues: SubtitleParseIssue[] = [];
+  const blocks = splitBlocks(content);
+
+  if (blocks.length === 0 || !blocks[0].lines[0].startsWith('WEBVTT')) {
+    issues.push({ line: 1, message: 'File must start with "WEBVTT"' });
+    return { subtitles, issues };
+  }
+
+  blocks.slice(1).forEach(block => {
+    if (/^(NOTE|STYLE|REGION)\b/.test(block.lines[0])) return;
+
+    const timingIndex = block.lines.findIndex(l => l.includes('-->'));
+    if (timingIndex === -1 || timingIndex > 1) {
+      issues.push({ line: block.startLine, message: 'Missing "-->" timing line' });
+      return;
+    }
+    const timingLineNumber = block.startLine + timingIndex;
+    const timing = parseTimingLine(block.lines[timingIndex]);
+    if (!timing || !validateTiming(timing.start, timing.end, timingLineNumber, issues)) return;
+
+    const raw = block.lines.slice(timingIndex + 1).join(' ');
+    const text = joinCueText(decodeEntities(stripMarkupTags(raw)));
+    if (!text) {
+      issues.push({ line: timingLineNumber, message: 'Cue has no text' });
+      return;
+    }
+    const words = parseVttWords(raw, timing.start!, timing.end!);
+    // <v Name> or <v.class Name> voice spans name the speaker
+    const speaker = /<v(?:\.[^\s>]*)?\s+([^>]+)>/.exec(raw)?.[1].trim();
+    subtitles.push({ startTime: timing.start!, endTime: timing.end!, text, ...(words ? { words } : {}), ...(speaker ? { speaker: decodeEntities(speaker) } : {}) });
+  });
+
+  return { subtitles, issues };
+};
+
+// Reads {\kNN} syllables into words. Syllables without whitespace between them belong to the same word.
+const parseAssKaraoke = (raw: string, start: number): Word[] | undefined => {
+  if (!/\{[^}]*\\[kK][fo]?\d/.test(raw)) return undefined;
+
+  const words: Word[] = [];
+  let cursor = start;
+  let current: Word | null = null;
+  const pattern = /\{([^}]*)\}([^{]*)/g;
+  let match: RegExpExecArray | null;
+
+  const leading = raw.split('{')[0];
+  if (leading.trim()) current = { text: leading.trim(), start, end: start };
+
+  while ((match = pattern.exec(raw)) !== null) {
+    const [, overrides, syllable] = match;
+    const k = /\\[kK][fo]?(\d+)/.exec(overrides);
+    const duration = k ? parseInt(k[1], 10) / 100 : 0;
+    const text = syllable.replace(/\\N/g, ' ').replace(/\\h/g, ' ');
+    const syllableStart = cursor;
+    cursor += duration;
+
+    if (/^\s/.test(text) && current) {
+      words.push(current);
+      current = null;
+    }
+    // A single \k span may cover several words
+    spreadWords(text.trim().split(/\s+/).filter(Boolean), syllableStart, cursor).forEach((piece, i) => {
+      if (i === 0 && current) {
+        current.text += piece.text;
+        current.end = piece.end;
+        return;
+      }
+      if (current) words.push(current);
+      current = piece;
+    });
+    if (/\s$/.test(text) && current) {
+      words.push(current);
+      current = null;
+    }
+  }
+  if (current) words.push(current);
+  return words.length > 0 ? words : undefined;
+};
+
+export const parseAss = (content: string): ParseResult => {
+  const subtitles: SubtitleSegment[] = [];
+  const issues: SubtitleParseIssue[] = [];
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+
+  let inEvents = false;
+  let format: string[] | null = null;
+
+  lines.forEach((line, i) => {
+    const lineNumber = i + 1;
+    const trimmed = line.trim();
+    if (trimmed.startsWith('[')) {
+      inEvents = trimmed.toLowerCase() === '[events]';
+      return;
+    }
+    if (!inEvents) return;
+
+    if (trimmed.startsWith('Format:')) {
+      format = trimmed.slice('Format:'.length).split(',').map(f => f.trim().toLowerCase());
+      return;
+    }
+    if (!trimmed.startsWith('Dialogue:')) return;
+    if (!format) {
+      issues.push({ line: lineNumber, message: 'Dialogue before the [Events] Format line' });
+      return;
+    }
+
+    // Text is always the last field and may itself contain commas
+    const fields = trimmed.slice('Dialogue:'.length).split(',');
+    if (fields.length < format.length) {
+      issues.push({ line: lineNumber, message: `Expected ${format.length} fields, found ${fields.length}` });
+      return;
+    }
+    const values = [...fields.slice(0, format.length - 1), fields.slice(format.length - 1).join(',')];
+    const field = (name: string) => values[format!.indexOf(name)] ?? '';
+
+    const start = parseTimestamp(field('start'));
+    const end = parseTimestamp(field('end'));
+    if (!validateTiming(start, end, lineNumber, issues)) return;
+
+    const raw = field('text');
+    const text = joinCueText(raw.replace(/\{[^}]*\}/g, '').replace(/\\N|\\n|\\h/g, ' '));
+    if (!text) {
+      issues.push({ line: lineNumber, message: 'Dialogue has no text' });
+      return;
+    }
+    const words = parseAssKaraoke(raw, start!);
+    subtitles.push({ startTime: start!, endTime: end!, text, ...(words ? { words } : {}) });
+  });
+
+  if (subtitles.length === 0 && issues.length === 0) {
+    issues.push({ line: 1, message: 'No Dialogue lines found in an [Events] section' });
+  }
+  return { subtitles, issues };
+};
+
+export const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+export const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+export const isWord = (value: unknown): value is Word =>
+  isRecord(value) && typeof value.text === 'string' && isFiniteNumber(value.start) && isFiniteNumber(value.end);
+
+export const parseJson = (content: string): ParseResult => {
+  const subtitles: SubtitleSegment[] = [];
+  const issues: SubtitleParseIssue[] = [];
+
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (e) {
+    return { subtitles, issues: [{ line: 1, message: `Invalid JSON (${(e as Error).message})` }] };
+  }
+
+  const list = Array.isArray(data) ? data : isRecord(data) ? data.subtitles : undefined;
+  if (!Array.isArray(list)) {
+    return { subtitles, issues: [{ line: 1, message: 'Expected an array of subtitle segments' }] };
+  }
+
+  // JSON has no useful line numbers once parsed, so report the entry number instead
+  list.forEach((entry: unknown, index) => {
+    const line = index + 1;
+    if (!isRecord(entry) || !isFiniteNumber(entry.startTime) || !isFiniteNumber(entry.endTime) || typeof entry.text !== 'string') {
+      issues.push({ line, message: `Entry ${index + 1} needs numeric startTime/endTime and a text string` });
+      return;
+    }
+    if (!validateTiming(entry.startTime, entry.endTime, line, issues)) return;
+
+    let words: Word[] | undefined;
+    if (Array.isArray(entry.words)) {
+      if (!entry.words.every(isWord)) {
+        issues.push({ line, message: `Entry ${index + 1} has malformed words` });
+        return;
+      }
+      words = entry.words.map(w => ({ text: w.text, start: w.start, end: w.end }));
+    }
+    const translation = typeof entry.translation === 'string' ? entry.translation : undefined;
+    const speaker = typeof entry.speaker === 'string' && entry.speaker.trim() ? entry.speaker.trim() : undefined;
+    subtitles.push({
+      startTime: entry.startTime,
+      endTime: entry.endTime,
+      text: entry.text,
+      ...(words ? { words } : {}),
+      ...(translation !== undefined ? { translation } : {}),
+      ...(speaker ? { speaker } : {}),
+    });
+  });
+
+  return { subtitles, issues };
+};
+
+const detectFormat = (fileName: string, content: string): SubtitleFormat => {
+  const name = fileName.toLowerCase();
+  if (name.endsWith('.srt')) return 'srt';
+  if (name.endsWith('.vtt')) return 'vtt';
+  if (name.endsWith('.ass') || name.endsWith('.ssa')) return 'ass';
+  if (name.endsWith('.json')) return 'json';
+
+  const head = content.replace(/^\uFEFF/, '').trimStart();
+  if (head.startsWith('WEBVTT')) return 'vtt';
+  if (head.startsWith('[Script Info]')) return 'ass';
+  if (head.startsWith('[') || head.startsWith('{')) return 'json';
+  return 'srt';
+};
+
+export const parseSubtitles = (content: string, fileName: string): SubtitleSegment[] => {
+  const format = detectFormat(fileName, content);
+  const parsers: Record<SubtitleFormat, (content: string) => ParseResult> = { srt: parseSrt, vtt: parseVtt, ass: parseAss, json: parseJson };
+  const { subtitles, issues } = parsers[format](content);
+
+  if (issues.length > 0) throw new SubtitleParseError(fileName, issues);
+  if (subtitles.length === 0) throw new SubtitleParseError(fileName, [{ line: 1, message: 'File contains no captions' }]);
+
+  return subtitles.sort((a, b) => a.startTime - b.startTime);
+};
+
+export const parseSubtitleFile = async (file: File): Promise<SubtitleSegment[]> => {
+  return parseSubtitles(await file.text(), file.name);
+};
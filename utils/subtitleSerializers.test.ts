@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { SubtitleSegment, SubtitleStyle, Word } from '../types';
+import { DEFAULT_SUBTITLE_STYLE } from './captionRenderer';
+import { parseSubtitles } from './subtitleParsers';
+import { formatAssTimestamp, formatSrtTimestamp, formatVttTimestamp, toAss, toJson, toSrt, toVtt } from './subtitleSerializers';
+
+const style: SubtitleStyle = { ...DEFAULT_SUBTITLE_STYLE, textCase: 'none' };
+
+const timedWords = (text: string, start: number, wordDuration: number, gap = 0): Word[] =>
+  text.split(' ').map((t, i) => ({ text: t, start: start + i * (wordDuration + gap), end: start + i * (wordDuration + gap) + wordDuration }));
+
+const SUBTITLES: SubtitleSegment[] = [
+  { startTime: 0.5, endTime: 2.1, text: 'Hello there, world', words: timedWords('Hello there, world', 0.5, 0.4, 0.1) },
+  { startTime: 3, endTime: 4.25, text: 'Fish & chips <3' },
+];
+
+const expectTimesClose = (actual: SubtitleSegment[], expected: SubtitleSegment[], digits: number) => {
+  expect(actual).toHaveLength(expected.length);
+  actual.forEach((s, i) => {
+    expect(s.startTime).toBeCloseTo(expected[i].startTime, digits);
+    expect(s.endTime).toBeCloseTo(expected[i].endTime, digits);
+  });
+};
+
+describe('timestamps', () => {
+  it('rounds 59.9996s up to the next minute instead of writing 60 seconds', () => {
+    expect(formatSrtTimestamp(59.9996)).toBe('00:01:00,000');
+    expect(formatVttTimestamp(59.9996)).toBe('00:01:00.000');
+    expect(formatAssTimestamp(59.996)).toBe('0:01:00.00');
+    expect(formatSrtTimestamp(3599.9999)).toBe('01:00:00,000');
+  });
+
+  it('reads the rounded times back in every format', () => {
+    const subtitles: SubtitleSegment[] = [{ startTime: 1, endTime: 59.9996, text: 'almost a minute' }];
+    expect(parseSubtitles(toSrt(subtitles), 'a.srt')[0].endTime).toBe(60);
+    expect(parseSubtitles(toVtt(subtitles), 'a.vtt')[0].endTime).toBe(60);
+    expect(parseSubtitles(toAss(subtitles, { style }), 'a.ass')[0].endTime).toBe(60);
+  });
+});
+
+describe('round trips', () => {
+  it('SRT keeps text and millisecond times', () => {
+    const parsed = parseSubtitles(toSrt(SUBTITLES), 'a.srt');
+    expect(parsed.map(s => s.text)).toEqual(SUBTITLES.map(s => s.text));
+    expectTimesClose(parsed, SUBTITLES, 3);
+  });
+
+  it('VTT keeps text, speakers and word starts', () => {
+    const subtitles = [{ ...SUBTITLES[0], speaker: 'Ana' }, SUBTITLES[1]];
+    const parsed = parseSubtitles(toVtt(subtitles), 'a.vtt');
+    expect(parsed.map(s => s.text)).toEqual(SUBTITLES.map(s => s.text));
+    expect(parsed.map(s => s.speaker)).toEqual(['Ana', undefined]);
+    expectTimesClose(parsed, SUBTITLES, 3);
+    parsed[0].words!.forEach((w, i) => expect(w.start).toBeCloseTo(SUBTITLES[0].words![i].start, 3));
+    expect(parsed[1].words).toBeUndefined();
+  });
+
+  it('ASS keeps text, centisecond times and karaoke word starts', () => {
+    const parsed = parseSubtitles(toAss(SUBTITLES, { style }), 'a.ass');
+    expect(parsed.map(s => s.text)).toEqual(SUBTITLES.map(s => s.text));
+    expectTimesClose(parsed, SUBTITLES, 2);
+    expect(parsed[0].words!.map(w => w.text)).toEqual(['Hello', 'there,', 'world']);
+    parsed[0].words!.forEach((w, i) => {
+      expect(w.start).toBeCloseTo(SUBTITLES[0].words![i].start, 2);
+      expect(w.end).toBeCloseTo(SUBTITLES[0].words![i].end, 2);
+    });
+  });
+
+  it('JSON keeps everything', () => {
+    const subtitles = [{ ...SUBTITLES[0], translation: 'Bonjour le monde', speaker: 'Ana' }, SUBTITLES[1]];
+    expect(parseSubtitles(toJson(subtitles), 'a.json')).toEqual(subtitles);
+  });
+});
+
+describe('toVtt word tags', () => {
+  const cueText = (sub: SubtitleSegment) => toVtt([sub]).trimEnd().split('\n').pop()!;
+
+  it('leaves the first word untagged, since it starts with the cue', () => {
+    expect(cueText(SUBTITLES[0])).toBe('Hello <00:00:01.000>there, <00:00:01.500>world');
+  });
+
+  it('only tags starts strictly inside the cue that keep increasing', () => {
+    const sub: SubtitleSegment = {
+      startTime: 1,
+      endTime: 2,
+      text: 'a b c d e',
+      words: [
+        { text: 'a', start: 0.9, end: 1.2 },
+        { text: 'b', start: 1.0004, end: 1.3 },  // Rounds to the cue start
+        { text: 'c', start: 1.5, end: 1.6 },
+        { text: 'd', start: 1.4, end: 1.8 },     // Goes backwards
+        { text: 'e', start: 2, end: 2.2 },       // At the cue end
+      ],
+    };
+    expect(cueText(sub)).toBe('a b <00:00:01.500>c d e');
+  });
+});
+
+describe('toAss karaoke', () => {
+  const karaoke = (sub: SubtitleSegment) => {
+    const line = toAss([sub], { style }).trimEnd().split('\n').pop()!;
+    return [...line.matchAll(/\\k(\d+)/g)].map(m => parseInt(m[1], 10));
+  };
+
+  it('adds up to the rounded word boundaries, however many words there are', () => {
+    // A third of a second each rounds down every time; summing rounded durations would drift by a centisecond every three words
+    const words = timedWords(Array.from({ length: 30 }, (_, i) => `w${i}`).join(' '), 0.004, 1 / 3);
+    const sub: SubtitleSegment = { startTime: 0.004, endTime: words[29].end, text: words.map(w => w.text).join(' '), words };
+    const durations = karaoke(sub);
+    expect(durations).toHaveLength(30);
+    expect(durations.reduce((sum, d) => sum + d, 0)).toBe(Math.round(words[29].end * 100));
+
+    const parsed = parseSubtitles(toAss([sub], { style }), 'a.ass')[0].words!;
+    parsed.forEach((w, i) => expect(w.start).toBeCloseTo(Math.round(words[i].start * 100) / 100, 9));
+  });
+
+  it('gives pauses between words an empty syllable of their own', () => {
+    const sub = SUBTITLES[0];
+    expect(karaoke(sub)).toEqual([40, 10, 40, 10, 40]);
+  });
+});
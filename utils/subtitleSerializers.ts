@@ -0,0 +1,218 @@
+import { SubtitleSegment, SubtitleStyle, Word } from '../types';
+import { applyTextCase, REFERENCE_WIDTH, SAFE_AREA_BOTTOM, SAFE_AREA_TOP } from './captionRenderer';
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass' | 'json';
+
+export interface AssOptions {
+  style: SubtitleStyle;
+  playResX?: number;
+  playResY?: number;
+}
+
+export const SUBTITLE_MIME_TYPES: Record<SubtitleFormat, string> = {
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+  ass: 'text/x-ssa',
+  json: 'application/json',
+};
+
+// Split seconds into clock parts, rounding once on the total so 59.9996s becomes 01:00.000 rather than 00:60.000
+const toClockParts = (seconds: number, unitsPerSecond: number) => {
+  const totalUnits = Math.round(Math.max(0, seconds) * unitsPerSecond);
+  const fraction = totalUnits % unitsPerSecond;
+  const totalSeconds = Math.floor(totalUnits / unitsPerSecond);
+  return {
+    hours: Math.floor(totalSeconds / 3600),
+    minutes: Math.floor((totalSeconds % 3600) / 60),
+    seconds: totalSeconds % 60,
+    fraction,
+  };
+};
+
+const pad = (value: number, length = 2) => value.toString().padStart(length, '0');
+
+// SRT: HH:MM:SS,mmm
+export const formatSrtTimestamp = (seconds: number): string => {
+  const t = toClockParts(seconds, 1000);
+  return `${pad(t.hours)}:${pad(t.minutes)}:${pad(t.seconds)},${pad(t.fraction, 3)}`;
+};
+
+// WebVTT: HH:MM:SS.mmm
+export const formatVttTimestamp = (seconds: number): string => {
+  const t = toClockParts(seconds, 1000);
+  return `${pad(t.hours)}:${pad(t.minutes)}:${pad(t.seconds)}.${pad(t.fraction, 3)}`;
+};
+
+// ASS: H:MM:SS.cc (centiseconds)
+export const formatAssTimestamp = (seconds: number): string => {
+  const t = toClockParts(seconds, 100);
+  return `${t.hours}:${pad(t.minutes)}:${pad(t.seconds)}.${pad(t.fraction)}`;
+};
+
+const escapeVttText = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const escapeAssText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/\{/g, '(').replace(/\}/g, ')').replace(/\r?\n/g, '\\N');
+
+const toCentiseconds = (seconds: number) => Math.max(0, Math.round(seconds * 100));
+const toMilliseconds = (seconds: number) => Math.max(0, Math.round(seconds * 1000));
+
+// SRT has no voice markup, so speakers are named in the text the way broadcast subtitles do
+export const toSrt = (subtitles: SubtitleSegment[]): string => {
+  return subtitles
+    .map((sub, index) => [
+      `${index + 1}`,
+      `${formatSrtTimestamp(sub.startTime)} --> ${formatSrtTimestamp(sub.endTime)}`,
+      sub.speaker ? `${sub.speaker}: ${sub.text.trim()}` : sub.text.trim(),
+    ].join('\n'))
+    .join('\n\n') + '\n';
+};
+
+// Word timings become inline WebVTT timestamp tags, which players use for karaoke-style highlighting.
+// Tags must fall strictly inside the cue and keep increasing, so the first word (which starts with the cue)
+// and any word that would break that order get none, and run on from the word before.
+// The speaker becomes a <v> voice span, which players can style and announce
+const buildVttCueText = (sub: SubtitleSegment): string => {
+  const voice = sub.speaker ? `<v ${escapeVttText(sub.speaker)}>` : '';
+  if (!sub.words || sub.words.length === 0) return voice + escapeVttText(sub.text.trim());
+  const end = toMilliseconds(sub.endTime);
+  let last = toMilliseconds(sub.startTime);
+  return voice + sub.words
+    .map((w, i) => {
+      const start = toMilliseconds(w.start);
+      if (i === 0 || start <= last || start >= end) return escapeVttText(w.text);
+      last = start;
+      return `<${formatVttTimestamp(w.start)}>${escapeVttText(w.text)}`;
+    })
+    .join(' ');
+};
+
+export const toVtt = (subtitles: SubtitleSegment[]): string => {
+  const cues = subtitles.map((sub, index) => [
+    `${index + 1}`,
+    `${formatVttTimestamp(sub.startTime)} --> ${formatVttTimestamp(sub.endTime)}`,
+    buildVttCueText(sub),
+  ].join('\n'));
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+};
+
+// Build a \k karaoke line. Gaps between words get their own empty \k so highlights stay on the audio.
+// Word boundaries are rounded to centiseconds first and the durations taken between them, so rounding never adds up over a line.
+const buildAssKaraoke = (sub: SubtitleSegment, words: Word[], style: SubtitleStyle): string => {
+  // \kf sweeps the colour across the syllable like the karaoke animation; \k flips it at once
+  const tag = style.wordAnimation === 'karaoke' ? '\\kf' : '\\k';
+  let cursor = toCentiseconds(sub.startTime);
+  const parts: string[] = [];
+  words.forEach(word => {
+    const start = toCentiseconds(word.start);
+    const end = toCentiseconds(word.end);
+    if (start > cursor) parts.push(`{\\k${start - cursor}}`);
+    const wordStart = Math.max(start, cursor);
+    parts.push(`{${tag}${Math.max(0, end - wordStart)}}${escapeAssText(applyTextCase(word.text, style.textCase))} `);
+    cursor = Math.max(cursor, end);
+  });
+  return parts.join('').trimEnd();
+};
+
+// ASS colours are &HAABBGGRR, where alpha 00 is opaque. Takes the forms sanitizeStyle accepts: #rgb, #rrggbb, rgb() and rgba()
+const toAssColour = (colour: string, opacity = 1) => {
+  let channels: number[];
+  let alphaScale = 1;
+  const rgb = /^rgba?\(([^)]*)\)$/i.exec(colour.trim());
+  if (rgb) {
+    const parts = rgb[1].split(',').map(p => parseFloat(p));
+    channels = parts.slice(0, 3);
+    if (parts.length > 3) alphaScale = parts[3];
+  } else {
+    const clean = colour.replace('#', '');
+    const hex = clean.length === 3 ? clean.split('').map(c => c + c).join('') : clean;
+    channels = [0, 2, 4].map(i => parseInt(hex.slice(i, i + 2), 16));
+  }
+  const [r, g, b] = channels.map(c => Math.max(0, Math.min(255, Math.round(c || 0))).toString(16).padStart(2, '0'));
+  const alpha = Math.round((1 - opacity * alphaScale) * 255).toString(16).padStart(2, '0');
+  return `&H${alpha}${b}${g}${r}`.toUpperCase();
+};
+
+// Numpad-style alignment plus vertical margin matching the renderer's anchors
+const toAssPlacement = (style: SubtitleStyle, playResY: number) => {
+  switch (style.anchor) {
+    case 'safe-top':
+      return { alignment: 8, marginV: Math.round(playResY * SAFE_AREA_TOP) };
+    case 'safe-middle':
+      return { alignment: 5, marginV: 0 };
+    case 'safe-bottom':
+      return { alignment: 2, marginV: Math.round(playResY * (1 - SAFE_AREA_BOTTOM)) };
+    default:
+      return { alignment: 2, marginV: Math.round(playResY * (1 - style.positionY)) };
+  }
+};
+
+export const toAss = (subtitles: SubtitleSegment[], options: AssOptions): string => {
+  const { style } = options;
+  const playResX = options.playResX ?? 1080;
+  const playResY = options.playResY ?? 1920;
+  const scale = playResX / REFERENCE_WIDTH;
+  const fontSize = Math.round(style.fontSize * scale);
+  const { alignment, marginV } = toAssPlacement(style, playResY);
+  const marginH = Math.round(playResX * (1 - style.maxWidth) / 2);
+  const bold = style.fontWeight >= 600 ? -1 : 0;
+
+  // BorderStyle 3 draws an opaque box in OutlineColour instead of a text outline
+  const hasBox = style.boxColor !== null;
+  const borderStyle = hasBox ? 3 : 1;
+  const outlineColour = hasBox ? toAssColour(style.boxColor!, style.boxOpacity) : toAssColour(style.strokeColor);
+  const outline = hasBox
+    ? Math.round(fontSize * style.boxPadding)
+    : style.strokeWidth > 0 ? Math.max(2, Math.round(fontSize * style.strokeWidth)) : 0;
+  const shadow = Math.round(style.shadowOffsetY * scale);
+
+  // With \k, PrimaryColour is the sung (highlighted) colour and SecondaryColour the upcoming one
+  const header = [
+    '[Script Info]',
+    'ScriptType: v4.00+',
+    `PlayResX: ${playResX}`,
+    `PlayResY: ${playResY}`,
+    'WrapStyle: 0',
+    'ScaledBorderAndShadow: yes',
+    '',
+    '[V4+ Styles]',
+    'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding',
+    `Style: Default,${style.fontFamily},${fontSize},${toAssColour(style.highlightColor)},${toAssColour(style.fillColor)},${outlineColour},${toAssColour(style.shadowColor, 0.5)},${bold},0,0,0,100,100,0,0,${borderStyle},${outline},${shadow},${alignment},${marginH},${marginH},${marginV},1`,
+    '',
+    '[Events]',
+    'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+  ];
+
+  const events = subtitles.map(sub => {
+    const text = sub.words && sub.words.length > 0
+      ? buildAssKaraoke(sub, sub.words, style)
+      : escapeAssText(applyTextCase(sub.text.trim(), style.textCase));
+    const name = sub.speaker ? sub.speaker.replace(/,/g, ' ') : '';
+    return `Dialogue: 0,${formatAssTimestamp(sub.startTime)},${formatAssTimestamp(sub.endTime)},Default,${name},0,0,0,,${text}`;
+  });
+
+  return [...header, ...events].join('\n') + '\n';
+};
+
+// The translations as a caption track of their own, for the secondary-language SRT/VTT file
+export const toTranslationTrack = (subtitles: SubtitleSegment[]): SubtitleSegment[] =>
+  subtitles
+    .filter(s => s.translation?.trim())
+    .map(s => ({ startTime: s.startTime, endTime: s.endTime, text: s.translation!.trim(), ...(s.speaker ? { speaker: s.speaker } : {}) }));
+
+// The app's own lossless format, read back by parseJson
+export const toJson = (subtitles: SubtitleSegment[]): string => JSON.stringify(subtitles, null, 2) + '\n';
+
+export const serializeSubtitles = (subtitles: SubtitleSegment[], format: SubtitleFormat, assOptions: AssOptions): string => {
+  switch (format) {
+    case 'srt':
+      return toSrt(subtitles);
+    case 'vtt':
+      return toVtt(subtitles);
+    case 'ass':
+      return toAss(subtitles, assOptions);
+    case 'json':
+      return toJson(subtitles);
+  }
+};
@@ -0,0 +1,60 @@
+import { TARGET_SAMPLE_RATE, getDecodedAudio } from './audioUtils';
+
+export const PEAKS_PER_SECOND = 100;
+
+const SILENCE_BELOW_DB = -35;   // Relative to the loudest peak
+const MIN_SILENCE_SECONDS = 0.25;
+
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+export interface Waveform {
+  peaks: Float32Array;        // Loudest absolute sample per bucket, 0..1
+  peaksPerSecond: number;
+  silences: TimeRange[];
+}
+
+export const computePeaks = (samples: Float32Array, sampleRate: number, peaksPerSecond = PEAKS_PER_SECOND): Float32Array => {
+  const bucket = Math.max(1, Math.round(sampleRate / peaksPerSecond));
+  const peaks = new Float32Array(Math.ceil(samples.length / bucket));
+  for (let p = 0; p < peaks.length; p++) {
+    let max = 0;
+    const end = Math.min(samples.length, (p + 1) * bucket);
+    for (let i = p * bucket; i < end; i++) {
+      const value = Math.abs(samples[i]);
+      if (value > max) max = value;
+    }
+    peaks[p] = max;
+  }
+  return peaks;
+};
+
+// Stretches of quiet at least MIN_SILENCE_SECONDS long, for snapping edits to pauses
+export const findSilences = (peaks: Float32Array, peaksPerSecond: number): TimeRange[] => {
+  let loudest = 0;
+  peaks.forEach(p => { if (p > loudest) loudest = p; });
+  if (loudest === 0) return [];
+
+  const threshold = loudest * Math.pow(10, SILENCE_BELOW_DB / 20);
+  const minLength = MIN_SILENCE_SECONDS * peaksPerSecond;
+  const silences: TimeRange[] = [];
+  let runStart = -1;
+  for (let i = 0; i <= peaks.length; i++) {
+    const quiet = i < peaks.length && peaks[i] < threshold;
+    if (quiet && runStart === -1) runStart = i;
+    if (!quiet && runStart !== -1) {
+      if (i - runStart >= minLength) silences.push({ start: runStart / peaksPerSecond, end: i / peaksPerSecond });
+      runStart = -1;
+    }
+  }
+  return silences;
+};
+
+// The audio as decoded for transcription, without the loudness changes, so the picture matches the source
+export const computeWaveform = async (file: File): Promise<Waveform> => {
+  const samples = await getDecodedAudio(file);
+  const peaks = computePeaks(samples, TARGET_SAMPLE_RATE);
+  return { peaks, peaksPerSecond: PEAKS_PER_SECOND, silences: findSilences(peaks, PEAKS_PER_SECOND) };
+};
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { Word } from '../types';
+import { estimateWordTimings } from './segmenter';
+import { reconcileWordTimings, updateSegmentText } from './wordTimings';
+
+const WORDS: Word[] = [
+  { text: 'the', start: 0, end: 0.3 },
+  { text: 'quick', start: 0.35, end: 0.8 },
+  { text: 'brown', start: 0.9, end: 1.4 },
+  { text: 'fox', start: 1.5, end: 2 },
+];
+
+const timings = (words: Word[]) => words.map(w => [w.text, w.start, w.end]);
+
+describe('reconcileWordTimings', () => {
+  it('leaves unchanged text alone, ignoring case and punctuation', () => {
+    expect(reconcileWordTimings(WORDS, 'The quick, brown fox!', 0, 2)).toEqual([
+      { text: 'The', start: 0, end: 0.3 },
+      { text: 'quick,', start: 0.35, end: 0.8 },
+      { text: 'brown', start: 0.9, end: 1.4 },
+      { text: 'fox!', start: 1.5, end: 2 },
+    ]);
+  });
+
+  it('gives a fixed typo the timing of the word it replaces', () => {
+    const result = reconcileWordTimings(WORDS, 'the quick brwn fox', 0, 2);
+    expect(timings(result)).toEqual([['the', 0, 0.3], ['quick', 0.35, 0.8], ['brwn', 0.9, 1.4], ['fox', 1.5, 2]]);
+  });
+
+  it('fits an inserted word into the gap before the next word', () => {
+    const words: Word[] = [
+      { text: 'the', start: 0, end: 0.3 },
+      { text: 'fox', start: 1, end: 1.4 },
+    ];
+    const result = reconcileWordTimings(words, 'the red fox', 0, 1.4);
+    expect(timings(result)).toEqual([['the', 0, 0.3], ['red', 0.3, 1], ['fox', 1, 1.4]]);
+  });
+
+  it('shares the previous word\'s slot when there is no gap for an inserted word', () => {
+    const result = reconcileWordTimings(WORDS, 'the very quick brown fox', 0, 2);
+    expect(result.map(w => w.text)).toEqual(['the', 'very', 'quick', 'brown', 'fox']);
+    expect(result[0].start).toBe(0);
+    expect(result[0].end).toBeCloseTo(result[1].start);
+    expect(result[1].end).toBeCloseTo(0.35);
+    expect(timings(result.slice(2))).toEqual([['quick', 0.35, 0.8], ['brown', 0.9, 1.4], ['fox', 1.5, 2]]);
+  });
+
+  it('hands a deleted word\'s time to the word before it', () => {
+    const result = reconcileWordTimings(WORDS, 'the quick fox', 0, 2);
+    expect(timings(result)).toEqual([['the', 0, 0.3], ['quick', 0.35, 1.4], ['fox', 1.5, 2]]);
+  });
+
+  it('hands a deleted first word\'s time to the next word', () => {
+    const result = reconcileWordTimings(WORDS, 'quick brown fox', 0, 2);
+    expect(timings(result)).toEqual([['quick', 0, 0.8], ['brown', 0.9, 1.4], ['fox', 1.5, 2]]);
+  });
+
+  it('falls back to estimated timings when the text is rewritten', () => {
+    const text = 'a completely different sentence with more words';
+    expect(reconcileWordTimings(WORDS, text, 0, 2)).toEqual(estimateWordTimings(text, 0, 2));
+  });
+
+  it('estimates timings for words that had none, and returns nothing for blank text', () => {
+    expect(reconcileWordTimings([], 'hello there', 1, 2)).toEqual(estimateWordTimings('hello there', 1, 2));
+    expect(reconcileWordTimings(WORDS, '   ', 0, 2)).toEqual([]);
+  });
+});
+
+describe('updateSegmentText', () => {
+  it('keeps captions without word timings free of them', () => {
+    expect(updateSegmentText({ startTime: 0, endTime: 1, text: 'old' }, 'new')).toEqual({ startTime: 0, endTime: 1, text: 'new' });
+  });
+
+  it('reconciles the words of a timed caption', () => {
+    const segment = { startTime: 0, endTime: 2, text: 'the quick brown fox', words: WORDS };
+    expect(updateSegmentText(segment, 'the quick brwn fox').words![2]).toEqual({ text: 'brwn', start: 0.9, end: 1.4 });
+  });
+});
@@ -0,0 +1,104 @@
+import { SubtitleSegment, Word } from '../types';
+import { estimateWordTimings } from './segmenter';
+
+// Inserted words squeezed into a gap shorter than this borrow time from a neighbour instead
+const MIN_INSERTED_WORD_SECONDS = 0.08;
+
+// Case and punctuation changes still count as the same word, so they keep their timing
+const normalizeToken = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}']+/gu, '');
+
+// Pairs of [oldIndex, newIndex] for the longest run of matching tokens, in order
+const alignTokens = (oldTokens: string[], newTokens: string[]): [number, number][] => {
+  const rows = oldTokens.length, cols = newTokens.length;
+  const lengths: number[][] = Array.from({ length: rows + 1 }, () => new Array(cols + 1).fill(0));
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lengths[i][j] = oldTokens[i] === newTokens[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const pairs: [number, number][] = [];
+  let i = 0, j = 0;
+  while (i < rows && j < cols) {
+    if (oldTokens[i] === newTokens[j]) {
+      pairs.push([i, j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return pairs;
+};
+
+/**
+ * Gives edited subtitle text word timings, reusing the old ones wherever they still apply.
+ * Unchanged words keep their timing, a word replaced one-for-one inherits the old word's slot,
+ * and uneven replacements share the replaced span in proportion to word length.
+ * Pure insertions borrow time from the neighbouring word; deletions hand theirs to it.
+ */
+export const reconcileWordTimings = (words: Word[], text: string, startTime: number, endTime: number): Word[] => {
+  const texts = text.split(/\s+/).filter(Boolean);
+  if (texts.length === 0) return [];
+  if (words.length === 0) return estimateWordTimings(text, startTime, endTime);
+
+  const pairs = alignTokens(words.map(w => normalizeToken(w.text)), texts.map(normalizeToken));
+  // Sentinels close the final gap against the segment end
+  pairs.push([words.length, texts.length]);
+
+  const result: Word[] = [];
+  let oldCursor = 0, newCursor = 0;
+
+  pairs.forEach(([oldIndex, newIndex]) => {
+    const removed = words.slice(oldCursor, oldIndex);
+    const inserted = texts.slice(newCursor, newIndex);
+
+    if (removed.length > 0 && removed.length === inserted.length) {
+      // Typo fixes: each new word takes the slot of the word it replaced
+      inserted.forEach((t, k) => result.push({ text: t, start: removed[k].start, end: removed[k].end }));
+    } else if (removed.length > 0 && inserted.length > 0) {
+      result.push(...estimateWordTimings(inserted.join(' '), removed[0].start, removed[removed.length - 1].end));
+    } else if (inserted.length > 0) {
+      const gapStart = result.length > 0 ? result[result.length - 1].end : startTime;
+      const gapEnd = oldIndex < words.length ? words[oldIndex].start : endTime;
+      if (gapEnd - gapStart >= MIN_INSERTED_WORD_SECONDS * inserted.length) {
+        result.push(...estimateWordTimings(inserted.join(' '), gapStart, gapEnd));
+      } else if (result.length > 0) {
+        // Share the previous word's slot with the new words
+        const previous = result.pop()!;
+        result.push(...estimateWordTimings([previous.text, ...inserted].join(' '), previous.start, Math.max(previous.end, gapEnd)));
+      } else {
+        // Inserted before the first word: share the first word's slot instead
+        const next = words[oldIndex];
+        const shared = estimateWordTimings([...inserted, texts[newIndex]].join(' '), startTime, next.end);
+        result.push(...shared.slice(0, -1));
+        words = words.map((w, k) => (k === oldIndex ? { ...w, start: shared[shared.length - 1].start } : w));
+      }
+    } else if (removed.length > 0) {
+      // Deleted words hand their time to the previous word, or to the next one at the start
+      if (result.length > 0) {
+        result[result.length - 1] = { ...result[result.length - 1], end: removed[removed.length - 1].end };
+      } else if (oldIndex < words.length) {
+        words = words.map((w, k) => (k === oldIndex ? { ...w, start: removed[0].start } : w));
+      }
+    }
+
+    if (oldIndex < words.length) {
+      result.push({ ...words[oldIndex], text: texts[newIndex] });
+    }
+    oldCursor = oldIndex + 1;
+    newCursor = newIndex + 1;
+  });
+
+  return result;
+};
+
+// Applies a text edit to a segment, keeping its word timings in step with the new text
+export const updateSegmentText = (segment: SubtitleSegment, text: string): SubtitleSegment => {
+  if (!segment.words) return { ...segment, text };
+  return { ...segment, text, words: reconcileWordTimings(segment.words, text, segment.startTime, segment.endTime) };
+};
@@ -0,0 +1,96 @@
+// Minimal ZIP writer (stored, no compression) for files that are already compressed, such as PNG frames
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+// The end-of-directory record counts entries in 16 bits
+export const MAX_ZIP_ENTRIES = 0xFFFF;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array): number => {
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+// MS-DOS date and time, as every ZIP header stores them
+const toDosTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+});
+
+/**
+ * Packs the entries into a ZIP archive. Sizes and offsets are 32-bit (no ZIP64),
+ * so the archive must stay under 4GB and 65535 entries.
+ */
+export const createZip = (entries: ZipEntry[], modified = new Date()): Blob => {
+  if (entries.length > MAX_ZIP_ENTRIES) throw new Error(`A ZIP archive holds at most ${MAX_ZIP_ENTRIES} files, not ${entries.length}.`);
+  const encoder = new TextEncoder();
+  const { time, date } = toDosTime(modified);
+  const parts: BlobPart[] = [];
+  const directory: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach(entry => {
+    const name = encoder.encode(entry.name);
+    const crc = crc32(entry.data);
+    const size = entry.data.length;
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034B50, true);
+    localView.setUint16(4, 20, true);          // Version needed: 2.0
+    localView.setUint16(6, 0x0800, true);      // UTF-8 names
+    localView.setUint16(8, 0, true);           // Stored
+    localView.setUint16(10, time, true);
+    localView.setUint16(12, date, true);
+    localView.setUint32(14, crc, true);
+    localView.setUint32(18, size, true);
+    localView.setUint32(22, size, true);
+    localView.setUint16(26, name.length, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014B50, true);
+    centralView.setUint16(4, 20, true);        // Made by: 2.0
+    centralView.setUint16(6, 20, true);
+    centralView.setUint16(8, 0x0800, true);
+    centralView.setUint16(10, 0, true);
+    centralView.setUint16(12, time, true);
+    centralView.setUint16(14, date, true);
+    centralView.setUint32(16, crc, true);
+    centralView.setUint32(20, size, true);
+    centralView.setUint32(24, size, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    parts.push(local, entry.data);
+    directory.push(central);
+    offset += local.length + size;
+    if (offset > 0xFFFFFFFF) throw new Error('The archive is too large for a ZIP file (over 4GB).');
+  });
+
+  const directorySize = directory.reduce((sum, d) => sum + d.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054B50, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, directorySize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...directory, end], { type: 'application/zip' });
+};